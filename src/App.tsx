@@ -27,6 +27,16 @@ import IngredientsPage from "./pages/IngredientsPage";
 import POSTerminalPage from "./pages/POSTerminalPage";
 import SalesReportsPage from "./pages/SalesReportsPage";
 import CashRegisterPage from "./pages/CashRegisterPage";
+import SalesReturnsPage from "./pages/SalesReturnsPage";
+import OverdueAssignmentsPage from "./pages/OverdueAssignmentsPage";
+import MyTasksPage from "./pages/MyTasksPage";
+import AuditLogPage from "./pages/AuditLogPage";
+import ZReportPage from "./pages/ZReportPage";
+import ProductPerformancePage from "./pages/ProductPerformancePage";
+import PriceImpactPage from "./pages/PriceImpactPage";
+import LoginPage from "./pages/LoginPage";
+import AuthProvider from "./components/auth/AuthProvider";
+import ProtectedRoute from "./components/auth/ProtectedRoute";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -42,41 +52,55 @@ const App = () => {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <BrowserRouter>
-          <Toaster />
-          <Sonner />
-          <SidebarMenu />
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/assignments" element={<Assignments />} />
-            <Route path="/ratings" element={<StaffRatings />} />
-            <Route path="/rate-staff" element={<RateStaff />} />
-            <Route path="/analytics" element={<Analytics />} />
-            <Route path="/departments" element={<DepartmentsPage />} />
-            <Route path="/staff" element={<StaffPage />} />
-            <Route path="/manual" element={<UserManual />} />
-            
-            {/* Bakery/Kitchen Production Routes */}
-            <Route path="/products" element={<ProductsPage />} />
-            <Route path="/production" element={<ProductionPage />} />
-            <Route path="/stock" element={<StockPage />} />
-            {/* ADD THE MISSING ROUTE */}
-            <Route path="/stock-information" element={<StockPage />} />
-            <Route path="/promotions" element={<PromotionsPage />} />
-            <Route path="/expired" element={<ExpiredStockPage />} />
-            <Route path="/expired-dispatch" element={<ExpiredStockDispatchPage />} />
-            <Route path="/expired-dispatch-report" element={<ExpiredStockDispatchReport />} />
-            <Route path="/user-management" element={<UserManagementPage />} />
-            <Route path="/recipes" element={<RecipePage />} />
-            <Route path="/ingredients" element={<IngredientsPage />} />
-            
-            {/* POS System Routes */}
-            <Route path="/pos" element={<POSTerminalPage />} />
-            <Route path="/sales-reports" element={<SalesReportsPage />} />
-            <Route path="/cash-register" element={<CashRegisterPage />} />
+          <AuthProvider>
+            <Toaster />
+            <Sonner />
+            <SidebarMenu />
+            <Routes>
+              <Route path="/login" element={<LoginPage />} />
+
+              {/* Everything below requires a signed-in user with the right role */}
+              <Route element={<ProtectedRoute />}>
+                <Route path="/" element={<Index />} />
+                <Route path="/assignments" element={<Assignments />} />
+                <Route path="/overdue" element={<OverdueAssignmentsPage />} />
+                <Route path="/my-tasks" element={<MyTasksPage />} />
+                <Route path="/ratings" element={<StaffRatings />} />
+                <Route path="/rate-staff" element={<RateStaff />} />
+                <Route path="/analytics" element={<Analytics />} />
+                <Route path="/departments" element={<DepartmentsPage />} />
+                <Route path="/staff" element={<StaffPage />} />
+                <Route path="/manual" element={<UserManual />} />
+              
+                {/* Bakery/Kitchen Production Routes */}
+                <Route path="/products" element={<ProductsPage />} />
+                <Route path="/product-performance" element={<ProductPerformancePage />} />
+                <Route path="/price-impact" element={<PriceImpactPage />} />
+                <Route path="/production" element={<ProductionPage />} />
+                <Route path="/stock" element={<StockPage />} />
+                {/* ADD THE MISSING ROUTE */}
+                <Route path="/stock-information" element={<StockPage />} />
+                <Route path="/promotions" element={<PromotionsPage />} />
+                <Route path="/expired" element={<ExpiredStockPage />} />
+                <Route path="/expired-dispatch" element={<ExpiredStockDispatchPage />} />
+                <Route path="/expired-dispatch-report" element={<ExpiredStockDispatchReport />} />
+                <Route path="/user-management" element={<UserManagementPage />} />
+                <Route path="/audit" element={<AuditLogPage />} />
+                <Route path="/recipes" element={<RecipePage />} />
+                <Route path="/ingredients" element={<IngredientsPage />} />
+              
+                {/* POS System Routes */}
+                <Route path="/pos" element={<POSTerminalPage />} />
+                <Route path="/sales-reports" element={<SalesReportsPage />} />
+                <Route path="/cash-register" element={<CashRegisterPage />} />
+                <Route path="/returns" element={<SalesReturnsPage />} />
+                <Route path="/z-report" element={<ZReportPage />} />
+              </Route>
             
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
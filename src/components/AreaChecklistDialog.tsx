@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+import { AreaCheckItem, CheckItemType } from '@/utils/checklists';
+
+interface AreaChecklistDialogProps {
+  area: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AreaChecklistDialog = ({ area, onOpenChange }: AreaChecklistDialogProps) => {
+  const [label, setLabel] = useState('');
+  const [itemType, setItemType] = useState<CheckItemType>('check');
+  const [maxScore, setMaxScore] = useState('5');
+  const queryClient = useQueryClient();
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ['area_checklist_items', area?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('area_checklist_items')
+        .select('*')
+        .eq('area_id', area!.id)
+        .eq('active', true)
+        .order('sort_order');
+
+      if (error) throw error;
+      return data as AreaCheckItem[];
+    },
+    enabled: !!area,
+  });
+
+  const refreshItems = () => queryClient.invalidateQueries({ queryKey: ['area_checklist_items'] });
+
+  const addItem = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('area_checklist_items')
+        .insert({
+          area_id: area!.id,
+          label: label.trim(),
+          item_type: itemType,
+          max_score: itemType === 'score' ? parseInt(maxScore) : 1,
+          sort_order: items.length > 0 ? Math.max(...items.map(item => item.sort_order)) + 1 : 0,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setLabel('');
+      setItemType('check');
+      setMaxScore('5');
+      refreshItems();
+    },
+    onError: (error) => {
+      console.error('Error adding checklist item:', error);
+      toast({ title: "Error", description: "Failed to add checklist item", variant: "destructive" });
+    },
+  });
+
+  // Items are retired rather than deleted so past inspection results keep their link
+  const removeItem = useMutation({
+    mutationFn: async (itemId: string) => {
+      const { error } = await supabase
+        .from('area_checklist_items')
+        .update({ active: false })
+        .eq('id', itemId);
+
+      if (error) throw error;
+    },
+    onSuccess: refreshItems,
+    onError: (error) => {
+      console.error('Error removing checklist item:', error);
+      toast({ title: "Error", description: "Failed to remove checklist item", variant: "destructive" });
+    },
+  });
+
+  const moveItem = useMutation({
+    mutationFn: async ({ index, direction }: { index: number; direction: -1 | 1 }) => {
+      const current = items[index];
+      const other = items[index + direction];
+
+      const { error } = await supabase
+        .from('area_checklist_items')
+        .upsert([
+          { ...current, sort_order: other.sort_order },
+          { ...other, sort_order: current.sort_order },
+        ]);
+
+      if (error) throw error;
+    },
+    onSuccess: refreshItems,
+    onError: (error) => {
+      console.error('Error reordering checklist:', error);
+      toast({ title: "Error", description: "Failed to reorder checklist", variant: "destructive" });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!label.trim()) {
+      toast({ title: "Warning", description: "Enter what needs checking", variant: "destructive" });
+      return;
+    }
+    if (itemType === 'score' && !(parseInt(maxScore) > 1)) {
+      toast({ title: "Warning", description: "Scored items need a maximum above 1", variant: "destructive" });
+      return;
+    }
+    addItem.mutate();
+  };
+
+  return (
+    <Dialog open={!!area} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{area?.name} - Inspection Checklist</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-2">Loading checklist...</p>
+        ) : items.length === 0 ? (
+          <p className="text-center text-gray-500 py-2">No checklist items yet</p>
+        ) : (
+          <div className="space-y-2">
+            {items.map((item, index) => (
+              <div key={item.id} className="p-2 border rounded flex justify-between items-center gap-2">
+                <div className="flex-1">
+                  <span className="font-medium">{item.label}</span>
+                  <p className="text-xs text-gray-500">
+                    {item.item_type === 'check' ? 'Tick when done' : `Score out of ${item.max_score}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === 0}
+                    onClick={() => moveItem.mutate({ index, direction: -1 })}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === items.length - 1}
+                    onClick={() => moveItem.mutate({ index, direction: 1 })}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => removeItem.mutate(item.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-3">
+          <h3 className="font-semibold">Add Item</h3>
+          <Input
+            placeholder="e.g. Floor swept, Fridge temperature logged"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Select value={itemType} onValueChange={(value) => setItemType(value as CheckItemType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="check">Tick box</SelectItem>
+                <SelectItem value="score">Score</SelectItem>
+              </SelectContent>
+            </Select>
+            {itemType === 'score' && (
+              <Input
+                type="number"
+                min="2"
+                className="w-24"
+                placeholder="Out of"
+                value={maxScore}
+                onChange={(e) => setMaxScore(e.target.value)}
+              />
+            )}
+          </div>
+          <Button className="w-full" onClick={handleAdd} disabled={addItem.isPending}>
+            Add Item
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AreaChecklistDialog;
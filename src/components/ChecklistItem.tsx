@@ -1,11 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { User, X, Upload, Lightbulb, Search } from 'lucide-react';
+import { User, X, Upload, Lightbulb, Search, Clock } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { DEFAULT_DUE_TIME } from '@/utils/assignments';
+import { useAuth } from '@/hooks/useAuth';
+import { canApproveOverrides } from '@/lib/auth';
 
 interface Assignee {
   id: number;
@@ -17,7 +20,7 @@ interface Assignee {
 interface ChecklistItemProps {
   area: string;
   description: string;
-  onAssign: (assigneeId: string, instructions: string, photoUrl?: string) => void;
+  onAssign: (assigneeId: string, instructions: string, photoUrl?: string, dueTime?: string, selfInitiative?: boolean) => void;
   assignees: Assignee[];
   isAssigned?: boolean;
   assignedTo?: string;
@@ -38,10 +41,12 @@ const ChecklistItem = ({
   const [showAssignForm, setShowAssignForm] = useState(false);
   const [selectedAssigneeId, setSelectedAssigneeId] = useState("");
   const [instructions, setInstructions] = useState("");
+  const [dueTime, setDueTime] = useState(DEFAULT_DUE_TIME);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const [localAssignees, setLocalAssignees] = useState<Array<{ id: string; name: string; value: string; label: string; searchTerms: string }>>([]);
   const [showSelfInitiative, setShowSelfInitiative] = useState(false);
+  const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -206,17 +211,13 @@ const ChecklistItem = ({
         }
       }
 
-      // Create the assignment with self-initiative flag if applicable
-      const finalInstructions = showSelfInitiative 
-        ? `${instructions} [SELF INITIATIVE MERIT AWARD]`
-        : instructions;
-
-      // Assign the area (photoUrl may be null/undefined)
-      onAssign(selectedAssigneeId, finalInstructions, photoUrl || undefined);
+      // Assign the area (photoUrl may be null/undefined); a self-initiative merit is recorded against the new assignment
+      onAssign(selectedAssigneeId, instructions, photoUrl || undefined, dueTime, showSelfInitiative);
 
       // Clear form
       setSelectedAssigneeId("");
       setInstructions("");
+      setDueTime(DEFAULT_DUE_TIME);
       setPhotoFile(null);
       setPhotoPreview(null);
       setShowAssignForm(false);
@@ -388,22 +389,24 @@ const ChecklistItem = ({
               </div>
             </div>
             
-            {/* Self Initiative Toggle */}
-            <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-md">
-              <input
-                type="checkbox"
-                id="self-initiative"
-                checked={showSelfInitiative}
-                onChange={(e) => setShowSelfInitiative(e.target.checked)}
-                className="rounded"
-              />
-              <label htmlFor="self-initiative" className="flex items-center gap-2 text-sm cursor-pointer">
-                <Lightbulb className="h-4 w-4 text-amber-500" />
-                <span className="text-amber-700 font-medium">
-                  Award Self Initiative Merit (staff took initiative on this task)
-                </span>
-              </label>
-            </div>
+            {/* Self Initiative Toggle - merits are management's call */}
+            {canApproveOverrides(user?.role) && (
+              <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-md">
+                <input
+                  type="checkbox"
+                  id="self-initiative"
+                  checked={showSelfInitiative}
+                  onChange={(e) => setShowSelfInitiative(e.target.checked)}
+                  className="rounded"
+                />
+                <label htmlFor="self-initiative" className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Lightbulb className="h-4 w-4 text-amber-500" />
+                  <span className="text-amber-700 font-medium">
+                    Award Self Initiative Merit (staff took initiative on this task)
+                  </span>
+                </label>
+              </div>
+            )}
             
             <Textarea 
               placeholder="Add your comments here..." 
@@ -411,6 +414,18 @@ const ChecklistItem = ({
               value={instructions}
               onChange={(e) => setInstructions(e.target.value)}
             />
+
+            <div className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-gray-500" />
+              <label htmlFor={`due-time-${area}`} className="text-sm text-gray-600">Due by</label>
+              <Input
+                id={`due-time-${area}`}
+                type="time"
+                className="w-32"
+                value={dueTime}
+                onChange={(e) => setDueTime(e.target.value)}
+              />
+            </div>
             
             {photoPreview ? (
               <div className="relative">
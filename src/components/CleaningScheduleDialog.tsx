@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { CleaningSchedule, describeFrequency, ScheduleFrequency, WEEKDAYS } from '@/utils/schedules';
+import { DEFAULT_DUE_TIME } from '@/utils/assignments';
+
+interface CleaningScheduleDialogProps {
+  area: { id: string; name: string } | null;
+  staffMembers: { id: number; name: string }[];
+  onOpenChange: (open: boolean) => void;
+  onSchedulesChanged?: () => void;
+}
+
+type AssignMode = 'staff' | 'rotation';
+
+const CleaningScheduleDialog = ({ area, staffMembers, onOpenChange, onSchedulesChanged }: CleaningScheduleDialogProps) => {
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('daily');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [assignMode, setAssignMode] = useState<AssignMode>('staff');
+  const [assigneeId, setAssigneeId] = useState('');
+  const [departmentId, setDepartmentId] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [dueTime, setDueTime] = useState(DEFAULT_DUE_TIME);
+  const queryClient = useQueryClient();
+
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: ['cleaning_schedules', area?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cleaning_schedules')
+        .select('*')
+        .eq('area_id', area!.id)
+        .order('created_at');
+
+      if (error) throw error;
+      return data as CleaningSchedule[];
+    },
+    enabled: !!area,
+  });
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ['departments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const refreshSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ['cleaning_schedules'] });
+    onSchedulesChanged?.();
+  };
+
+  const resetForm = () => {
+    setFrequency('daily');
+    setDaysOfWeek([]);
+    setAssignMode('staff');
+    setAssigneeId('');
+    setDepartmentId('');
+    setInstructions('');
+    setDueTime(DEFAULT_DUE_TIME);
+  };
+
+  const addSchedule = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('cleaning_schedules')
+        .insert({
+          area_id: area!.id,
+          frequency,
+          days_of_week: frequency === 'weekly' ? daysOfWeek : [],
+          assignee_id: assignMode === 'staff' ? parseInt(assigneeId) : null,
+          rotation_department_id: assignMode === 'rotation' ? parseInt(departmentId) : null,
+          instructions: instructions.trim() || null,
+          due_time: dueTime,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Schedule added" });
+      resetForm();
+      refreshSchedules();
+    },
+    onError: (error) => {
+      console.error('Error adding schedule:', error);
+      toast({ title: "Error", description: "Failed to add schedule", variant: "destructive" });
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async (schedule: CleaningSchedule) => {
+      const { error } = await supabase
+        .from('cleaning_schedules')
+        .update({ active: !schedule.active })
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+    },
+    onSuccess: refreshSchedules,
+    onError: (error) => {
+      console.error('Error updating schedule:', error);
+      toast({ title: "Error", description: "Failed to update schedule", variant: "destructive" });
+    },
+  });
+
+  const deleteSchedule = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const { error } = await supabase
+        .from('cleaning_schedules')
+        .delete()
+        .eq('id', scheduleId);
+
+      if (error) throw error;
+    },
+    onSuccess: refreshSchedules,
+    onError: (error) => {
+      console.error('Error deleting schedule:', error);
+      toast({ title: "Error", description: "Failed to delete schedule", variant: "destructive" });
+    },
+  });
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setDaysOfWeek(prev => checked ? [...prev, day] : prev.filter(d => d !== day));
+  };
+
+  const handleAdd = () => {
+    if (frequency === 'weekly' && daysOfWeek.length === 0) {
+      toast({ title: "Warning", description: "Pick at least one day", variant: "destructive" });
+      return;
+    }
+    if (assignMode === 'staff' ? !assigneeId : !departmentId) {
+      toast({ title: "Warning", description: "Choose who the task goes to", variant: "destructive" });
+      return;
+    }
+    addSchedule.mutate();
+  };
+
+  const describeAssignee = (schedule: CleaningSchedule) => {
+    if (schedule.rotation_department_id) {
+      const department = departments.find(d => d.id === schedule.rotation_department_id);
+      return `Rotates through ${department?.name || 'department'}`;
+    }
+    return staffMembers.find(s => s.id === schedule.assignee_id)?.name || 'Unassigned';
+  };
+
+  return (
+    <Dialog open={!!area} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{area?.name} - Cleaning Schedule</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-2">Loading schedules...</p>
+        ) : schedules.length === 0 ? (
+          <p className="text-center text-gray-500 py-2">No recurring schedules for this area</p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="p-3 border rounded flex justify-between items-start gap-2">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{describeFrequency(schedule)}, due {schedule.due_time.slice(0, 5)}</span>
+                    {!schedule.active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-600">{describeAssignee(schedule)}</p>
+                  {schedule.instructions && <p className="text-xs text-gray-500">{schedule.instructions}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={schedule.active}
+                    onCheckedChange={() => toggleActive.mutate(schedule)}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => deleteSchedule.mutate(schedule.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-3">
+          <h3 className="font-semibold">Add Schedule</h3>
+          <Select value={frequency} onValueChange={(value) => setFrequency(value as ScheduleFrequency)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Every day</SelectItem>
+              <SelectItem value="weekly">On set days of the week</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-3">
+              {WEEKDAYS.map((label, day) => (
+                <div key={label} className="flex items-center gap-1">
+                  <Checkbox
+                    id={`schedule-day-${day}`}
+                    checked={daysOfWeek.includes(day)}
+                    onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                  />
+                  <Label htmlFor={`schedule-day-${day}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Select value={assignMode} onValueChange={(value) => setAssignMode(value as AssignMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="staff">Same staff member each time</SelectItem>
+              <SelectItem value="rotation">Rotate through a department</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {assignMode === 'staff' ? (
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select staff member" />
+              </SelectTrigger>
+              <SelectContent>
+                {staffMembers.map(staff => (
+                  <SelectItem key={staff.id} value={staff.id.toString()}>{staff.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Select value={departmentId} onValueChange={setDepartmentId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments.map(department => (
+                  <SelectItem key={department.id} value={department.id.toString()}>{department.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="schedule-due-time">Due by</Label>
+            <Input
+              id="schedule-due-time"
+              type="time"
+              className="w-32"
+              value={dueTime}
+              onChange={(e) => setDueTime(e.target.value)}
+            />
+          </div>
+
+          <Textarea
+            placeholder="Default instructions (optional)"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+          />
+
+          <Button className="w-full" onClick={handleAdd} disabled={addSchedule.isPending}>
+            Add Schedule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CleaningScheduleDialog;
@@ -2,7 +2,8 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight, User } from 'lucide-react';
+import { ChevronLeft, ChevronRight, User, Clock } from 'lucide-react';
+import { format } from 'date-fns';
 import { Badge } from "@/components/ui/badge";
 
 interface Assignment {
@@ -14,6 +15,7 @@ interface Assignment {
   instructions?: string;
   photo_url?: string | null;
   created_at?: string;
+  due_at?: string | null;
   isPreviousDay?: boolean;
 }
 
@@ -75,7 +77,10 @@ const IncompleteAssignmentsCarousel = ({ assignments }: IncompleteAssignmentsCar
       </div>
       
       <div onClick={handleCardClick} className="cursor-pointer transition-transform duration-200 hover:scale-[1.02]">
-        <Card className={`${currentAssignment.isPreviousDay ? 'border-amber-500 bg-amber-50' : 'border-blue-200 bg-blue-50'}`}>
+        <Card className={`${
+          currentAssignment.status === 'overdue' ? 'border-red-500 bg-red-50' :
+          currentAssignment.isPreviousDay ? 'border-amber-500 bg-amber-50' : 'border-blue-200 bg-blue-50'
+        }`}>
           <CardContent className="p-3">
             <div className="flex items-start justify-between">
               <div className="flex-1">
@@ -91,6 +96,12 @@ const IncompleteAssignmentsCarousel = ({ assignments }: IncompleteAssignmentsCar
                   <User className="h-3 w-3" />
                   <span>{currentAssignment.assignee_name}</span>
                 </div>
+                {currentAssignment.due_at && (
+                  <div className={`flex items-center gap-1 text-xs mb-1 ${currentAssignment.status === 'overdue' ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                    <Clock className="h-3 w-3" />
+                    <span>Due {format(new Date(currentAssignment.due_at), 'EEE HH:mm')}</span>
+                  </div>
+                )}
                 {currentAssignment.instructions && (
                   <p className="text-xs text-gray-500 line-clamp-2">
                     {currentAssignment.instructions}
@@ -102,6 +113,7 @@ const IncompleteAssignmentsCarousel = ({ assignments }: IncompleteAssignmentsCar
                     className={`text-xs ${
                       currentAssignment.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 
                       currentAssignment.status === 'in_progress' ? 'bg-blue-100 text-blue-800' : 
+                      currentAssignment.status === 'overdue' ? 'bg-red-100 text-red-800' : 
                       'bg-gray-100 text-gray-800'
                     }`}
                   >
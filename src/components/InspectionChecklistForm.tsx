@@ -0,0 +1,53 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AreaCheckItem, CheckScores } from '@/utils/checklists';
+
+interface InspectionChecklistFormProps {
+  idPrefix: string;
+  items: AreaCheckItem[];
+  scores: CheckScores;
+  onScoreChange: (itemId: string, score: number) => void;
+}
+
+const InspectionChecklistForm = ({ idPrefix, items, scores, onScoreChange }: InspectionChecklistFormProps) => (
+  <div className="flex flex-col gap-1 p-2 bg-white border rounded">
+    <span className="text-xs font-medium text-gray-600">Inspection checklist</span>
+    {items.map(item => (
+      <div key={item.id} className="flex items-center justify-between gap-2">
+        {item.item_type === 'check' ? (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-${item.id}`}
+              checked={scores[item.id] === 1}
+              onCheckedChange={(checked) => onScoreChange(item.id, checked ? 1 : 0)}
+            />
+            <label htmlFor={`${idPrefix}-${item.id}`} className="text-sm">
+              {item.label}
+            </label>
+          </div>
+        ) : (
+          <>
+            <span className="text-sm">{item.label}</span>
+            <Select
+              value={scores[item.id]?.toString() ?? ''}
+              onValueChange={(value) => onScoreChange(item.id, parseInt(value))}
+            >
+              <SelectTrigger className="w-20 h-8">
+                <SelectValue placeholder="-" />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: item.max_score + 1 }, (_, score) => (
+                  <SelectItem key={score} value={score.toString()}>
+                    {score}/{item.max_score}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default InspectionChecklistForm;
@@ -7,6 +7,15 @@ import { Plus, Trash2, Save, Edit, Check, X } from 'lucide-react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/sonner';
+import { useRecordRecipeVersion } from '@/hooks/useRecipeVersions';
+import {
+  costPerUsedUnit,
+  findIngredientByName,
+  getConversionError,
+  IngredientConversion,
+  normalizeUnit,
+  UNIT_OPTIONS
+} from '@/utils/units';
 
 interface Recipe {
   id: string;
@@ -32,6 +41,37 @@ interface RecipeIngredient {
   barcode?: string;
 }
 
+interface Ingredient extends IngredientConversion {
+  id: string;
+  name: string;
+}
+
+// Cost of a recipe line. Pack pricing is converted from the pack unit to the unit the line is measured in;
+// without pack pricing the line's own cost per unit applies.
+const calculateIngredientCost = (ingredient: Partial<RecipeIngredient>, ingredients: Ingredient[]) => {
+  const amount = Number(ingredient.quantity_used || ingredient.quantity);
+  const amountUnit = ingredient.quantity_used ? ingredient.used_unit || ingredient.unit : ingredient.unit;
+
+  if (!(Number(ingredient.pack_price) > 0 && Number(ingredient.pack_size) > 0)) {
+    return Number(ingredient.cost_per_unit) * Number(ingredient.quantity);
+  }
+
+  const conversion = { ...findIngredientByName(ingredients, ingredient.ingredient_name), name: ingredient.ingredient_name };
+  const packUnit = ingredient.pack_unit || amountUnit;
+  const costPerUnit = costPerUsedUnit(Number(ingredient.pack_price), Number(ingredient.pack_size), packUnit, amountUnit, conversion);
+  if (costPerUnit === null) throw new Error(getConversionError(packUnit, amountUnit, conversion));
+
+  return costPerUnit * amount;
+};
+
+const UnitSelectOptions = () => (
+  <>
+    {UNIT_OPTIONS.map(option => (
+      <option key={option.value} value={option.value}>{option.label}</option>
+    ))}
+  </>
+);
+
 interface RecipeEditModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -40,6 +80,7 @@ interface RecipeEditModalProps {
 
 const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) => {
   const queryClient = useQueryClient();
+  const recordRecipeVersion = useRecordRecipeVersion();
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [originalBatchSize, setOriginalBatchSize] = useState<number>(0);
   const [editingIngredient, setEditingIngredient] = useState<string | null>(null);
@@ -92,6 +133,21 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
     enabled: !!recipeId && isOpen
   });
 
+  // Ingredient densities and unit weights for converting pack prices
+  const { data: availableIngredients = [] } = useQuery<Ingredient[]>({
+    queryKey: ['ingredients'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ingredients')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: isOpen
+  });
+
   useEffect(() => {
     if (recipeData) {
       setRecipe(recipeData);
@@ -115,6 +171,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
         .eq('id', recipeId);
       
       if (error) throw error;
+      await recordRecipeVersion(recipeId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recipes'] });
@@ -129,9 +186,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
   // Update ingredient mutation
   const updateIngredientMutation = useMutation({
     mutationFn: async ({ ingredientId, updates }: { ingredientId: string; updates: Partial<RecipeIngredient> }) => {
-      const calculatedCost = updates.pack_price && updates.pack_size
-        ? (Number(updates.pack_price) / Number(updates.pack_size)) * Number(updates.quantity_used || updates.quantity)
-        : Number(updates.cost_per_unit) * Number(updates.quantity);
+      const calculatedCost = calculateIngredientCost(updates, availableIngredients);
 
       const { error } = await supabase
         .from('recipe_ingredients')
@@ -142,6 +197,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
         .eq('id', ingredientId);
 
       if (error) throw error;
+      await recordRecipeVersion(recipeId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recipe_ingredients', recipeId] });
@@ -161,9 +217,14 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
         throw new Error('Please fill all required fields');
       }
 
-      const calculatedCost = Number(newIngredient.pack_price) > 0 && Number(newIngredient.pack_size) > 0
-        ? (Number(newIngredient.pack_price) / Number(newIngredient.pack_size)) * Number(newIngredient.quantity_used || newIngredient.quantity)
-        : Number(newIngredient.cost_per_unit) * Number(newIngredient.quantity);
+      const calculatedCost = calculateIngredientCost({
+        ...newIngredient,
+        quantity: Number(newIngredient.quantity),
+        cost_per_unit: Number(newIngredient.cost_per_unit),
+        pack_size: Number(newIngredient.pack_size),
+        pack_price: Number(newIngredient.pack_price),
+        quantity_used: Number(newIngredient.quantity_used)
+      }, availableIngredients);
 
       const { error } = await supabase
         .from('recipe_ingredients')
@@ -182,6 +243,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
         });
 
       if (error) throw error;
+      await recordRecipeVersion(recipeId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recipe_ingredients', recipeId] });
@@ -212,6 +274,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
         .eq('id', ingredientId);
 
       if (error) throw error;
+      await recordRecipeVersion(recipeId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recipe_ingredients', recipeId] });
@@ -270,10 +333,13 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
           .eq('id', ingredient.id)
       );
       
+      // Save the recipe once the ingredients are scaled, so the new version has both
       Promise.all(updatePromises).then(() => {
         queryClient.invalidateQueries({ queryKey: ['recipe_ingredients', recipeId] });
         setOriginalBatchSize(recipe.batch_size);
+        updateRecipeMutation.mutate();
       });
+      return;
     }
     
     updateRecipeMutation.mutate();
@@ -291,7 +357,12 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
 
   const handleEditIngredient = (ingredient: RecipeIngredient) => {
     setEditingIngredient(ingredient.id);
-    setEditedIngredient(ingredient);
+    setEditedIngredient({
+      ...ingredient,
+      unit: normalizeUnit(ingredient.unit),
+      pack_unit: ingredient.pack_unit && normalizeUnit(ingredient.pack_unit),
+      used_unit: ingredient.used_unit && normalizeUnit(ingredient.used_unit)
+    });
   };
 
   const handleSaveIngredient = () => {
@@ -456,11 +527,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
                           onChange={(e) => setEditedIngredient({ ...editedIngredient, unit: e.target.value })}
                           className="w-full p-1 border rounded"
                         >
-                          <option value="kg">kg</option>
-                          <option value="g">g</option>
-                          <option value="L">L</option>
-                          <option value="ml">ml</option>
-                          <option value="unit">unit</option>
+                          <UnitSelectOptions />
                         </select>
                       ) : (
                         ingredient.unit
@@ -512,11 +579,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
                           className="w-full p-1 border rounded"
                         >
                           <option value="">-</option>
-                          <option value="kg">kg</option>
-                          <option value="g">g</option>
-                          <option value="L">L</option>
-                          <option value="ml">ml</option>
-                          <option value="unit">unit</option>
+                          <UnitSelectOptions />
                         </select>
                       ) : (
                         ingredient.pack_unit || "-"
@@ -530,11 +593,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
                           className="w-full p-1 border rounded"
                         >
                           <option value="">-</option>
-                          <option value="kg">kg</option>
-                          <option value="g">g</option>
-                          <option value="L">L</option>
-                          <option value="ml">ml</option>
-                          <option value="unit">unit</option>
+                          <UnitSelectOptions />
                         </select>
                       ) : (
                         ingredient.used_unit || "-"
@@ -631,11 +690,7 @@ const RecipeEditModal = ({ isOpen, onClose, recipeId }: RecipeEditModalProps) =>
                   onChange={(e) => setNewIngredient({ ...newIngredient, unit: e.target.value })}
                   className="w-full p-2 border rounded"
                 >
-                  <option value="kg">kg</option>
-                  <option value="g">g</option>
-                  <option value="L">L</option>
-                  <option value="ml">ml</option>
-                  <option value="unit">unit</option>
+                  <UnitSelectOptions />
                 </select>
               </div>
               <div>
@@ -1,9 +1,12 @@
 
 import { useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { Menu, Croissant, ChefHat, CookingPot, ShoppingCart, AlertTriangle, BarChart4, BookOpen, UserCog, Package, Beef } from "lucide-react";
+import { Menu, Croissant, ChefHat, CookingPot, ShoppingCart, AlertTriangle, BarChart4, BookOpen, UserCog, Package, Beef, LogOut, AlarmClock, ClipboardCheck, History, FileCheck, TrendingUp, Tags } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { canAccess } from "@/lib/auth";
+import { useOverdueAssignments } from "@/hooks/useOverdueAssignments";
 
 interface MenuItemProps {
   icon: React.ReactElement;
@@ -26,11 +29,52 @@ const MenuItem = ({ icon, label, to, onClick, badge }: MenuItemProps) => (
   </Link>
 );
 
+const staffBadge = <span className="absolute right-3 rounded-full bg-orange-100 px-2 text-xs text-orange-800">Staff</span>;
+const adminBadge = <span className="absolute right-3 rounded-full bg-purple-100 px-2 text-xs text-purple-800">Admin</span>;
+
+const countBadge = (count: number) => (
+  <span className="absolute right-3 rounded-full bg-red-600 px-2 text-xs font-semibold text-white">{count}</span>
+);
+
+const menuItems: Omit<MenuItemProps, 'onClick'>[] = [
+  { icon: <ClipboardCheck className="h-5 w-5" />, label: "My Tasks", to: "/my-tasks", badge: staffBadge },
+  { icon: <AlarmClock className="h-5 w-5" />, label: "Overdue Tasks", to: "/overdue" },
+  { icon: <Croissant className="h-5 w-5" />, label: "Products", to: "/products" },
+  { icon: <Beef className="h-5 w-5" />, label: "Ingredients", to: "/ingredients" },
+  { icon: <Package className="h-5 w-5" />, label: "Recipes", to: "/recipes" },
+  { icon: <ChefHat className="h-5 w-5" />, label: "Daily Production", to: "/production", badge: staffBadge },
+  { icon: <CookingPot className="h-5 w-5" />, label: "Production Cost", to: "/production-cost" },
+  { icon: <TrendingUp className="h-5 w-5" />, label: "Product Performance", to: "/product-performance" },
+  { icon: <Tags className="h-5 w-5" />, label: "Price Impact", to: "/price-impact" },
+  { icon: <CookingPot className="h-5 w-5" />, label: "Stock Management", to: "/stock" },
+  { icon: <ShoppingCart className="h-5 w-5" />, label: "Promotions", to: "/promotions" },
+  { icon: <AlertTriangle className="h-5 w-5" />, label: "Expired Stock", to: "/expired", badge: staffBadge },
+  { icon: <BarChart4 className="h-5 w-5" />, label: "Analytics", to: "/analytics" },
+  { icon: <FileCheck className="h-5 w-5" />, label: "Z-Report", to: "/z-report" },
+  { icon: <History className="h-5 w-5" />, label: "Audit Trail", to: "/audit" },
+  { icon: <BookOpen className="h-5 w-5" />, label: "Help", to: "/manual" },
+  { icon: <UserCog className="h-5 w-5" />, label: "User Management", to: "/user-management", badge: adminBadge },
+];
+
 const SidebarMenu = () => {
   const [open, setOpen] = useState(false);
+  const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { data: overdue = [] } = useOverdueAssignments(canAccess(user?.role, '/overdue'));
   
   const handleClose = () => setOpen(false);
 
+  const handleSignOut = () => {
+    setOpen(false);
+    signOut();
+    navigate('/login', { replace: true });
+  };
+
+  // No menu on the sign-in screen
+  if (!user) return null;
+
+  const visibleItems = menuItems.filter(item => canAccess(user.role, item.to));
+
   return (
     <div className="fixed top-4 left-4 z-50">
       <Sheet open={open} onOpenChange={setOpen}>
@@ -47,75 +91,27 @@ const SidebarMenu = () => {
             </div>
             
             <div className="flex-1 overflow-auto py-2">
-              <MenuItem 
-                icon={<Croissant className="h-5 w-5" />} 
-                label="Products" 
-                to="/products"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<Beef className="h-5 w-5" />} 
-                label="Ingredients" 
-                to="/ingredients"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<Package className="h-5 w-5" />} 
-                label="Recipes" 
-                to="/recipes"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<ChefHat className="h-5 w-5" />} 
-                label="Daily Production" 
-                to="/production"
-                onClick={handleClose}
-                badge={<span className="absolute right-3 rounded-full bg-orange-100 px-2 text-xs text-orange-800">Staff</span>}
-              />
-              <MenuItem 
-                icon={<CookingPot className="h-5 w-5" />} 
-                label="Production Cost" 
-                to="/production-cost"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<CookingPot className="h-5 w-5" />} 
-                label="Stock Management" 
-                to="/stock"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<ShoppingCart className="h-5 w-5" />} 
-                label="Promotions" 
-                to="/promotions"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<AlertTriangle className="h-5 w-5" />} 
-                label="Expired Stock" 
-                to="/expired"
-                onClick={handleClose}
-                badge={<span className="absolute right-3 rounded-full bg-orange-100 px-2 text-xs text-orange-800">Staff</span>}
-              />
-              <MenuItem 
-                icon={<BarChart4 className="h-5 w-5" />} 
-                label="Analytics" 
-                to="/analytics"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<BookOpen className="h-5 w-5" />} 
-                label="Help" 
-                to="/manual"
-                onClick={handleClose}
-              />
-              <MenuItem 
-                icon={<UserCog className="h-5 w-5" />} 
-                label="User Management" 
-                to="/user-management"
-                onClick={handleClose}
-                badge={<span className="absolute right-3 rounded-full bg-purple-100 px-2 text-xs text-purple-800">Admin</span>}
-              />
+              {visibleItems.map(item => (
+                <MenuItem 
+                  key={item.to}
+                  icon={item.icon} 
+                  label={item.label} 
+                  to={item.to}
+                  onClick={handleClose}
+                  badge={item.to === '/overdue' && overdue.length > 0 ? countBadge(overdue.length) : item.badge}
+                />
+              ))}
+            </div>
+
+            <div className="p-4 border-t flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium">{user.username}</p>
+                <p className="text-xs text-muted-foreground capitalize">{user.role.replace('-', ' ')}</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleSignOut}>
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign out
+              </Button>
             </div>
             
             <div className="p-4 text-center text-xs text-gray-500 border-t">
@@ -0,0 +1,80 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/sonner';
+import { AuthContext, PosSession, SESSION_STORAGE_KEY } from '@/lib/auth';
+import { PERMISSION_DENIED_EVENT } from '@/lib/posUserFetch';
+
+const loadStoredSession = (): PosSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    const session = stored ? (JSON.parse(stored) as PosSession) : null;
+    // Sessions saved before sign-in issued tokens can no longer reach the database
+    return session?.session_token ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+// An expired session is refused on writes but only sees empty results on reads
+const hasSessionExpired = async (): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('current_pos_session');
+  return !error && (!data || data.length === 0);
+};
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [user, setUser] = useState<PosSession | null>(loadStoredSession);
+
+  const signIn = (session: PosSession) => {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    setUser(session);
+  };
+
+  const signOut = useCallback(() => {
+    const stored = loadStoredSession();
+    if (stored) {
+      supabase.rpc('end_pos_session', { p_token: stored.session_token }).then(({ error }) => {
+        if (error) console.error('Error ending session:', error);
+      });
+    }
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setUser(null);
+  }, []);
+
+  const expireSession = useCallback(() => {
+    toast.error('Your session has expired. Please sign in again.', { id: 'session-expired' });
+    signOut();
+  }, [signOut]);
+
+  useEffect(() => {
+    if (!loadStoredSession()) return;
+    hasSessionExpired().then(expired => {
+      if (expired) expireSession();
+    });
+  }, [expireSession]);
+
+  // The database refused a request: either the session has lapsed or the role lacks access
+  useEffect(() => {
+    const handlePermissionDenied = async () => {
+      if (!loadStoredSession()) return;
+      if (await hasSessionExpired()) {
+        expireSession();
+        return;
+      }
+      toast.error("You don't have permission to do that", {
+        id: 'permission-denied',
+        description: 'Ask a manager if this needs changing.',
+      });
+    };
+
+    window.addEventListener(PERMISSION_DENIED_EVENT, handlePermissionDenied);
+    return () => window.removeEventListener(PERMISSION_DENIED_EVENT, handlePermissionDenied);
+  }, [expireSession]);
+
+  return (
+    <AuthContext.Provider value={{ user, signIn, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
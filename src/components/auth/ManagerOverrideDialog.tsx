@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldCheck } from 'lucide-react';
+import { canApproveOverrides, PosRole } from '@/lib/auth';
+
+export interface OverrideApprover {
+  id: string;
+  username: string;
+}
+
+// What the manager typed, for actions whose RPC re-checks the approval on the server
+export interface OverrideCredentials {
+  username: string;
+  password: string;
+}
+
+interface ManagerOverrideDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApproved: (approver: OverrideApprover, credentials: OverrideCredentials) => void;
+  description?: string;
+}
+
+// Asks a manager or admin to enter their credentials so a cashier can carry on. The check here
+// only gives quick feedback; anything that matters must verify the credentials again server-side.
+const ManagerOverrideDialog = ({ open, onOpenChange, onApproved, description }: ManagerOverrideDialogProps) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setUsername('');
+      setPassword('');
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      toast.error('Manager username and password are required');
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      const { data, error } = await supabase.rpc('verify_pos_user_password', {
+        p_username: username.trim(),
+        p_password: password,
+      });
+
+      if (error) throw error;
+      const approver = data?.[0];
+      if (!approver) {
+        toast.error('Invalid manager credentials');
+        return;
+      }
+      if (!canApproveOverrides(approver.role as PosRole)) {
+        toast.error(`${approver.username} is not allowed to approve overrides`);
+        return;
+      }
+
+      onApproved({ id: approver.id, username: approver.username }, { username: username.trim(), password });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Manager override error:', error);
+      toast.error('Unable to verify manager. Please try again.');
+    } finally {
+      setIsChecking(false);
+      setPassword('');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Manager Override
+          </DialogTitle>
+          <DialogDescription>
+            {description || 'A manager must approve this action.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleApprove} className="space-y-4">
+          <div className="grid gap-2">
+            <Label htmlFor="override-username">Manager username</Label>
+            <Input
+              id="override-username"
+              autoComplete="off"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="override-password">Password</Label>
+            <Input
+              id="override-password"
+              type="password"
+              autoComplete="off"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isChecking}>
+            {isChecking ? 'Checking...' : 'Approve'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManagerOverrideDialog;
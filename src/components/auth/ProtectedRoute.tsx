@@ -0,0 +1,35 @@
+import { Navigate, Outlet, useLocation, Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { canAccess, getHomeRoute } from '@/lib/auth';
+
+const ProtectedRoute = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!canAccess(user.role, location.pathname)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Access denied</h1>
+          <p className="text-gray-600 mb-4">
+            Your role ({user.role}) does not have access to this page.
+          </p>
+          <Link to={getHomeRoute(user.role)}>
+            <Button>Go to my start page</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <Outlet />;
+};
+
+export default ProtectedRoute;
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Plus, Edit, Save, X, Trash2 } from 'lucide-react';
+import { normalizeUnit, UNIT_OPTIONS } from '@/utils/units';
 
 interface ProductionIngredient {
   id: string;
@@ -57,7 +58,7 @@ const IngredientTable = ({
     setEditIngredientData({
       ingredient_name: ingredient.ingredient_name,
       quantity_used: ingredient.quantity_used.toString(),
-      unit: ingredient.unit,
+      unit: normalizeUnit(ingredient.unit),
       cost_per_unit: ingredient.cost_per_unit.toString(),
       pack_size: ingredient.pack_size ? ingredient.pack_size.toString() : '',
       pack_price: ingredient.pack_price ? ingredient.pack_price.toString() : ''
@@ -148,11 +149,9 @@ const IngredientTable = ({
                         })}
                         className="w-20 p-1 border rounded"
                       >
-                        <option value="kg">kg</option>
-                        <option value="g">g</option>
-                        <option value="L">L</option>
-                        <option value="ml">ml</option>
-                        <option value="unit">unit</option>
+                        {UNIT_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
                       </select>
                     </TableCell>
                     <TableCell>
@@ -273,11 +272,9 @@ const IngredientTable = ({
               onChange={(e) => setIngredientData({...ingredientData, unit: e.target.value})}
               className="w-full p-2 border rounded"
             >
-              <option value="kg">kg</option>
-              <option value="g">g</option>
-              <option value="L">L</option>
-              <option value="ml">ml</option>
-              <option value="unit">unit</option>
+              {UNIT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
             </select>
           </div>
           <div>
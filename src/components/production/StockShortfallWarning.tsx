@@ -0,0 +1,28 @@
+import { AlertTriangle } from 'lucide-react';
+
+export interface StockShortfall {
+  ingredient_name: string;
+  unit: string;
+  stock_shortfall: number;
+}
+
+// Usage the kitchen stock could not cover. The batch is still recorded, but stock needs topping up or correcting.
+const StockShortfallWarning = ({ shortfalls }: { shortfalls: StockShortfall[] }) => {
+  if (shortfalls.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex items-start gap-2 rounded border border-amber-300 bg-amber-50 p-2 text-sm text-amber-800">
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-medium">Not enough kitchen stock to cover this batch</p>
+        <p>
+          {shortfalls
+            .map(shortfall => `${shortfall.ingredient_name}: short ${Number(shortfall.stock_shortfall.toFixed(3))} ${shortfall.unit}`)
+            .join(' • ')}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default StockShortfallWarning;
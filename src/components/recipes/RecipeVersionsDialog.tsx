@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useRecipeVersions } from '@/hooks/useRecipeVersions';
+import { diffRecipeVersions, RecipeIngredientChange, RecipeVersionIngredient } from '@/utils/recipeVersions';
+
+interface RecipeVersionsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  recipeId: string | null;
+}
+
+const changeBadgeClass: Record<RecipeIngredientChange, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+const describeLine = (line: RecipeVersionIngredient | null) =>
+  line ? `${line.quantity} ${line.unit} @ R${line.cost_per_unit.toFixed(4)} = R${line.line_cost.toFixed(2)}` : '-';
+
+const RecipeVersionsDialog = ({ isOpen, onClose, recipeId }: RecipeVersionsDialogProps) => {
+  const { data: versions = [], isLoading } = useRecipeVersions(recipeId, isOpen);
+  const [fromVersionId, setFromVersionId] = useState<string>('');
+  const [toVersionId, setToVersionId] = useState<string>('');
+
+  // Compare the previous version with the latest until something else is picked
+  const toVersion = versions.find(version => version.id === toVersionId) || versions[0];
+  const fromVersion = versions.find(version => version.id === fromVersionId) || versions[1] || versions[0];
+  const diff = fromVersion && toVersion ? diffRecipeVersions(fromVersion, toVersion) : [];
+
+  const costHistory = [...versions].reverse().map(version => ({
+    label: `v${version.version_number} ${format(new Date(version.created_at), 'dd MMM')}`,
+    cost_per_unit: version.cost_per_unit,
+  }));
+
+  const handleClose = () => {
+    setFromVersionId('');
+    setToVersionId('');
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recipe History{toVersion ? `: ${toVersion.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4">Loading versions...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No versions saved for this recipe yet.</div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h4 className="font-medium mb-2">Cost per {toVersion.unit} over time</h4>
+              <div className="h-[220px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={costHistory}>
+                    <XAxis dataKey="label" />
+                    <YAxis />
+                    <Tooltip formatter={(value: number) => `R${value.toFixed(2)}`} />
+                    <Line type="stepAfter" dataKey="cost_per_unit" name="Cost per unit" stroke="#0088FE" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Versions</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Batch Size</TableHead>
+                    <TableHead className="text-right">Total Cost</TableHead>
+                    <TableHead className="text-right">Cost per Unit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map(version => (
+                    <TableRow key={version.id}>
+                      <TableCell className="font-medium">v{version.version_number}</TableCell>
+                      <TableCell>{format(new Date(version.created_at), 'dd MMM yyyy HH:mm')}</TableCell>
+                      <TableCell>{version.created_by_name || '-'}</TableCell>
+                      <TableCell>{version.batch_size} {version.unit}</TableCell>
+                      <TableCell className="text-right">R{version.total_cost.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">R{version.cost_per_unit.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <h4 className="font-medium mr-2">Compare</h4>
+                <Select value={fromVersion.id} onValueChange={setFromVersionId}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={version.id}>v{version.version_number}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-gray-500">with</span>
+                <Select value={toVersion.id} onValueChange={setToVersionId}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={version.id}>v{version.version_number}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {fromVersion.batch_size !== toVersion.batch_size || fromVersion.unit !== toVersion.unit ? (
+                <p className="text-sm text-amber-600 mb-2">
+                  Batch size changed from {fromVersion.batch_size} {fromVersion.unit} to {toVersion.batch_size} {toVersion.unit}
+                </p>
+              ) : null}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ingredient</TableHead>
+                    <TableHead>v{fromVersion.version_number}</TableHead>
+                    <TableHead>v{toVersion.version_number}</TableHead>
+                    <TableHead>Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-4 text-gray-500">No ingredients in either version</TableCell>
+                    </TableRow>
+                  ) : (
+                    diff.map(line => (
+                      <TableRow key={line.key}>
+                        <TableCell className="font-medium">{line.ingredient_name}</TableCell>
+                        <TableCell>{describeLine(line.before)}</TableCell>
+                        <TableCell>{describeLine(line.after)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={changeBadgeClass[line.change]}>{line.change}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+              <p className="text-sm text-right mt-2">
+                Cost per unit: R{fromVersion.cost_per_unit.toFixed(2)} → R{toVersion.cost_per_unit.toFixed(2)}
+              </p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipeVersionsDialog;
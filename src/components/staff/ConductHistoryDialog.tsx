@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Award, AlertCircle } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { canApproveOverrides } from '@/lib/auth';
+import {
+  CONDUCT_CATEGORIES,
+  CONDUCT_SEVERITIES,
+  ConductRecord,
+  ConductSeverity,
+  getConductCategoryLabel,
+} from '@/utils/conduct';
+
+interface ConductHistoryDialogProps {
+  staff: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ConductHistoryDialog = ({ staff, onOpenChange }: ConductHistoryDialogProps) => {
+  const [category, setCategory] = useState('');
+  const [severity, setSeverity] = useState<ConductSeverity>('minor');
+  const [reason, setReason] = useState('');
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: ['conduct_records', staff?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('staff_conduct_records')
+        .select('*')
+        .eq('staff_id', staff!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ConductRecord[];
+    },
+    enabled: !!staff,
+  });
+
+  const merits = records.filter(record => record.record_type === 'merit').length;
+  const demerits = records.length - merits;
+
+  const addRecord = useMutation({
+    mutationFn: async () => {
+      const recordType = CONDUCT_CATEGORIES.find(c => c.value === category)!.type;
+      const { error } = await supabase
+        .from('staff_conduct_records')
+        .insert({
+          staff_id: staff!.id,
+          staff_name: staff!.name,
+          record_type: recordType,
+          category,
+          severity,
+          reason: reason.trim(),
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Record added');
+      setCategory('');
+      setSeverity('minor');
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['conduct_records'] });
+    },
+    onError: (error) => {
+      console.error('Conduct record error:', error);
+      toast.error('Failed to add record');
+    },
+  });
+
+  const handleAdd = () => {
+    if (!category || !reason.trim()) {
+      toast.error('Choose a category and give a reason');
+      return;
+    }
+    addRecord.mutate();
+  };
+
+  return (
+    <Dialog open={!!staff} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{staff?.name} - Merits &amp; Demerits</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex gap-2 mb-2">
+          <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">
+            <Award className="h-3 w-3 mr-1" />
+            {merits} merits
+          </Badge>
+          <Badge variant="destructive">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            {demerits} demerits
+          </Badge>
+        </div>
+
+        {canApproveOverrides(user?.role) && (
+          <div className="space-y-2 border rounded p-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDUCT_CATEGORIES.map(c => (
+                    <SelectItem key={c.value} value={c.value}>
+                      {c.type === 'merit' ? 'Merit' : 'Demerit'}: {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={severity} onValueChange={(value) => setSeverity(value as ConductSeverity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDUCT_SEVERITIES.map(s => (
+                    <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              placeholder="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <Button size="sm" onClick={handleAdd} disabled={addRecord.isPending}>
+              Add Record
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-4">Loading history...</p>
+        ) : records.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No merits or demerits recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {records.map(record => (
+              <div
+                key={record.id}
+                className={`p-3 border rounded ${record.record_type === 'merit' ? 'bg-amber-50' : 'bg-red-50'}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">
+                    {record.record_type === 'merit' ? 'Merit' : 'Demerit'}: {getConductCategoryLabel(record.category)}
+                  </span>
+                  <span className="text-xs text-gray-500">{format(new Date(record.created_at), 'PPp')}</span>
+                </div>
+                <p className="text-sm">{record.reason}</p>
+                <p className="text-xs text-gray-500">
+                  <span className="capitalize">{record.severity}</span> · issued by {record.issued_by_name}
+                  {record.assignment_id && ' · from an assignment'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConductHistoryDialog;
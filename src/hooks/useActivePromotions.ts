@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { format } from 'date-fns';
+
+export interface ActivePromotion {
+  id: string;
+  product_id: string;
+  product_name: string;
+  discount_percentage: number;
+  start_date: string;
+  end_date: string;
+  description?: string;
+}
+
+export const useActivePromotions = () => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // Fetch promotions running today (start and end dates are inclusive)
+  const { data: promotions = [], isLoading } = useQuery<ActivePromotion[]>({
+    queryKey: ['promotions', 'active', today],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('id, product_id, product_name, discount_percentage, start_date, end_date, description')
+        .lte('start_date', today)
+        .gte('end_date', today);
+
+      if (error) throw error;
+      return data as ActivePromotion[];
+    }
+  });
+
+  // When promotions overlap on a product, the customer gets the biggest discount
+  const promotionsByProduct = promotions.reduce((acc, promo) => {
+    const current = acc[promo.product_id];
+    if (!current || promo.discount_percentage > current.discount_percentage) {
+      acc[promo.product_id] = promo;
+    }
+    return acc;
+  }, {} as Record<string, ActivePromotion>);
+
+  const getPromotionForProduct = (productId: string): ActivePromotion | undefined =>
+    promotionsByProduct[productId];
+
+  return {
+    promotions,
+    isLoading,
+    getPromotionForProduct
+  };
+};
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { AreaCheckItem } from '@/utils/checklists';
+
+// Active inspection checklists for every area; assignments refer to areas by name
+export const useAreaChecklists = () => {
+  const { data: checklistItems = [] } = useQuery({
+    queryKey: ['area_checklist_items', 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('area_checklist_items')
+        .select('*, areas(name)')
+        .eq('active', true)
+        .order('sort_order');
+
+      if (error) throw error;
+      return data as (AreaCheckItem & { areas: { name: string } | null })[];
+    }
+  });
+
+  const getAreaChecklist = (areaName: string): AreaCheckItem[] =>
+    checklistItems.filter(item => item.areas?.name === areaName);
+
+  return { getAreaChecklist };
+};
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getQueuedSales,
+  isNetworkError,
+  queueSale as addToQueue,
+  recordFailedAttempt,
+  removeQueuedSale,
+  SalePayload,
+  submitSale,
+} from '@/lib/offlineSales';
+
+const SYNC_INTERVAL = 30000;
+
+export const useOfflineSync = () => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const queryClient = useQueryClient();
+
+  const refreshPendingCount = useCallback(async () => {
+    setPendingCount((await getQueuedSales()).length);
+  }, []);
+
+  // Replay queued sales oldest first; stop at the first network failure and try again later
+  const syncPendingSales = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    let synced = 0;
+    try {
+      const queued = await getQueuedSales();
+      for (const sale of queued) {
+        try {
+          await submitSale(sale);
+          await removeQueuedSale(sale.id);
+          synced += 1;
+        } catch (error) {
+          console.error('Offline sale sync error:', error);
+          await recordFailedAttempt(sale, error);
+          if (isNetworkError(error)) break;
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await refreshPendingCount();
+    }
+
+    if (synced > 0) {
+      toast.success(`Synced ${synced} offline sale${synced === 1 ? '' : 's'}`);
+      queryClient.invalidateQueries({ queryKey: ['sales_transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['session_sales'] });
+      queryClient.invalidateQueries({ queryKey: ['product_stock'] });
+    }
+  }, [queryClient, refreshPendingCount]);
+
+  const queueSale = async (sale: SalePayload) => {
+    await addToQueue(sale);
+    await refreshPendingCount();
+  };
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPendingSales();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Pick up anything left over from an earlier session, then keep retrying in the background
+    refreshPendingCount();
+    syncPendingSales();
+    const interval = setInterval(syncPendingSales, SYNC_INTERVAL);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, [refreshPendingCount, syncPendingSales]);
+
+  return {
+    isOnline,
+    pendingCount,
+    isSyncing,
+    queueSale,
+    syncPendingSales
+  };
+};
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+const REFRESH_INTERVAL = 60000;
+
+// Flags anything past its deadline, then returns every overdue assignment, most overdue first
+export const useOverdueAssignments = (enabled = true) => {
+  return useQuery({
+    queryKey: ['overdue_assignments'],
+    queryFn: async () => {
+      const { error: markError } = await supabase.rpc('mark_overdue_assignments');
+      if (markError) throw markError;
+
+      const { data, error } = await supabase
+        .from('assignments')
+        .select('*')
+        .eq('status', 'overdue')
+        .order('due_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+    refetchInterval: REFRESH_INTERVAL,
+  });
+};
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ProductStock {
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  produced: number;
+  sold: number;
+  expired: number;
+  adjusted: number;
+  on_hand: number;
+}
+
+export const useProductStock = () => {
+  // Live finished goods on hand: production minus sales and expiry, from the ledger
+  const { data: productStock = [], isLoading } = useQuery<ProductStock[]>({
+    queryKey: ['product_stock'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_stock_on_hand')
+        .select('*')
+        .order('product_name');
+
+      if (error) throw error;
+      return data as ProductStock[];
+    },
+    refetchInterval: 60000
+  });
+
+  const stockByProduct = productStock.reduce((acc, stock) => {
+    acc[stock.product_id] = stock;
+    return acc;
+  }, {} as Record<string, ProductStock>);
+
+  const getOnHand = (productId: string): number => stockByProduct[productId]?.on_hand ?? 0;
+
+  return {
+    productStock,
+    isLoading,
+    getOnHand
+  };
+};
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  buildReceiptHtml,
+  printReceiptHtml,
+  ReceiptData,
+  ReceiptWidth,
+  RECEIPT_WIDTH_STORAGE_KEY,
+} from '@/utils/receipt';
+
+const loadPaperWidth = (): ReceiptWidth =>
+  localStorage.getItem(RECEIPT_WIDTH_STORAGE_KEY) === '58mm' ? '58mm' : '80mm';
+
+export const useReceiptPrinter = () => {
+  const [paperWidth, setPaperWidthState] = useState<ReceiptWidth>(loadPaperWidth);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  // The till remembers its paper roll between sessions
+  const setPaperWidth = (width: ReceiptWidth) => {
+    localStorage.setItem(RECEIPT_WIDTH_STORAGE_KEY, width);
+    setPaperWidthState(width);
+  };
+
+  const printReceiptData = (receipt: ReceiptData, { reprint = false }: { reprint?: boolean } = {}) => {
+    printReceiptHtml(buildReceiptHtml(receipt, paperWidth, reprint));
+  };
+
+  const printReceipt = async (transactionId: string, { reprint = false }: { reprint?: boolean } = {}) => {
+    setIsPrinting(true);
+    try {
+      const { data: sale, error } = await supabase
+        .from('sales_transactions')
+        .select(`
+          *,
+          sales_transaction_items(product_name, quantity, unit_price, line_total, discount_amount, tax_class, tax_amount, net_amount),
+          payment_transactions(payment_method, amount_paid, change_given, created_at)
+        `)
+        .eq('id', transactionId)
+        .single();
+
+      if (error) throw error;
+
+      let cashierName: string | null = null;
+      if (sale.cashier_id) {
+        const { data: cashier } = await supabase
+          .from('pos_users')
+          .select('username')
+          .eq('id', sale.cashier_id)
+          .maybeSingle();
+        cashierName = cashier?.username || null;
+      }
+
+      const receipt: ReceiptData = {
+        transaction_number: sale.transaction_number,
+        transaction_date: sale.transaction_date,
+        customer_name: sale.customer_name,
+        cashier_name: cashierName,
+        total_amount: sale.total_amount,
+        discount_amount: sale.discount_amount,
+        payment_status: sale.payment_status,
+        items: sale.sales_transaction_items,
+        payments: [...sale.payment_transactions].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      };
+
+      printReceiptData(receipt, { reprint });
+    } catch (error) {
+      console.error('Receipt printing error:', error);
+      toast.error('Failed to print receipt');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return { paperWidth, setPaperWidth, printReceipt, printReceiptData, isPrinting };
+};
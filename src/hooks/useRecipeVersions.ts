@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { RecipeVersion, RecipeVersionIngredient } from '@/utils/recipeVersions';
+
+// Every saved version of a recipe, newest first
+export const useRecipeVersions = (recipeId: string | null, enabled = true) => {
+  return useQuery({
+    queryKey: ['recipe_versions', recipeId],
+    queryFn: async (): Promise<RecipeVersion[]> => {
+      const { data, error } = await supabase
+        .from('recipe_versions')
+        .select('*')
+        .eq('recipe_id', recipeId)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(version => ({
+        ...version,
+        ingredients: version.ingredients as unknown as RecipeVersionIngredient[],
+      }));
+    },
+    enabled: !!recipeId && enabled,
+  });
+};
+
+// Snapshot a recipe after editing it. The database skips the snapshot when nothing changed.
+export const useRecordRecipeVersion = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (recipeId: string) => {
+    const { error } = await supabase.rpc('record_recipe_version', { p_recipe_id: recipeId });
+    if (error) throw error;
+    queryClient.invalidateQueries({ queryKey: ['recipe_versions', recipeId] });
+  }, [queryClient]);
+};
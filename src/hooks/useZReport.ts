@@ -0,0 +1,97 @@
+import { useQuery } from '@tanstack/react-query';
+import { endOfDay, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { buildZReport, ZReportSnapshot } from '@/utils/zReport';
+
+const toDayRange = (reportDate: string) => {
+  const day = new Date(`${reportDate}T00:00:00`);
+  return { from: startOfDay(day).toISOString(), to: endOfDay(day).toISOString() };
+};
+
+// The signed-off snapshot for a day, if a manager has closed it
+export const useSignedZReport = (reportDate: string) => {
+  return useQuery({
+    queryKey: ['z_reports', reportDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('z_reports')
+        .select('*')
+        .eq('report_date', reportDate)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? { ...data, snapshot: data.snapshot as unknown as ZReportSnapshot } : null;
+    },
+  });
+};
+
+// Live figures for a day, gathered from sales, registers, production, waste and cleaning
+export const useZReportData = (reportDate: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['z_report_data', reportDate],
+    queryFn: async (): Promise<ZReportSnapshot> => {
+      const { from, to } = toDayRange(reportDate);
+
+      const [sales, returns, payments, production, expired, dispatches, registers, assignments] = await Promise.all([
+        supabase
+          .from('sales_transactions')
+          .select('total_amount, discount_amount, payment_status, sales_transaction_items(product_name, quantity, tax_class, tax_amount, net_amount)')
+          .gte('transaction_date', from)
+          .lte('transaction_date', to),
+        supabase
+          .from('sales_returns')
+          .select('refund_amount, sales_return_items(product_name, quantity, tax_class, tax_amount, net_amount)')
+          .gte('created_at', from)
+          .lte('created_at', to),
+        supabase
+          .from('payment_transactions')
+          .select('payment_method, amount_paid, change_given')
+          .gte('created_at', from)
+          .lte('created_at', to),
+        supabase
+          .from('production_batches')
+          .select('quantity_produced, products(name)')
+          .eq('production_date', reportDate),
+        supabase
+          .from('expired_items')
+          .select('product_name, quantity')
+          .eq('removal_date', reportDate),
+        supabase
+          .from('expired_stock_dispatches')
+          .select('dispatch_destination, quantity_dispatched')
+          .eq('dispatch_date', reportDate),
+        supabase
+          .from('cash_register_sessions')
+          .select('cashier_name, status, opened_at, closed_at, expected_cash, counted_cash, variance')
+          .gte('opened_at', from)
+          .lte('opened_at', to)
+          .order('opened_at'),
+        // Scheduled tasks belong to their scheduled day, ad-hoc ones to the day they were created
+        supabase
+          .from('assignments')
+          .select('assignee_name, status, hygiene_score')
+          .or(`scheduled_for.eq.${reportDate},and(scheduled_for.is.null,created_at.gte.${from},created_at.lte.${to})`),
+      ]);
+
+      const failed = [sales, returns, payments, production, expired, dispatches, registers, assignments]
+        .find(result => result.error);
+      if (failed?.error) throw failed.error;
+
+      return buildZReport({
+        reportDate,
+        sales: sales.data || [],
+        returns: returns.data || [],
+        payments: payments.data || [],
+        production: (production.data || []).map(batch => ({
+          product_name: batch.products?.name || 'Unknown product',
+          quantity_produced: batch.quantity_produced,
+        })),
+        expired: expired.data || [],
+        dispatches: dispatches.data || [],
+        registers: registers.data || [],
+        assignments: assignments.data || [],
+      });
+    },
+    enabled,
+  });
+};
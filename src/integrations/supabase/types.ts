@@ -14,6 +14,47 @@ export type Database = {
   }
   public: {
     Tables: {
+      area_checklist_items: {
+        Row: {
+          active: boolean
+          area_id: string
+          created_at: string
+          id: string
+          item_type: string
+          label: string
+          max_score: number
+          sort_order: number
+        }
+        Insert: {
+          active?: boolean
+          area_id: string
+          created_at?: string
+          id?: string
+          item_type?: string
+          label: string
+          max_score?: number
+          sort_order?: number
+        }
+        Update: {
+          active?: boolean
+          area_id?: string
+          created_at?: string
+          id?: string
+          item_type?: string
+          label?: string
+          max_score?: number
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "area_checklist_items_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "areas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       areas: {
         Row: {
           created_at: string
@@ -38,35 +79,110 @@ export type Database = {
         }
         Relationships: []
       }
+      assignment_check_results: {
+        Row: {
+          assignment_id: string
+          checklist_item_id: string | null
+          created_at: string
+          id: string
+          label: string
+          max_score: number
+          score: number
+        }
+        Insert: {
+          assignment_id: string
+          checklist_item_id?: string | null
+          created_at?: string
+          id?: string
+          label: string
+          max_score: number
+          score: number
+        }
+        Update: {
+          assignment_id?: string
+          checklist_item_id?: string | null
+          created_at?: string
+          id?: string
+          label?: string
+          max_score?: number
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_check_results_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_check_results_checklist_item_id_fkey"
+            columns: ["checklist_item_id"]
+            isOneToOne: false
+            referencedRelation: "area_checklist_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assignments: {
         Row: {
+          after_photo_url: string | null
           area: string
           assignee_id: number
           assignee_name: string
+          completed_at: string | null
           created_at: string | null
+          due_at: string | null
+          hygiene_score: number | null
           id: string
           instructions: string | null
+          overdue_at: string | null
           photo_url: string | null
+          rejected_at: string | null
+          rejected_by_name: string | null
+          rejection_comment: string | null
+          schedule_id: string | null
+          scheduled_for: string | null
           status: string
         }
         Insert: {
+          after_photo_url?: string | null
           area: string
           assignee_id: number
           assignee_name: string
+          completed_at?: string | null
           created_at?: string | null
+          due_at?: string | null
+          hygiene_score?: number | null
           id?: string
           instructions?: string | null
+          overdue_at?: string | null
           photo_url?: string | null
+          rejected_at?: string | null
+          rejected_by_name?: string | null
+          rejection_comment?: string | null
+          schedule_id?: string | null
+          scheduled_for?: string | null
           status: string
         }
         Update: {
+          after_photo_url?: string | null
           area?: string
           assignee_id?: number
           assignee_name?: string
+          completed_at?: string | null
           created_at?: string | null
+          due_at?: string | null
+          hygiene_score?: number | null
           id?: string
           instructions?: string | null
+          overdue_at?: string | null
           photo_url?: string | null
+          rejected_at?: string | null
+          rejected_by_name?: string | null
+          rejection_comment?: string | null
+          schedule_id?: string | null
+          scheduled_for?: string | null
           status?: string
         }
         Relationships: [
@@ -77,6 +193,208 @@ export type Database = {
             referencedRelation: "staff"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "assignments_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          changed_by_name: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          row_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          row_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          row_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      cash_register_operations: {
+        Row: {
+          amount: number
+          cashier_name: string
+          created_at: string
+          id: string
+          operation_type: string
+          reason: string
+          session_id: string
+        }
+        Insert: {
+          amount: number
+          cashier_name: string
+          created_at?: string
+          id?: string
+          operation_type: string
+          reason: string
+          session_id: string
+        }
+        Update: {
+          amount?: number
+          cashier_name?: string
+          created_at?: string
+          id?: string
+          operation_type?: string
+          reason?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_register_operations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_register_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_register_sessions: {
+        Row: {
+          cash_refunds_total: number | null
+          cash_sales_total: number | null
+          cashier_name: string
+          closed_at: string | null
+          closing_notes: string | null
+          counted_cash: number | null
+          created_at: string
+          expected_cash: number | null
+          id: string
+          opened_at: string
+          opening_float: number
+          payins_total: number | null
+          payouts_total: number | null
+          status: string
+          variance: number | null
+        }
+        Insert: {
+          cash_refunds_total?: number | null
+          cash_sales_total?: number | null
+          cashier_name: string
+          closed_at?: string | null
+          closing_notes?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          opened_at?: string
+          opening_float?: number
+          payins_total?: number | null
+          payouts_total?: number | null
+          status?: string
+          variance?: number | null
+        }
+        Update: {
+          cash_refunds_total?: number | null
+          cash_sales_total?: number | null
+          cashier_name?: string
+          closed_at?: string | null
+          closing_notes?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          opened_at?: string
+          opening_float?: number
+          payins_total?: number | null
+          payouts_total?: number | null
+          status?: string
+          variance?: number | null
+        }
+        Relationships: []
+      }
+      cleaning_schedules: {
+        Row: {
+          active: boolean
+          area_id: string
+          assignee_id: number | null
+          created_at: string
+          days_of_week: number[]
+          due_time: string
+          frequency: string
+          id: string
+          instructions: string | null
+          last_generated_on: string | null
+          rotation_department_id: number | null
+          rotation_index: number
+        }
+        Insert: {
+          active?: boolean
+          area_id: string
+          assignee_id?: number | null
+          created_at?: string
+          days_of_week?: number[]
+          due_time?: string
+          frequency?: string
+          id?: string
+          instructions?: string | null
+          last_generated_on?: string | null
+          rotation_department_id?: number | null
+          rotation_index?: number
+        }
+        Update: {
+          active?: boolean
+          area_id?: string
+          assignee_id?: number | null
+          created_at?: string
+          days_of_week?: number[]
+          due_time?: string
+          frequency?: string
+          id?: string
+          instructions?: string | null
+          last_generated_on?: string | null
+          rotation_department_id?: number | null
+          rotation_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cleaning_schedules_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cleaning_schedules_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cleaning_schedules_rotation_department_id_fkey"
+            columns: ["rotation_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       departments: {
@@ -180,6 +498,104 @@ export type Database = {
         }
         Relationships: []
       }
+      finished_goods_ledger: {
+        Row: {
+          created_at: string
+          id: string
+          movement_type: string
+          notes: string | null
+          product_id: string
+          quantity: number
+          reference_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          movement_type: string
+          notes?: string | null
+          product_id: string
+          quantity: number
+          reference_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          movement_type?: string
+          notes?: string | null
+          product_id?: string
+          quantity?: number
+          reference_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "finished_goods_ledger_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingredient_price_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string
+          id: string
+          ingredient_id: string | null
+          ingredient_name: string
+          new_pack_size: number
+          new_total_price: number
+          new_unit: string
+          old_pack_size: number
+          old_total_price: number
+          old_unit: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string
+          id?: string
+          ingredient_id?: string | null
+          ingredient_name: string
+          new_pack_size: number
+          new_total_price: number
+          new_unit: string
+          old_pack_size: number
+          old_total_price: number
+          old_unit: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string
+          id?: string
+          ingredient_id?: string | null
+          ingredient_name?: string
+          new_pack_size?: number
+          new_total_price?: number
+          new_unit?: string
+          old_pack_size?: number
+          old_total_price?: number
+          old_unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredient_price_changes_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "pos_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredient_price_changes_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ingredient_transfers: {
         Row: {
           from_cost_per_unit: number
@@ -260,6 +676,8 @@ export type Database = {
       ingredients: {
         Row: {
           created_at: string | null
+          density_g_per_ml: number | null
+          each_weight_g: number | null
           id: string
           name: string
           price_ex_vat: number
@@ -273,6 +691,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          density_g_per_ml?: number | null
+          each_weight_g?: number | null
           id?: string
           name: string
           price_ex_vat?: number
@@ -286,6 +706,8 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          density_g_per_ml?: number | null
+          each_weight_g?: number | null
           id?: string
           name?: string
           price_ex_vat?: number
@@ -304,11 +726,13 @@ export type Database = {
           cost_per_unit: number
           created_at: string
           id: string
-          ingredient_id: string
+          ingredient_id: string | null
           ingredient_name: string
           last_updated: string
           pack_size: number
+          production_batch_id: string | null
           quantity_on_hand: number
+          recipe_id: string | null
           total_value: number | null
           unit: string
         }
@@ -316,11 +740,13 @@ export type Database = {
           cost_per_unit?: number
           created_at?: string
           id?: string
-          ingredient_id: string
+          ingredient_id?: string | null
           ingredient_name: string
           last_updated?: string
           pack_size: number
+          production_batch_id?: string | null
           quantity_on_hand?: number
+          recipe_id?: string | null
           total_value?: number | null
           unit?: string
         }
@@ -328,11 +754,13 @@ export type Database = {
           cost_per_unit?: number
           created_at?: string
           id?: string
-          ingredient_id?: string
+          ingredient_id?: string | null
           ingredient_name?: string
           last_updated?: string
           pack_size?: number
+          production_batch_id?: string | null
           quantity_on_hand?: number
+          recipe_id?: string | null
           total_value?: number | null
           unit?: string
         }
@@ -344,6 +772,20 @@ export type Database = {
             referencedRelation: "ingredients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "kitchen_stock_production_batch_id_fkey"
+            columns: ["production_batch_id"]
+            isOneToOne: false
+            referencedRelation: "production_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kitchen_stock_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       kitchen_stock_adjustments: {
@@ -434,13 +876,45 @@ export type Database = {
           },
         ]
       }
+      pos_sessions: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          expires_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          expires_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          expires_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pos_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "pos_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pos_users: {
         Row: {
           active: boolean | null
           created_at: string | null
           created_by: string | null
           id: string
-          password: string
+          password_hash: string | null
           qr_code: string | null
           role: string
           username: string
@@ -450,7 +924,7 @@ export type Database = {
           created_at?: string | null
           created_by?: string | null
           id?: string
-          password: string
+          password_hash?: string | null
           qr_code?: string | null
           role: string
           username: string
@@ -460,7 +934,7 @@ export type Database = {
           created_at?: string | null
           created_by?: string | null
           id?: string
-          password?: string
+          password_hash?: string | null
           qr_code?: string | null
           role?: string
           username?: string
@@ -516,6 +990,7 @@ export type Database = {
           production_date: string
           quantity_produced: number
           recipe_id: string | null
+          recipe_version_id: string | null
           staff_id: string | null
           staff_name: string
           total_ingredient_cost: number | null
@@ -529,6 +1004,7 @@ export type Database = {
           production_date: string
           quantity_produced: number
           recipe_id?: string | null
+          recipe_version_id?: string | null
           staff_id?: string | null
           staff_name: string
           total_ingredient_cost?: number | null
@@ -542,6 +1018,7 @@ export type Database = {
           production_date?: string
           quantity_produced?: number
           recipe_id?: string | null
+          recipe_version_id?: string | null
           staff_id?: string | null
           staff_name?: string
           total_ingredient_cost?: number | null
@@ -561,6 +1038,13 @@ export type Database = {
             referencedRelation: "recipes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "production_batches_recipe_version_id_fkey"
+            columns: ["recipe_version_id"]
+            isOneToOne: false
+            referencedRelation: "recipe_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       production_cost_batches: {
@@ -645,10 +1129,13 @@ export type Database = {
           cost_per_unit: number
           created_at: string | null
           id: string
+          ingredient_id: string | null
           ingredient_name: string
           pack_price: number | null
           pack_size: number | null
           quantity_used: number
+          stock_shortfall: number
+          sub_recipe_id: string | null
           unit: string
         }
         Insert: {
@@ -656,10 +1143,13 @@ export type Database = {
           cost_per_unit: number
           created_at?: string | null
           id?: string
+          ingredient_id?: string | null
           ingredient_name: string
           pack_price?: number | null
           pack_size?: number | null
           quantity_used: number
+          stock_shortfall?: number
+          sub_recipe_id?: string | null
           unit: string
         }
         Update: {
@@ -667,10 +1157,13 @@ export type Database = {
           cost_per_unit?: number
           created_at?: string | null
           id?: string
+          ingredient_id?: string | null
           ingredient_name?: string
           pack_price?: number | null
           pack_size?: number | null
           quantity_used?: number
+          stock_shortfall?: number
+          sub_recipe_id?: string | null
           unit?: string
         }
         Relationships: [
@@ -681,6 +1174,20 @@ export type Database = {
             referencedRelation: "production_batches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "production_ingredients_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_ingredients_sub_recipe_id_fkey"
+            columns: ["sub_recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       production_logs: {
@@ -723,6 +1230,7 @@ export type Database = {
           id: string
           ingredient_name: string
           kitchen_stock_id: string
+          production_ingredient_id: string | null
           quantity_used: number
           total_cost: number | null
           unit: string
@@ -734,6 +1242,7 @@ export type Database = {
           id?: string
           ingredient_name: string
           kitchen_stock_id: string
+          production_ingredient_id?: string | null
           quantity_used: number
           total_cost?: number | null
           unit: string
@@ -745,6 +1254,7 @@ export type Database = {
           id?: string
           ingredient_name?: string
           kitchen_stock_id?: string
+          production_ingredient_id?: string | null
           quantity_used?: number
           total_cost?: number | null
           unit?: string
@@ -765,6 +1275,13 @@ export type Database = {
             referencedRelation: "kitchen_stock"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "production_stock_usage_production_ingredient_id_fkey"
+            columns: ["production_ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "production_ingredients"
+            referencedColumns: ["id"]
+          },
         ]
       }
       products: {
@@ -775,7 +1292,9 @@ export type Database = {
           id: string
           name: string
           price: number | null
+          price_includes_tax: boolean
           show_on_pos: boolean | null
+          tax_class: string
         }
         Insert: {
           category?: string | null
@@ -784,7 +1303,9 @@ export type Database = {
           id?: string
           name: string
           price?: number | null
+          price_includes_tax?: boolean
           show_on_pos?: boolean | null
+          tax_class?: string
         }
         Update: {
           category?: string | null
@@ -793,7 +1314,9 @@ export type Database = {
           id?: string
           name?: string
           price?: number | null
+          price_includes_tax?: boolean
           show_on_pos?: boolean | null
+          tax_class?: string
         }
         Relationships: []
       }
@@ -842,6 +1365,51 @@ export type Database = {
         }
         Relationships: []
       }
+      recipe_cost_changes: {
+        Row: {
+          id: string
+          new_cost_per_unit: number | null
+          old_cost_per_unit: number
+          price_change_id: string
+          recipe_id: string
+          recipe_name: string
+          unit: string
+        }
+        Insert: {
+          id?: string
+          new_cost_per_unit?: number | null
+          old_cost_per_unit: number
+          price_change_id: string
+          recipe_id: string
+          recipe_name: string
+          unit: string
+        }
+        Update: {
+          id?: string
+          new_cost_per_unit?: number | null
+          old_cost_per_unit?: number
+          price_change_id?: string
+          recipe_id?: string
+          recipe_name?: string
+          unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_cost_changes_price_change_id_fkey"
+            columns: ["price_change_id"]
+            isOneToOne: false
+            referencedRelation: "ingredient_price_changes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_cost_changes_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recipe_ingredients: {
         Row: {
           barcode: string | null
@@ -849,6 +1417,7 @@ export type Database = {
           cost_per_unit: number
           created_at: string
           id: string
+          ingredient_id: string | null
           ingredient_name: string
           pack_price: number | null
           pack_size: number | null
@@ -856,6 +1425,7 @@ export type Database = {
           quantity: number
           quantity_used: number | null
           recipe_id: string
+          sub_recipe_id: string | null
           unit: string
           used_unit: string | null
         }
@@ -865,6 +1435,7 @@ export type Database = {
           cost_per_unit: number
           created_at?: string
           id?: string
+          ingredient_id?: string | null
           ingredient_name: string
           pack_price?: number | null
           pack_size?: number | null
@@ -872,6 +1443,7 @@ export type Database = {
           quantity: number
           quantity_used?: number | null
           recipe_id: string
+          sub_recipe_id?: string | null
           unit?: string
           used_unit?: string | null
         }
@@ -881,6 +1453,7 @@ export type Database = {
           cost_per_unit?: number
           created_at?: string
           id?: string
+          ingredient_id?: string | null
           ingredient_name?: string
           pack_price?: number | null
           pack_size?: number | null
@@ -888,6 +1461,7 @@ export type Database = {
           quantity?: number
           quantity_used?: number | null
           recipe_id?: string
+          sub_recipe_id?: string | null
           unit?: string
           used_unit?: string | null
         }
@@ -899,6 +1473,83 @@ export type Database = {
             referencedRelation: "recipes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recipe_ingredients_sub_recipe_id_fkey"
+            columns: ["sub_recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_ingredients_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_versions: {
+        Row: {
+          batch_size: number
+          cost_per_unit: number
+          created_at: string
+          created_by: string | null
+          created_by_name: string
+          description: string | null
+          id: string
+          ingredients: Json
+          name: string
+          recipe_id: string
+          total_cost: number
+          unit: string
+          version_number: number
+        }
+        Insert: {
+          batch_size: number
+          cost_per_unit?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string
+          description?: string | null
+          id?: string
+          ingredients?: Json
+          name: string
+          recipe_id: string
+          total_cost?: number
+          unit: string
+          version_number: number
+        }
+        Update: {
+          batch_size?: number
+          cost_per_unit?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string
+          description?: string | null
+          id?: string
+          ingredients?: Json
+          name?: string
+          recipe_id?: string
+          total_cost?: number
+          unit?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "pos_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_versions_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       recipes: {
@@ -928,34 +1579,176 @@ export type Database = {
         }
         Relationships: []
       }
+      sales_return_items: {
+        Row: {
+          created_at: string
+          id: string
+          line_total: number
+          net_amount: number
+          product_id: string | null
+          product_name: string
+          quantity: number
+          return_id: string
+          sales_transaction_item_id: string
+          tax_amount: number
+          tax_class: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          line_total: number
+          net_amount?: number
+          product_id?: string | null
+          product_name: string
+          quantity: number
+          return_id: string
+          sales_transaction_item_id: string
+          tax_amount?: number
+          tax_class?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          line_total?: number
+          net_amount?: number
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          return_id?: string
+          sales_transaction_item_id?: string
+          tax_amount?: number
+          tax_class?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "sales_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_return_items_sales_transaction_item_id_fkey"
+            columns: ["sales_transaction_item_id"]
+            isOneToOne: false
+            referencedRelation: "sales_transaction_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_returns: {
+        Row: {
+          approved_by: string | null
+          approved_by_name: string
+          created_at: string
+          id: string
+          processed_by: string | null
+          reason: string
+          refund_amount: number
+          refund_method: string
+          return_number: string
+          return_type: string
+          sales_transaction_id: string
+          tax_amount: number
+        }
+        Insert: {
+          approved_by?: string | null
+          approved_by_name: string
+          created_at?: string
+          id?: string
+          processed_by?: string | null
+          reason: string
+          refund_amount: number
+          refund_method: string
+          return_number: string
+          return_type: string
+          sales_transaction_id: string
+          tax_amount?: number
+        }
+        Update: {
+          approved_by?: string | null
+          approved_by_name?: string
+          created_at?: string
+          id?: string
+          processed_by?: string | null
+          reason?: string
+          refund_amount?: number
+          refund_method?: string
+          return_number?: string
+          return_type?: string
+          sales_transaction_id?: string
+          tax_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_returns_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "pos_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_returns_processed_by_fkey"
+            columns: ["processed_by"]
+            isOneToOne: false
+            referencedRelation: "pos_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_returns_sales_transaction_id_fkey"
+            columns: ["sales_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "sales_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sales_transaction_items: {
         Row: {
           created_at: string
+          discount_amount: number
           id: string
           line_total: number
+          net_amount: number
           product_id: string | null
           product_name: string
+          promotion_id: string | null
           quantity: number
+          tax_amount: number
+          tax_class: string
+          tax_rate: number
           transaction_id: string
           unit_price: number
         }
         Insert: {
           created_at?: string
+          discount_amount?: number
           id?: string
           line_total: number
+          net_amount?: number
           product_id?: string | null
           product_name: string
+          promotion_id?: string | null
           quantity: number
+          tax_amount?: number
+          tax_class?: string
+          tax_rate?: number
           transaction_id: string
           unit_price: number
         }
         Update: {
           created_at?: string
+          discount_amount?: number
           id?: string
           line_total?: number
+          net_amount?: number
           product_id?: string | null
           product_name?: string
+          promotion_id?: string | null
           quantity?: number
+          tax_amount?: number
+          tax_class?: string
+          tax_rate?: number
           transaction_id?: string
           unit_price?: number
         }
@@ -1020,6 +1813,7 @@ export type Database = {
       staff: {
         Row: {
           active: boolean
+          badge_code: string
           created_at: string | null
           department_id: number | null
           email: string | null
@@ -1029,6 +1823,7 @@ export type Database = {
         }
         Insert: {
           active?: boolean
+          badge_code?: string
           created_at?: string | null
           department_id?: number | null
           email?: string | null
@@ -1038,6 +1833,7 @@ export type Database = {
         }
         Update: {
           active?: boolean
+          badge_code?: string
           created_at?: string | null
           department_id?: number | null
           email?: string | null
@@ -1055,6 +1851,70 @@ export type Database = {
           },
         ]
       }
+      staff_conduct_records: {
+        Row: {
+          assignment_id: string | null
+          category: string
+          created_at: string
+          id: string
+          issued_by: string | null
+          issued_by_name: string
+          reason: string
+          record_type: string
+          severity: string
+          staff_id: number
+          staff_name: string
+        }
+        Insert: {
+          assignment_id?: string | null
+          category: string
+          created_at?: string
+          id?: string
+          issued_by?: string | null
+          issued_by_name?: string
+          reason: string
+          record_type: string
+          severity?: string
+          staff_id: number
+          staff_name: string
+        }
+        Update: {
+          assignment_id?: string | null
+          category?: string
+          created_at?: string
+          id?: string
+          issued_by?: string | null
+          issued_by_name?: string
+          reason?: string
+          record_type?: string
+          severity?: string
+          staff_id?: number
+          staff_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_conduct_records_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_conduct_records_issued_by_fkey"
+            columns: ["issued_by"]
+            isOneToOne: false
+            referencedRelation: "pos_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_conduct_records_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       staff_members: {
         Row: {
           created_at: string
@@ -1079,12 +1939,173 @@ export type Database = {
         }
         Relationships: []
       }
+      z_reports: {
+        Row: {
+          id: string
+          report_date: string
+          signed_off_at: string
+          signed_off_by: string | null
+          signed_off_by_name: string
+          snapshot: Json
+        }
+        Insert: {
+          id?: string
+          report_date: string
+          signed_off_at?: string
+          signed_off_by?: string | null
+          signed_off_by_name?: string
+          snapshot: Json
+        }
+        Update: {
+          id?: string
+          report_date?: string
+          signed_off_at?: string
+          signed_off_by?: string | null
+          signed_off_by_name?: string
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "z_reports_signed_off_by_fkey"
+            columns: ["signed_off_by"]
+            isOneToOne: false
+            referencedRelation: "pos_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      product_stock_on_hand: {
+        Row: {
+          adjusted: number | null
+          expired: number | null
+          on_hand: number | null
+          produced: number | null
+          product_code: string | null
+          product_id: string | null
+          product_name: string | null
+          sold: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      audited_tables: { Args: never; Returns: string[] }
+      complete_assignment: {
+        Args: {
+          p_after_photo_url: string
+          p_assignment_id: string
+          p_hygiene_score: number
+          p_results: Json
+        }
+        Returns: undefined
+      }
+      convert_unit_quantity: {
+        Args: {
+          p_density_g_per_ml?: number
+          p_each_weight_g?: number
+          p_from: string
+          p_quantity: number
+          p_to: string
+        }
+        Returns: number
+      }
+      current_pos_role: { Args: never; Returns: string }
+      current_pos_session: {
+        Args: never
+        Returns: {
+          id: string
+          role: string
+          username: string
+        }[]
+      }
+      current_pos_session_token: { Args: never; Returns: string }
+      current_pos_user_id: { Args: never; Returns: string }
+      end_pos_session: { Args: { p_token: string }; Returns: undefined }
+      generate_scheduled_assignments: { Args: { p_date?: string }; Returns: number }
       generate_transaction_number: { Args: never; Returns: string }
+      has_pos_role: { Args: { p_roles: string[] }; Returns: boolean }
+      list_pos_users: {
+        Args: never
+        Returns: {
+          active: boolean
+          created_at: string
+          created_by: string
+          id: string
+          qr_code: string
+          role: string
+          username: string
+        }[]
+      }
+      mark_overdue_assignments: { Args: never; Returns: number }
+      parse_quantity: { Args: { value: string }; Returns: number }
+      process_sale_return: {
+        Args: {
+          p_approver_password?: string
+          p_approver_username?: string
+          p_items: Json
+          p_reason: string
+          p_refund_method: string
+          p_return_type: string
+          p_sales_transaction_id: string
+        }
+        Returns: {
+          refund_amount: number
+          return_id: string
+          return_number: string
+        }[]
+      }
+      recipe_cost_per_unit: { Args: { p_recipe_id: string }; Returns: number }
+      record_recipe_version: { Args: { p_recipe_id: string }; Returns: string }
+      reject_assignment_completion: {
+        Args: { p_assignment_id: string; p_comment: string }
+        Returns: undefined
+      }
+      reprice_recipe_uses: { Args: { p_recipe_id: string }; Returns: undefined }
+      restore_production_stock_usage: {
+        Args: { p_production_ingredient_id: string }
+        Returns: undefined
+      }
+      set_pos_user_password: {
+        Args: { p_password: string; p_user_id: string }
+        Returns: undefined
+      }
+      snapshot_recipe_version: { Args: { p_recipe_id: string }; Returns: string }
+      start_pos_badge_session: {
+        Args: { p_qr_code: string }
+        Returns: {
+          id: string
+          role: string
+          session_token: string
+          username: string
+        }[]
+      }
+      start_pos_session: {
+        Args: { p_password: string; p_username: string }
+        Returns: {
+          id: string
+          role: string
+          session_token: string
+          username: string
+        }[]
+      }
+      verify_pos_user_badge: {
+        Args: { p_qr_code: string }
+        Returns: {
+          id: string
+          role: string
+          username: string
+        }[]
+      }
+      verify_pos_user_password: {
+        Args: { p_password: string; p_username: string }
+        Returns: {
+          id: string
+          role: string
+          username: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,25 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const AREA_PHOTOS_BUCKET = 'area_photos';
+
+// Upload to the public area_photos bucket, filed under the area, and return the public URL
+export const uploadAreaPhoto = async (area: string, file: File, folder?: string): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+  const filePath = [area, folder, fileName].filter(Boolean).join('/');
+
+  const { error } = await supabase
+    .storage
+    .from(AREA_PHOTOS_BUCKET)
+    .upload(filePath, file, { upsert: false });
+
+  if (error) throw error;
+
+  const { data } = supabase
+    .storage
+    .from(AREA_PHOTOS_BUCKET)
+    .getPublicUrl(filePath);
+
+  if (!data?.publicUrl) throw new Error('Photo uploaded but no public URL was returned');
+  return data.publicUrl;
+};
@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import { uploadAreaPhoto } from '@/lib/areaPhotos';
+import { AreaCheckItem, calculateHygieneScore, CheckScores } from '@/utils/checklists';
+
+// Upload the after photo, then mark the assignment done along with its inspection results.
+// The database writes both together, so a retry replaces a failed attempt's results.
+export const completeAssignmentWithEvidence = async (
+  assignment: { id: string; area: string },
+  afterPhoto: File,
+  checklist: AreaCheckItem[],
+  scores: CheckScores
+) => {
+  const afterPhotoUrl = await uploadAreaPhoto(assignment.area, afterPhoto, 'after');
+
+  const { error } = await supabase.rpc('complete_assignment', {
+    p_assignment_id: assignment.id,
+    p_after_photo_url: afterPhotoUrl,
+    p_hygiene_score: calculateHygieneScore(checklist, scores),
+    p_results: checklist.map(item => ({
+      checklist_item_id: item.id,
+      label: item.label,
+      score: Math.min(scores[item.id] || 0, item.max_score),
+      max_score: item.max_score
+    }))
+  });
+
+  if (error) throw error;
+};
+
+// Send a completed assignment back to be redone. Its inspection results are cleared with it,
+// since the inspection is redone along with the work.
+export const rejectAssignmentCompletion = async (assignmentId: string, comment: string) => {
+  const { error } = await supabase.rpc('reject_assignment_completion', {
+    p_assignment_id: assignmentId,
+    p_comment: comment
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,92 @@
+import { createContext } from 'react';
+
+export type PosRole = 'cashier' | 'kitchen-staff' | 'manager' | 'admin';
+
+export interface PosSession {
+  id: string;
+  username: string;
+  role: PosRole;
+  signed_in_at: string;
+  // Sent with every request so row level security knows who is asking
+  session_token: string;
+}
+
+export interface AuthContextValue {
+  user: PosSession | null;
+  signIn: (user: PosSession) => void;
+  signOut: () => void;
+}
+
+export const POS_ROLES: { value: PosRole; label: string }[] = [
+  { value: 'cashier', label: 'Cashier' },
+  { value: 'kitchen-staff', label: 'Kitchen Staff' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'admin', label: 'Admin' },
+];
+
+export const SESSION_STORAGE_KEY = 'pos_session';
+
+const ALL_ROLES: PosRole[] = ['cashier', 'kitchen-staff', 'manager', 'admin'];
+const MANAGEMENT: PosRole[] = ['manager', 'admin'];
+const KITCHEN: PosRole[] = ['kitchen-staff', 'manager', 'admin'];
+const TILL: PosRole[] = ['cashier', 'manager', 'admin'];
+
+// Which roles may open each route. Anything not listed is management only.
+const ROUTE_ACCESS: Record<string, PosRole[]> = {
+  '/': KITCHEN,
+  '/assignments': KITCHEN,
+  '/overdue': MANAGEMENT,
+  '/my-tasks': KITCHEN,
+  '/ratings': MANAGEMENT,
+  '/rate-staff': MANAGEMENT,
+  '/analytics': MANAGEMENT,
+  '/departments': MANAGEMENT,
+  '/staff': MANAGEMENT,
+  '/manual': ALL_ROLES,
+
+  '/products': MANAGEMENT,
+  '/production': KITCHEN,
+  '/production-cost': MANAGEMENT,
+  '/product-performance': MANAGEMENT,
+  '/price-impact': MANAGEMENT,
+  '/stock': KITCHEN,
+  '/stock-information': ALL_ROLES,
+  '/promotions': MANAGEMENT,
+  '/expired': KITCHEN,
+  '/expired-dispatch': KITCHEN,
+  '/expired-dispatch-report': MANAGEMENT,
+  '/user-management': ['admin'],
+  '/audit': MANAGEMENT,
+  '/recipes': MANAGEMENT,
+  '/ingredients': MANAGEMENT,
+
+  '/pos': TILL,
+  '/sales-reports': MANAGEMENT,
+  '/cash-register': TILL,
+  '/returns': TILL,
+  '/z-report': MANAGEMENT,
+};
+
+export const canAccess = (role: PosRole | undefined, path: string): boolean => {
+  if (!role) return false;
+  const allowed = ROUTE_ACCESS[path] || MANAGEMENT;
+  return allowed.includes(role);
+};
+
+// Managers and admins can authorise voids, refunds and other overrides
+export const canApproveOverrides = (role: PosRole | undefined): boolean =>
+  !!role && MANAGEMENT.includes(role);
+
+// Where each role lands after signing in
+export const getHomeRoute = (role: PosRole): string => {
+  switch (role) {
+    case 'cashier':
+      return '/pos';
+    case 'kitchen-staff':
+      return '/production';
+    default:
+      return '/';
+  }
+};
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
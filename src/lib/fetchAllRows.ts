@@ -0,0 +1,18 @@
+import { PostgrestError } from '@supabase/supabase-js';
+
+// The API returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Read every row a query matches, one page at a time. The query must be ordered on a unique
+// column, otherwise rows can move between pages while they are being read.
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,62 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { getAll, put, remove, PENDING_SALES_STORE } from '@/lib/offlineStore';
+
+type WithId<T> = T & { id: string };
+
+// Everything needed to write one sale, with IDs generated on the till
+export interface SalePayload {
+  id: string;
+  transaction: WithId<TablesInsert<'sales_transactions'>>;
+  items: WithId<TablesInsert<'sales_transaction_items'>>[];
+  payments: WithId<TablesInsert<'payment_transactions'>>[];
+}
+
+export interface QueuedSale extends SalePayload {
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+// Rows are keyed on the client-generated IDs, so replaying a half-written sale never duplicates it
+export const submitSale = async (sale: SalePayload) => {
+  const { error: txnError } = await supabase
+    .from('sales_transactions')
+    .upsert(sale.transaction, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (txnError) throw txnError;
+
+  const { error: itemsError } = await supabase
+    .from('sales_transaction_items')
+    .upsert(sale.items, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (itemsError) throw itemsError;
+
+  const { error: paymentError } = await supabase
+    .from('payment_transactions')
+    .upsert(sale.payments, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (paymentError) throw paymentError;
+};
+
+// Fetch failures mean the till is offline; anything else is a real error from the database
+export const isNetworkError = (error: unknown): boolean => {
+  if (!navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message || '';
+  return /Failed to fetch|NetworkError|Load failed/i.test(message);
+};
+
+export const queueSale = (sale: SalePayload) =>
+  put<QueuedSale>(PENDING_SALES_STORE, { ...sale, queued_at: new Date().toISOString(), attempts: 0 });
+
+export const getQueuedSales = async (): Promise<QueuedSale[]> =>
+  (await getAll<QueuedSale>(PENDING_SALES_STORE)).sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+
+export const removeQueuedSale = (saleId: string) => remove(PENDING_SALES_STORE, saleId);
+
+export const recordFailedAttempt = (sale: QueuedSale, error: unknown) =>
+  put<QueuedSale>(PENDING_SALES_STORE, {
+    ...sale,
+    attempts: sale.attempts + 1,
+    last_error: (error as { message?: string } | null)?.message || String(error),
+  });
@@ -0,0 +1,66 @@
+// Minimal IndexedDB wrapper for keeping the POS usable while the shop is offline
+
+const DB_NAME = 'pos_offline';
+const DB_VERSION = 1;
+
+export const PRODUCTS_STORE = 'products';
+export const PENDING_SALES_STORE = 'pending_sales';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PRODUCTS_STORE)) {
+          db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PENDING_SALES_STORE)) {
+          db.createObjectStore(PENDING_SALES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getAll = async <T>(storeName: string): Promise<T[]> =>
+  (await runTransaction<T[]>(storeName, 'readonly', store => store.getAll())) || [];
+
+export const put = async <T>(storeName: string, value: T): Promise<void> => {
+  await runTransaction(storeName, 'readwrite', store => store.put(value));
+};
+
+export const remove = async (storeName: string, key: string): Promise<void> => {
+  await runTransaction(storeName, 'readwrite', store => store.delete(key));
+};
+
+// Swap the whole store for a fresh copy, e.g. the latest product catalogue
+export const replaceAll = async <T>(storeName: string, values: T[]): Promise<void> => {
+  await runTransaction(storeName, 'readwrite', store => {
+    store.clear();
+    values.forEach(value => store.put(value));
+  });
+};
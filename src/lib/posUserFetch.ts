@@ -0,0 +1,44 @@
+import { PosSession, SESSION_STORAGE_KEY } from '@/lib/auth';
+
+// Row level security reads the signed-in user's session from this header,
+// since sign-in happens against pos_users rather than Supabase auth.
+export const POS_SESSION_HEADER = 'x-pos-session';
+
+// Raised on window when the database refuses a request for lack of permission
+export const PERMISSION_DENIED_EVENT = 'pos-permission-denied';
+
+const PERMISSION_DENIED_CODE = '42501';
+
+const getSessionToken = (): string | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PosSession).session_token : null;
+  } catch {
+    return null;
+  }
+};
+
+const reportPermissionDenied = async (response: Response) => {
+  try {
+    const body = await response.clone().json();
+    if (body?.code === PERMISSION_DENIED_CODE) {
+      window.dispatchEvent(new CustomEvent(PERMISSION_DENIED_EVENT, { detail: body.message }));
+    }
+  } catch {
+    // Not a PostgREST error body
+  }
+};
+
+// fetch wrapper for the Supabase clients that tags every request with the session token
+// and flags permission-denied responses so they can be explained to the user
+export const posUserFetch: typeof fetch = async (input, init) => {
+  const token = getSessionToken();
+  const headers = new Headers(init?.headers);
+  if (token) headers.set(POS_SESSION_HEADER, token);
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 || response.status === 403) {
+    void reportPermissionDenied(response);
+  }
+  return response;
+};
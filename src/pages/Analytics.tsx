@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import Navigation from "@/components/Navigation";
-import { BarChart, XAxis, YAxis, Bar, Tooltip, Legend, PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
+import { BarChart, XAxis, YAxis, Bar, Tooltip, Legend, PieChart, Pie, Cell, ResponsiveContainer, LineChart, Line } from 'recharts';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { toast } from '@/hooks/use-toast';
@@ -22,6 +22,8 @@ import { Search } from 'lucide-react';
 import { Textarea } from "@/components/ui/textarea";
 import { Slider } from "@/components/ui/slider";
 import { Plus } from 'lucide-react';
+import { ConductRecord, countConductByStaff } from '@/utils/conduct';
+import { getHygieneScoreColor } from '@/utils/checklists';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8'];
 
@@ -49,6 +51,8 @@ interface Assignment {
   instructions?: string;
   photo_url?: string | null;
   created_at?: string | null;
+  completed_at?: string | null;
+  hygiene_score?: number | null;
 }
 
 interface StaffMember {
@@ -61,6 +65,7 @@ interface StaffPerformance {
   averageRating: number;
   totalRatings: number;
   selfInitiativeCount: number;
+  demeritCount: number;
   area?: string;
   punctuality?: number;
 }
@@ -70,6 +75,12 @@ interface AreaCompletionData {
   count: number;
 }
 
+interface AreaHygieneData {
+  area: string;
+  averageScore: number;
+  inspections: number;
+}
+
 const queryClient = new QueryClient();
 
 const Analytics = () => {
@@ -119,6 +130,19 @@ const Analytics = () => {
     }
   });
 
+  // Fetch merit and demerit records
+  const { data: conductRecords = [], refetch: refetchConductRecords } = useQuery({
+    queryKey: ['conduct-records-analytics'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('staff_conduct_records')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as ConductRecord[];
+    }
+  });
+
   // Fetch staff members
   const { data: staffMembers = [], isLoading: staffLoading } = useQuery({
     queryKey: ['staff-members'],
@@ -203,14 +227,14 @@ const Analytics = () => {
       }
 
       const { error } = await supabase
-        .from('assignments')
+        .from('staff_conduct_records')
         .insert({
-          assignee_id: staffMember.id,
-          assignee_name: staffName,
-          area: 'Special Recognition',
-          status: 'completed',
-          instructions: `[SELF INITIATIVE MERIT AWARD] ${staffName} demonstrated exceptional initiative on ${format(new Date(), 'PP')}`,
-          created_at: new Date().toISOString()
+          staff_id: staffMember.id,
+          staff_name: staffName,
+          record_type: 'merit',
+          category: 'self_initiative',
+          severity: 'minor',
+          reason: `${staffName} demonstrated exceptional initiative on ${format(new Date(), 'PP')}`
         });
 
       if (error) throw error;
@@ -221,7 +245,7 @@ const Analytics = () => {
         description: "Self-initiative award has been recorded!",
         variant: "default"
       });
-      queryClient.invalidateQueries({ queryKey: ['assignments-analytics'] });
+      refetchConductRecords();
     },
     onError: (error: Error) => {
       toast({
@@ -354,7 +378,7 @@ const Analytics = () => {
   const uniqueAreas = [...new Set(assignments.map(a => a.area))].sort();
 
   // Filter self-initiative awards by time period
-  const getSelfInitiativeAssignmentsByPeriod = () => {
+  const getSelfInitiativeRecordsByPeriod = () => {
     let startDate: Date;
     let endDate: Date = new Date();
     
@@ -384,21 +408,28 @@ const Analytics = () => {
       }
     }
     
-    return assignments.filter(assignment => {
-      if (!assignment.instructions?.includes('[SELF INITIATIVE MERIT AWARD]')) return false;
-      if (!assignment.created_at) return false;
+    return conductRecords.filter(record => {
+      if (record.record_type !== 'merit' || record.category !== 'self_initiative') return false;
       
-      const assignmentDate = parseISO(assignment.created_at);
-      return isAfter(assignmentDate, startDate) && isBefore(assignmentDate, endDate);
+      const recordDate = parseISO(record.created_at);
+      return isAfter(recordDate, startDate) && isBefore(recordDate, endDate);
     });
   };
 
   // Count self-initiative awards by staff member for selected time period
-  const selfInitiativeCounts = getSelfInitiativeAssignmentsByPeriod().reduce((acc: Record<string, number>, assignment) => {
-    acc[assignment.assignee_name] = (acc[assignment.assignee_name] || 0) + 1;
+  const selfInitiativeCounts = getSelfInitiativeRecordsByPeriod().reduce((acc: Record<string, number>, record) => {
+    acc[record.staff_name] = (acc[record.staff_name] || 0) + 1;
     return acc;
   }, {});
 
+  // Merits and demerits issued within the selected date range
+  const conductCounts = countConductByStaff(conductRecords.filter(record => {
+    const recordDate = parseISO(record.created_at);
+    if (dateRange?.from && isBefore(recordDate, startOfDay(dateRange.from))) return false;
+    if (dateRange?.to && isAfter(recordDate, endOfDay(dateRange.to))) return false;
+    return true;
+  }));
+
   // Process staff ratings (sorted best to worst) and include self-initiative counts
   const staffPerformance: StaffPerformance[] = Object.entries(
     filteredRatings.reduce((acc: Record<string, { 
@@ -435,6 +466,7 @@ const Analytics = () => {
       punctuality: Number((data.punctuality / data.count).toFixed(1)),
       totalRatings: data.count,
       selfInitiativeCount: selfInitiativeCounts[data.name] || 0,
+      demeritCount: conductCounts[data.name]?.demerits || 0,
       area: mostCommonArea
     };
   })
@@ -459,6 +491,38 @@ const Analytics = () => {
   }))
   .sort((a, b) => b.count - a.count);
 
+  // Hygiene scores from completed inspections, lowest scoring areas first
+  const inspectedAssignments = filteredAssignments.filter(a => a.hygiene_score != null);
+  const areaHygiene: AreaHygieneData[] = Object.entries(
+    inspectedAssignments.reduce((acc: Record<string, number[]>, assignment) => {
+      acc[assignment.area] = [...(acc[assignment.area] || []), Number(assignment.hygiene_score)];
+      return acc;
+    }, {})
+  ).map(([area, scores]) => ({
+    area,
+    averageScore: Number((scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(1)),
+    inspections: scores.length
+  }))
+  .sort((a, b) => a.averageScore - b.averageScore);
+
+  // Weekly average hygiene score per area, for the trend chart
+  const hygieneTrend = Object.entries(
+    inspectedAssignments.reduce((acc: Record<string, Record<string, number[]>>, assignment) => {
+      const week = format(startOfWeek(parseISO(assignment.completed_at || assignment.created_at)), 'yyyy-MM-dd');
+      acc[week] = acc[week] || {};
+      acc[week][assignment.area] = [...(acc[week][assignment.area] || []), Number(assignment.hygiene_score)];
+      return acc;
+    }, {})
+  )
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([week, areaScores]) => ({
+    week: format(parseISO(week), 'MMM dd'),
+    ...Object.fromEntries(Object.entries(areaScores).map(([area, scores]) => [
+      area,
+      Number((scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(1))
+    ]))
+  }));
+
   // Get top 3 performing areas
   const topAreas = areaCompletion.slice(0, 3);
   // Get bottom 3 performing areas (neglected)
@@ -566,6 +630,7 @@ const Analytics = () => {
                   <th>Punctuality</th>
                   <th>Total Ratings</th>
                   <th>Self Initiative Awards</th>
+                  <th>Demerits</th>
                   <th>Primary Area</th>
                 </tr>
               </thead>
@@ -578,6 +643,7 @@ const Analytics = () => {
                     <td>${staff.punctuality}</td>
                     <td>${staff.totalRatings}</td>
                     <td>${staff.selfInitiativeCount}</td>
+                    <td>${staff.demeritCount}</td>
                     <td>${staff.area || 'N/A'}</td>
                   </tr>
                 `).join('')}
@@ -965,6 +1031,12 @@ const Analytics = () => {
                               <Lightbulb className="h-4 w-4 text-amber-500" />
                               Self Initiative
                             </th>
+                            <th className="text-left p-3">
+                              <div className="flex items-center gap-1">
+                                <AlertTriangle className="h-4 w-4 text-red-500" />
+                                Demerits
+                              </div>
+                            </th>
                             <th className="text-left p-3">Actions</th>
                           </tr>
                         </thead>
@@ -989,6 +1061,11 @@ const Analytics = () => {
                                     {staff.selfInitiativeCount}
                                   </span>
                                 </td>
+                                <td className="p-3">
+                                  <span className={`font-semibold ${staff.demeritCount > 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                                    {staff.demeritCount}
+                                  </span>
+                                </td>
                                 <td className="p-3">
                                   <div className="flex gap-2">
                                     <Button
@@ -1013,7 +1090,7 @@ const Analytics = () => {
                             ))
                           ) : (
                             <tr>
-                              <td colSpan={7} className="text-center py-4 text-gray-500">
+                              <td colSpan={8} className="text-center py-4 text-gray-500">
                                 No staff performance data found with current filters
                               </td>
                             </tr>
@@ -1049,6 +1126,58 @@ const Analytics = () => {
                   </CardContent>
                 </Card>
 
+                {/* Area Hygiene Scores */}
+                <Card>
+                  <CardHeader className="bg-green-50">
+                    <CardTitle className="flex items-center gap-2">
+                      <Star className="text-green-600" />
+                      Area Hygiene Scores
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {areaHygiene.length > 0 ? (
+                      <>
+                        <div className="h-[300px] w-full">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={hygieneTrend}>
+                              <XAxis dataKey="week" />
+                              <YAxis domain={[0, 100]} />
+                              <Tooltip />
+                              <Legend />
+                              {areaHygiene.map((area, index) => (
+                                <Line
+                                  key={area.area}
+                                  type="monotone"
+                                  dataKey={area.area}
+                                  stroke={COLORS[index % COLORS.length]}
+                                  connectNulls
+                                />
+                              ))}
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </div>
+                        <div className="space-y-2 mt-4">
+                          {areaHygiene.map(area => (
+                            <div key={area.area} className="flex justify-between items-center p-2 bg-gray-50 rounded">
+                              <span className="font-medium">{area.area}</span>
+                              <span className="text-sm text-gray-600">
+                                <span className={`font-semibold ${getHygieneScoreColor(area.averageScore)}`}>
+                                  {area.averageScore}%
+                                </span>
+                                {' '}over {area.inspections} inspection{area.inspections !== 1 ? 's' : ''}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="text-center py-10 text-gray-500">
+                        No inspections recorded with current filters
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Neglected Areas */}
                 <Card>
                   <CardHeader className="bg-red-50">
@@ -15,7 +15,7 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Check, Clock, CirclePlay, X, AlertTriangle, Calendar, Printer, FileText, ImageIcon, Lightbulb, AlertCircle, Search } from 'lucide-react';
+import { Check, Clock, CirclePlay, X, AlertTriangle, Calendar, Printer, FileText, ImageIcon, Lightbulb, AlertCircle, Search, Upload, Undo2 } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
@@ -26,16 +26,30 @@ import { format, isWithinInterval, startOfDay, endOfDay } from "date-fns";
 import { AspectRatio } from "@/components/ui/aspect-ratio";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { canApproveOverrides } from "@/lib/auth";
+import { completeAssignmentWithEvidence, rejectAssignmentCompletion } from "@/lib/assignmentCompletion";
+import { useAreaChecklists } from "@/hooks/useAreaChecklists";
+import InspectionChecklistForm from "@/components/InspectionChecklistForm";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { CheckScores, getHygieneScoreColor, isChecklistComplete } from "@/utils/checklists";
 
 type Assignment = {
   id: string;
   area: string;
   assignee_name: string;
   assignee_id: number;
-  status: 'pending' | 'needs-check' | 'in-progress' | 'done' | 'incomplete';
+  status: 'pending' | 'needs-check' | 'in-progress' | 'done' | 'incomplete' | 'overdue';
   created_at: string;
+  due_at?: string | null;
   instructions?: string;
   photo_url?: string;
+  after_photo_url?: string | null;
+  completed_at?: string | null;
+  rejection_comment?: string | null;
+  rejected_by_name?: string | null;
+  hygiene_score?: number | null;
 }
 
 const statusIcons = {
@@ -43,7 +57,8 @@ const statusIcons = {
   'needs-check': <CirclePlay className="h-5 w-5 text-yellow-500" />,
   'in-progress': <Clock className="h-5 w-5 text-blue-500" />,
   'done': <Check className="h-5 w-5 text-green-500" />,
-  'incomplete': <X className="h-5 w-5 text-red-500" />
+  'incomplete': <X className="h-5 w-5 text-red-500" />,
+  'overdue': <AlertCircle className="h-5 w-5 text-red-600" />
 };
 
 const StaffDropdown = ({
@@ -181,7 +196,7 @@ const StaffDropdown = ({
 };
 
 const Assignments = () => {
-  const [filter, setFilter] = useState<'all' | 'pending' | 'needs-check' | 'in-progress' | 'done' | 'incomplete'>('all');
+  const [filter, setFilter] = useState<'all' | 'pending' | 'needs-check' | 'in-progress' | 'done' | 'incomplete' | 'overdue'>('all');
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
   const [expandedAssignment, setExpandedAssignment] = useState<string | null>(null);
   const [completionMode, setCompletionMode] = useState<{ [key: string]: boolean }>({});
@@ -189,14 +204,25 @@ const Assignments = () => {
   const [completionDemerit, setCompletionDemerit] = useState<{ [key: string]: boolean }>({});
   const [incompleteMode, setIncompleteMode] = useState<{ [key: string]: boolean }>({});
   const [demeritAssignment, setDemeritAssignment] = useState<{ [key: string]: boolean }>({});
+  const [afterPhotos, setAfterPhotos] = useState<{ [key: string]: File | null }>({});
+  const [rejectMode, setRejectMode] = useState<{ [key: string]: boolean }>({});
+  const [rejectionComments, setRejectionComments] = useState<{ [key: string]: string }>({});
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [checkScores, setCheckScores] = useState<{ [key: string]: CheckScores }>({});
   const printRef = useRef<HTMLDivElement>(null);
   const location = useLocation();
   const assignmentRefs = useRef<{ [key: string]: HTMLTableRowElement | null }>({});
   const [highlightedId, setHighlightedId] = useState<string | null>(null);
   const [assigneeFilter, setAssigneeFilter] = useState<string>('');
+  const { user } = useAuth();
+  // Merits and demerits are management's call
+  const canManage = canApproveOverrides(user?.role);
 
   const fetchAssignments = async () => {
     try {
+      const { error: overdueError } = await supabase.rpc('mark_overdue_assignments');
+      if (overdueError) console.error('Failed to mark overdue assignments:', overdueError);
+
       const { data, error } = await supabase
         .from('assignments')
         .select('*')
@@ -216,6 +242,27 @@ const Assignments = () => {
     retry: 1
   });
 
+  const { getAreaChecklist } = useAreaChecklists();
+
+  const { data: expandedResults = [] } = useQuery({
+    queryKey: ['assignment_check_results', expandedAssignment],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('assignment_check_results')
+        .select('*')
+        .eq('assignment_id', expandedAssignment!)
+        .order('created_at');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!expandedAssignment
+  });
+
+  const setCheckScore = (assignmentId: string, itemId: string, score: number) => {
+    setCheckScores(prev => ({ ...prev, [assignmentId]: { ...prev[assignmentId], [itemId]: score } }));
+  };
+
   useEffect(() => {
     const params = new URLSearchParams(location.search);
     const scrollId = params.get('id');
@@ -257,73 +304,110 @@ const Assignments = () => {
     }
   }, [error, refetch]);
 
-  const updateAssignmentStatus = async (id: string, status: Assignment['status']) => {
-    try {
-      const assignment = assignments.find(a => a.id === id);
-      if (!assignment) return;
+  // Once a status change is saved: record any merit or demerit, reset the card and say what happened
+  const finishStatusChange = async (
+    assignment: Assignment,
+    status: Assignment['status'],
+    changes: TablesUpdate<'assignments'> = {}
+  ) => {
+    const id = assignment.id;
 
-      let updatedInstructions = assignment.instructions || '';
-      
-      if (status === 'done' && selfInitiativeReward[id]) {
-        if (!updatedInstructions.includes('[SELF INITIATIVE MERIT AWARD]')) {
-          updatedInstructions = updatedInstructions 
-            ? `${updatedInstructions}\n\n[SELF INITIATIVE MERIT AWARD] - Recognized for exceptional initiative during task completion.`
-            : '[SELF INITIATIVE MERIT AWARD] - Recognized for exceptional initiative during task completion.';
-        }
-      }
+    // Merits and demerits are kept as their own records, linked back to this assignment
+    const conductRecord = (
+      record: Pick<TablesInsert<'staff_conduct_records'>, 'record_type' | 'category' | 'severity' | 'reason'>
+    ): TablesInsert<'staff_conduct_records'> => ({
+      ...record,
+      staff_id: assignment.assignee_id,
+      staff_name: assignment.assignee_name,
+      assignment_id: assignment.id,
+    });
 
-      if (status === 'done' && completionDemerit[id]) {
-        if (!updatedInstructions.includes('[DEMERIT ASSIGNED - POOR STANDARD]')) {
-          updatedInstructions = updatedInstructions 
-            ? `${updatedInstructions}\n\n[DEMERIT ASSIGNED - POOR STANDARD] - Task completed but not to required standard.`
-            : '[DEMERIT ASSIGNED - POOR STANDARD] - Task completed but not to required standard.';
-        }
-      }
+    const conductRecords: TablesInsert<'staff_conduct_records'>[] = [];
+    if (status === 'done' && selfInitiativeReward[id]) {
+      conductRecords.push(conductRecord({
+        record_type: 'merit',
+        category: 'self_initiative',
+        severity: 'minor',
+        reason: 'Recognized for exceptional initiative during task completion.',
+      }));
+    }
+    if (status === 'done' && completionDemerit[id]) {
+      conductRecords.push(conductRecord({
+        record_type: 'demerit',
+        category: 'poor_standard',
+        severity: 'minor',
+        reason: 'Task completed but not to required standard.',
+      }));
+    }
+    if (status === 'incomplete' && demeritAssignment[id]) {
+      conductRecords.push(conductRecord({
+        record_type: 'demerit',
+        category: 'not_completed',
+        severity: 'moderate',
+        reason: 'Task not completed according to instructions.',
+      }));
+    }
 
-      if (status === 'incomplete' && demeritAssignment[id]) {
-        if (!updatedInstructions.includes('[DEMERIT ASSIGNED]')) {
-          updatedInstructions = updatedInstructions 
-            ? `${updatedInstructions}\n\n[DEMERIT ASSIGNED] - Task not completed according to instructions.`
-            : '[DEMERIT ASSIGNED] - Task not completed according to instructions.';
-        }
-      }
+    if (conductRecords.length > 0) {
+      const { error: conductError } = await supabase
+        .from('staff_conduct_records')
+        .insert(conductRecords);
+
+      if (conductError) throw conductError;
+    }
+    
+    await refetch();
+    
+    setCompletionMode(prev => ({ ...prev, [id]: false }));
+    setSelfInitiativeReward(prev => ({ ...prev, [id]: false }));
+    setCompletionDemerit(prev => ({ ...prev, [id]: false }));
+    setIncompleteMode(prev => ({ ...prev, [id]: false }));
+    setDemeritAssignment(prev => ({ ...prev, [id]: false }));
+    setAfterPhotos(prev => ({ ...prev, [id]: null }));
+    setRejectMode(prev => ({ ...prev, [id]: false }));
+    setRejectionComments(prev => ({ ...prev, [id]: '' }));
+    setCheckScores(prev => ({ ...prev, [id]: {} }));
+    
+    let toastTitle = "Status Updated";
+    let toastDescription = `Assignment marked as ${status.replace('-', ' ')}`;
+    
+    if (status === 'done' && selfInitiativeReward[id]) {
+      toastTitle = "Task Completed with Merit Award!";
+      toastDescription = `${assignment.assignee_name} has been awarded a Self Initiative Merit for exceptional performance!`;
+    } else if (status === 'done' && completionDemerit[id]) {
+      toastTitle = "Task Completed with Demerit";
+      toastDescription = `${assignment.assignee_name} has been assigned a demerit for poor standard work.`;
+    } else if (status === 'incomplete' && demeritAssignment[id]) {
+      toastTitle = "Task Marked Incomplete with Demerit";
+      toastDescription = `${assignment.assignee_name} has been assigned a demerit for not following instructions.`;
+    } else if (status === 'in-progress' && changes.rejection_comment) {
+      toastTitle = "Completion Rejected";
+      toastDescription = `${assignment.area} has been sent back to ${assignment.assignee_name}.`;
+    }
+    
+    toast({
+      title: toastTitle,
+      description: toastDescription,
+    });
+  };
+
+  const updateAssignmentStatus = async (
+    id: string,
+    status: Assignment['status'],
+    changes: TablesUpdate<'assignments'> = {}
+  ) => {
+    try {
+      const assignment = assignments.find(a => a.id === id);
+      if (!assignment) return;
 
       const { error } = await supabase
         .from('assignments')
-        .update({ 
-          status,
-          instructions: updatedInstructions
-        })
+        .update({ ...changes, status })
         .eq('id', id);
       
       if (error) throw error;
-      
-      await refetch();
-      
-      setCompletionMode(prev => ({ ...prev, [id]: false }));
-      setSelfInitiativeReward(prev => ({ ...prev, [id]: false }));
-      setCompletionDemerit(prev => ({ ...prev, [id]: false }));
-      setIncompleteMode(prev => ({ ...prev, [id]: false }));
-      setDemeritAssignment(prev => ({ ...prev, [id]: false }));
-      
-      let toastTitle = "Status Updated";
-      let toastDescription = `Assignment marked as ${status.replace('-', ' ')}`;
-      
-      if (status === 'done' && selfInitiativeReward[id]) {
-        toastTitle = "Task Completed with Merit Award!";
-        toastDescription = `${assignment.assignee_name} has been awarded a Self Initiative Merit for exceptional performance!`;
-      } else if (status === 'done' && completionDemerit[id]) {
-        toastTitle = "Task Completed with Demerit";
-        toastDescription = `${assignment.assignee_name} has been assigned a demerit for poor standard work.`;
-      } else if (status === 'incomplete' && demeritAssignment[id]) {
-        toastTitle = "Task Marked Incomplete with Demerit";
-        toastDescription = `${assignment.assignee_name} has been assigned a demerit for not following instructions.`;
-      }
-      
-      toast({
-        title: toastTitle,
-        description: toastDescription,
-      });
+
+      await finishStatusChange(assignment, status, changes);
     } catch (err) {
       console.error('Error updating status:', err);
       toast({
@@ -334,6 +418,76 @@ const Assignments = () => {
     }
   };
 
+  // Staff must attach an after photo and work through the area's checklist before a task can be marked done
+  const completeAssignment = async (id: string) => {
+    const assignment = assignments.find(a => a.id === id);
+    const afterPhoto = afterPhotos[id];
+    if (!assignment) return;
+
+    const checklist = getAreaChecklist(assignment.area);
+    const scores = checkScores[id] || {};
+    if (!isChecklistComplete(checklist, scores)) {
+      toast({
+        title: "Checklist Incomplete",
+        description: "Score every item on the inspection checklist.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!afterPhoto) {
+      toast({
+        title: "Photo Required",
+        description: "Take an after photo before marking this task complete.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUploadingId(id);
+    try {
+      await completeAssignmentWithEvidence(assignment, afterPhoto, checklist, scores);
+      await finishStatusChange(assignment, 'done');
+    } catch (err) {
+      console.error('Error completing assignment:', err);
+      toast({
+        title: "Completion Failed",
+        description: err.message || "Couldn't save the completion. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  // Supervisors can send a completed task back, clearing the after photo so it has to be redone
+  const rejectCompletion = async (id: string) => {
+    const comment = rejectionComments[id]?.trim();
+    if (!comment) {
+      toast({
+        title: "Comment Required",
+        description: "Explain what needs redoing before rejecting.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const assignment = assignments.find(a => a.id === id);
+    if (!assignment) return;
+
+    try {
+      await rejectAssignmentCompletion(id, comment);
+      await finishStatusChange(assignment, 'in-progress', { rejection_comment: comment });
+    } catch (err) {
+      console.error('Error rejecting completion:', err);
+      toast({
+        title: "Update Failed",
+        description: "Couldn't reject the completion. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
   const clearAssignment = async (id: string) => {
     try {
       const { data, error: fetchError } = await supabase
@@ -459,6 +613,10 @@ const Assignments = () => {
             .instructions { padding: 8px; background-color: #f9f9f9; border-top: 1px dotted #ddd; }
             .photo-container { max-width: 300px; margin-top: 8px; }
             .photo-container img { width: 100%; height: auto; border: 1px solid #ddd; }
+            .photo-pair { display: flex; gap: 8px; margin-top: 8px; }
+            .photo-pair .photo-container { flex: 1; margin-top: 0; }
+            .photo-label { font-size: 12px; color: #666; }
+            .rejection { padding: 8px; margin-top: 8px; background-color: #fef2f2; color: #991b1b; }
             @media print {
               .no-print { display: none; }
             }
@@ -501,9 +659,31 @@ const Assignments = () => {
                       </div>` : 
                       'No instructions provided'}
 
-                    ${assignment.photo_url ? 
-                      `<div class="photo-container">
-                        <img src="${assignment.photo_url}" alt="Assignment photo" />
+                    ${assignment.photo_url || assignment.after_photo_url ? 
+                      `<div class="photo-pair">
+                        ${assignment.photo_url ? 
+                          `<div class="photo-container">
+                            <div class="photo-label">Before</div>
+                            <img src="${assignment.photo_url}" alt="Before photo" />
+                          </div>` : 
+                          ''}
+                        ${assignment.after_photo_url ? 
+                          `<div class="photo-container">
+                            <div class="photo-label">After</div>
+                            <img src="${assignment.after_photo_url}" alt="After photo" />
+                          </div>` : 
+                          ''}
+                      </div>` : 
+                      ''}
+
+                    ${assignment.hygiene_score != null ? 
+                      `<div class="print-info"><strong>Hygiene score:</strong> ${assignment.hygiene_score}%</div>` : 
+                      ''}
+
+                    ${assignment.rejection_comment && assignment.status !== 'done' ? 
+                      `<div class="rejection">
+                        <strong>Rejected by ${assignment.rejected_by_name || 'supervisor'}:</strong>
+                        ${assignment.rejection_comment}
                       </div>` : 
                       ''}
                   </td>
@@ -570,6 +750,13 @@ const Assignments = () => {
           >
             Incomplete
           </Button>
+          <Button 
+            variant={filter === 'overdue' ? 'default' : 'outline'} 
+            onClick={() => setFilter('overdue')}
+            size="sm"
+          >
+            Overdue
+          </Button>
         </div>
         
         <div className="flex flex-wrap items-center gap-4">
@@ -643,9 +830,24 @@ const Assignments = () => {
                               {assignment.status.replace('-', ' ')}
                             </span>
                           </div>
+                          {assignment.hygiene_score != null && (
+                            <div className={`text-xs font-medium mt-1 ${getHygieneScoreColor(assignment.hygiene_score)}`}>
+                              Hygiene {assignment.hygiene_score}%
+                            </div>
+                          )}
+                          {assignment.rejection_comment && assignment.status !== 'done' && (
+                            <div className="text-xs text-red-600 mt-1">
+                              Rejected: {assignment.rejection_comment}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           {new Date(assignment.created_at).toLocaleDateString()}
+                          {assignment.due_at && (
+                            <div className={`text-xs ${assignment.status === 'overdue' ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                              Due {format(new Date(assignment.due_at), 'MMM dd, HH:mm')}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           {assignment.instructions ? (
@@ -684,9 +886,20 @@ const Assignments = () => {
                                 />
                               </div>
                             </div>
-                          ) : (
+                          ) : !assignment.after_photo_url && (
                             <span className="text-gray-400 text-sm">No photo</span>
                           )}
+                          {assignment.after_photo_url && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleExpandAssignment(assignment.id)}
+                              className="flex items-center gap-1 text-sm text-green-700"
+                            >
+                              <Check className="h-4 w-4" />
+                              {expandedAssignment === assignment.id ? "Hide" : "View"} Before/After
+                            </Button>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-2 flex-wrap">
@@ -703,48 +916,79 @@ const Assignments = () => {
                               <>
                                 {completionMode[assignment.id] ? (
                                   <div className="flex flex-col gap-2 p-2 border rounded bg-green-50">
-                                    <div className="flex items-center gap-2">
-                                      <Checkbox
-                                        id={`self-initiative-${assignment.id}`}
-                                        checked={selfInitiativeReward[assignment.id] || false}
-                                        onCheckedChange={(checked) => {
-                                          setSelfInitiativeReward(prev => ({ ...prev, [assignment.id]: checked as boolean }));
-                                          if (checked) setCompletionDemerit(prev => ({ ...prev, [assignment.id]: false }));
+                                    <label className="cursor-pointer">
+                                      <div className="flex items-center gap-1 py-1 px-2 border border-gray-300 rounded-md text-sm bg-white hover:bg-gray-50">
+                                        <Upload className="h-4 w-4" />
+                                        <span className="truncate max-w-[160px]">
+                                          {afterPhotos[assignment.id]?.name || 'After photo (required)'}
+                                        </span>
+                                      </div>
+                                      <input
+                                        type="file"
+                                        accept="image/*"
+                                        capture="environment"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                          const file = e.target.files?.[0] || null;
+                                          setAfterPhotos(prev => ({ ...prev, [assignment.id]: file }));
                                         }}
                                       />
-                                      <label 
-                                        htmlFor={`self-initiative-${assignment.id}`}
-                                        className="text-sm flex items-center gap-1 text-amber-700"
-                                      >
-                                        <Lightbulb className="h-4 w-4" />
-                                        Reward Self Initiative
-                                      </label>
-                                    </div>
-                                    <div className="flex items-center gap-2">
-                                      <Checkbox
-                                        id={`completion-demerit-${assignment.id}`}
-                                        checked={completionDemerit[assignment.id] || false}
-                                        onCheckedChange={(checked) => {
-                                          setCompletionDemerit(prev => ({ ...prev, [assignment.id]: checked as boolean }));
-                                          if (checked) setSelfInitiativeReward(prev => ({ ...prev, [assignment.id]: false }));
-                                        }}
+                                    </label>
+                                    {getAreaChecklist(assignment.area).length > 0 && (
+                                      <InspectionChecklistForm
+                                        idPrefix={`check-${assignment.id}`}
+                                        items={getAreaChecklist(assignment.area)}
+                                        scores={checkScores[assignment.id] || {}}
+                                        onScoreChange={(itemId, score) => setCheckScore(assignment.id, itemId, score)}
                                       />
-                                      <label 
-                                        htmlFor={`completion-demerit-${assignment.id}`}
-                                        className="text-sm flex items-center gap-1 text-red-700"
-                                      >
-                                        <AlertCircle className="h-4 w-4" />
-                                        Assign Demerit (Poor Standard)
-                                      </label>
-                                    </div>
+                                    )}
+                                    {canManage && (
+                                      <>
+                                        <div className="flex items-center gap-2">
+                                          <Checkbox
+                                            id={`self-initiative-${assignment.id}`}
+                                            checked={selfInitiativeReward[assignment.id] || false}
+                                            onCheckedChange={(checked) => {
+                                              setSelfInitiativeReward(prev => ({ ...prev, [assignment.id]: checked as boolean }));
+                                              if (checked) setCompletionDemerit(prev => ({ ...prev, [assignment.id]: false }));
+                                            }}
+                                          />
+                                          <label 
+                                            htmlFor={`self-initiative-${assignment.id}`}
+                                            className="text-sm flex items-center gap-1 text-amber-700"
+                                          >
+                                            <Lightbulb className="h-4 w-4" />
+                                            Reward Self Initiative
+                                          </label>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                          <Checkbox
+                                            id={`completion-demerit-${assignment.id}`}
+                                            checked={completionDemerit[assignment.id] || false}
+                                            onCheckedChange={(checked) => {
+                                              setCompletionDemerit(prev => ({ ...prev, [assignment.id]: checked as boolean }));
+                                              if (checked) setSelfInitiativeReward(prev => ({ ...prev, [assignment.id]: false }));
+                                            }}
+                                          />
+                                          <label 
+                                            htmlFor={`completion-demerit-${assignment.id}`}
+                                            className="text-sm flex items-center gap-1 text-red-700"
+                                          >
+                                            <AlertCircle className="h-4 w-4" />
+                                            Assign Demerit (Poor Standard)
+                                          </label>
+                                        </div>
+                                      </>
+                                    )}
                                     <div className="flex gap-1">
                                       <Button 
                                         variant="default" 
                                         size="sm"
-                                        onClick={() => updateAssignmentStatus(assignment.id, 'done')}
+                                        onClick={() => completeAssignment(assignment.id)}
+                                        disabled={!afterPhotos[assignment.id] || uploadingId === assignment.id}
                                         className="bg-green-600 hover:bg-green-700"
                                       >
-                                        Confirm Complete
+                                        {uploadingId === assignment.id ? 'Uploading...' : 'Confirm Complete'}
                                       </Button>
                                       <Button 
                                         variant="outline" 
@@ -753,6 +997,8 @@ const Assignments = () => {
                                           setCompletionMode(prev => ({ ...prev, [assignment.id]: false }));
                                           setSelfInitiativeReward(prev => ({ ...prev, [assignment.id]: false }));
                                           setCompletionDemerit(prev => ({ ...prev, [assignment.id]: false }));
+                                          setAfterPhotos(prev => ({ ...prev, [assignment.id]: null }));
+                                          setCheckScores(prev => ({ ...prev, [assignment.id]: {} }));
                                         }}
                                       >
                                         Cancel
@@ -775,22 +1021,24 @@ const Assignments = () => {
                               <>
                                 {incompleteMode[assignment.id] ? (
                                   <div className="flex flex-col gap-2 p-2 border rounded bg-red-50">
-                                    <div className="flex items-center gap-2">
-                                      <Checkbox
-                                        id={`demerit-${assignment.id}`}
-                                        checked={demeritAssignment[assignment.id] || false}
-                                        onCheckedChange={(checked) => 
-                                          setDemeritAssignment(prev => ({ ...prev, [assignment.id]: checked as boolean }))
-                                        }
-                                      />
-                                      <label 
-                                        htmlFor={`demerit-${assignment.id}`}
-                                        className="text-sm flex items-center gap-1 text-red-700"
-                                      >
-                                        <AlertCircle className="h-4 w-4" />
-                                        Assign Demerit
-                                      </label>
-                                    </div>
+                                    {canManage && (
+                                      <div className="flex items-center gap-2">
+                                        <Checkbox
+                                          id={`demerit-${assignment.id}`}
+                                          checked={demeritAssignment[assignment.id] || false}
+                                          onCheckedChange={(checked) => 
+                                            setDemeritAssignment(prev => ({ ...prev, [assignment.id]: checked as boolean }))
+                                          }
+                                        />
+                                        <label 
+                                          htmlFor={`demerit-${assignment.id}`}
+                                          className="text-sm flex items-center gap-1 text-red-700"
+                                        >
+                                          <AlertCircle className="h-4 w-4" />
+                                          Assign Demerit
+                                        </label>
+                                      </div>
+                                    )}
                                     <div className="flex gap-1">
                                       <Button 
                                         variant="default" 
@@ -824,6 +1072,52 @@ const Assignments = () => {
                                 )}
                               </>
                             )}
+                            {assignment.status === 'done' && canManage && (
+                              <>
+                                {rejectMode[assignment.id] ? (
+                                  <div className="flex flex-col gap-2 p-2 border rounded bg-orange-50">
+                                    <Textarea
+                                      placeholder="What needs redoing?"
+                                      className="min-h-[60px] text-sm"
+                                      value={rejectionComments[assignment.id] || ''}
+                                      onChange={(e) => 
+                                        setRejectionComments(prev => ({ ...prev, [assignment.id]: e.target.value }))
+                                      }
+                                    />
+                                    <div className="flex gap-1">
+                                      <Button 
+                                        variant="default" 
+                                        size="sm"
+                                        onClick={() => rejectCompletion(assignment.id)}
+                                        className="bg-orange-600 hover:bg-orange-700"
+                                      >
+                                        Confirm Reject
+                                      </Button>
+                                      <Button 
+                                        variant="outline" 
+                                        size="sm"
+                                        onClick={() => {
+                                          setRejectMode(prev => ({ ...prev, [assignment.id]: false }));
+                                          setRejectionComments(prev => ({ ...prev, [assignment.id]: '' }));
+                                        }}
+                                      >
+                                        Cancel
+                                      </Button>
+                                    </div>
+                                  </div>
+                                ) : (
+                                  <Button 
+                                    variant="outline" 
+                                    size="sm"
+                                    onClick={() => setRejectMode(prev => ({ ...prev, [assignment.id]: true }))}
+                                    className="bg-orange-50 hover:bg-orange-100 text-orange-600"
+                                  >
+                                    <Undo2 className="h-4 w-4 mr-1" />
+                                    Reject
+                                  </Button>
+                                )}
+                              </>
+                            )}
                             {assignment.status === 'pending' && (
                               <Button 
                                 variant="outline" 
@@ -837,20 +1131,59 @@ const Assignments = () => {
                           </div>
                         </TableCell>
                       </TableRow>
-                      {expandedAssignment === assignment.id && assignment.instructions && (
+                      {expandedAssignment === assignment.id && (assignment.instructions || assignment.after_photo_url || assignment.hygiene_score != null) && (
                         <TableRow className="bg-gray-50">
                           <TableCell colSpan={7} className="py-2">
-                            <div className="p-3 text-sm border-l-2 border-gray-300">
-                              {assignment.instructions}
+                            {assignment.instructions && (
+                              <div className="p-3 text-sm border-l-2 border-gray-300">
+                                {assignment.instructions}
+                              </div>
+                            )}
+                            <div className="mt-3 flex flex-wrap gap-4">
+                              {assignment.photo_url && (
+                                <div>
+                                  <p className="text-xs text-gray-500 mb-1">Before</p>
+                                  <img
+                                    src={assignment.photo_url}
+                                    alt="Before photo"
+                                    className="rounded-md object-cover w-full h-full border"
+                                    style={{ maxWidth: "300px", maxHeight: "200px" }}
+                                  />
+                                </div>
+                              )}
+                              {assignment.after_photo_url && (
+                                <div>
+                                  <p className="text-xs text-green-700 mb-1">
+                                    After
+                                    {assignment.completed_at && ` - ${format(new Date(assignment.completed_at), 'MMM dd, HH:mm')}`}
+                                  </p>
+                                  <img
+                                    src={assignment.after_photo_url}
+                                    alt="After photo"
+                                    className="rounded-md object-cover w-full h-full border"
+                                    style={{ maxWidth: "300px", maxHeight: "200px" }}
+                                  />
+                                </div>
+                              )}
                             </div>
-                            {assignment.photo_url && (
+                            {expandedResults.length > 0 && (
                               <div className="mt-3 max-w-md">
-                                <img
-                                  src={assignment.photo_url}
-                                  alt="Assignment photo"
-                                  className="rounded-md object-cover w-full h-full border"
-                                  style={{ maxWidth: "300px", maxHeight: "200px" }}
-                                />
+                                <p className="text-xs font-medium text-gray-600 mb-1">
+                                  Inspection
+                                  {assignment.hygiene_score != null && (
+                                    <span className={`ml-2 ${getHygieneScoreColor(assignment.hygiene_score)}`}>
+                                      {assignment.hygiene_score}%
+                                    </span>
+                                  )}
+                                </p>
+                                {expandedResults.map(result => (
+                                  <div key={result.id} className="flex justify-between text-sm border-b py-1">
+                                    <span>{result.label}</span>
+                                    <span className={result.score === result.max_score ? 'text-green-600' : 'text-red-600'}>
+                                      {result.max_score === 1 ? (result.score === 1 ? 'Done' : 'Missed') : `${result.score}/${result.max_score}`}
+                                    </span>
+                                  </div>
+                                ))}
                               </div>
                             )}
                           </TableCell>
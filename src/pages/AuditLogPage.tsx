@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, subDays, startOfDay, endOfDay } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { ChevronDown, ChevronRight, History, RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DateRangePicker } from '@/components/DateRangePicker';
+import Navigation from '@/components/Navigation';
+import { AuditAction, AuditEntry, formatAuditValue, formatTableName, getChangedFields } from '@/utils/audit';
+
+const AUDIT_PAGE_SIZE = 500;
+const SYSTEM_USER = 'system';
+
+const actionBadgeClass: Record<AuditAction, string> = {
+  INSERT: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+};
+
+const AuditLogPage = () => {
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 7),
+    to: new Date(),
+  });
+  const [tableFilter, setTableFilter] = useState('all');
+  const [userFilter, setUserFilter] = useState('all');
+  const [rowIdFilter, setRowIdFilter] = useState('');
+  const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
+
+  const { data: tables = [] } = useQuery({
+    queryKey: ['audited_tables'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('audited_tables');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['pos_users', 'audit'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pos_users')
+        .select('id, username')
+        .order('username');
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: entries = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['audit_log', dateRange, tableFilter, userFilter, rowIdFilter.trim()],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_PAGE_SIZE);
+
+      if (dateRange?.from) {
+        query = query.gte('created_at', startOfDay(dateRange.from).toISOString());
+      }
+      if (dateRange?.to) {
+        query = query.lte('created_at', endOfDay(dateRange.to).toISOString());
+      }
+      if (tableFilter !== 'all') {
+        query = query.eq('table_name', tableFilter);
+      }
+      if (userFilter === SYSTEM_USER) {
+        query = query.is('changed_by', null);
+      } else if (userFilter !== 'all') {
+        query = query.eq('changed_by', userFilter);
+      }
+      if (rowIdFilter.trim()) {
+        query = query.eq('row_id', rowIdFilter.trim());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as AuditEntry[];
+    },
+  });
+
+  const renderChanges = (entry: AuditEntry) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          {entry.action !== 'INSERT' && <TableHead>Before</TableHead>}
+          {entry.action !== 'DELETE' && <TableHead>After</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {getChangedFields(entry).map(change => (
+          <TableRow key={change.field}>
+            <TableCell className="font-mono text-xs">{change.field}</TableCell>
+            {entry.action !== 'INSERT' && (
+              <TableCell className={`text-xs break-all ${entry.action === 'UPDATE' ? 'text-red-700' : ''}`}>
+                {formatAuditValue(change.before)}
+              </TableCell>
+            )}
+            {entry.action !== 'DELETE' && (
+              <TableCell className={`text-xs break-all ${entry.action === 'UPDATE' ? 'text-green-700' : ''}`}>
+                {formatAuditValue(change.after)}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <div className="container mx-auto p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-3xl font-bold">Audit Trail</h1>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card className="mb-4">
+          <CardContent className="pt-6 grid gap-3 md:grid-cols-4">
+            <DateRangePicker dateRange={dateRange} onDateRangeChange={setDateRange} />
+            <Select value={tableFilter} onValueChange={setTableFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="All tables" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tables</SelectItem>
+                {tables.map(table => (
+                  <SelectItem key={table} value={table}>{formatTableName(table)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={userFilter} onValueChange={setUserFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="All users" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                <SelectItem value={SYSTEM_USER}>System (no user)</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Row ID"
+              value={rowIdFilter}
+              onChange={(e) => setRowIdFilter(e.target.value)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="h-5 w-5" />
+              {entries.length} {entries.length === 1 ? 'change' : 'changes'}
+              {entries.length === AUDIT_PAGE_SIZE && (
+                <span className="text-sm font-normal text-gray-500">(latest {AUDIT_PAGE_SIZE} shown, narrow the filters to see more)</span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead></TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Row ID</TableHead>
+                  <TableHead>Fields</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                      Loading audit trail...
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                      No changes match these filters
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map(entry => (
+                    <React.Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedEntry(expandedEntry === entry.id ? null : entry.id)}
+                      >
+                        <TableCell>
+                          {expandedEntry === entry.id
+                            ? <ChevronDown className="h-4 w-4" />
+                            : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(entry.created_at), 'MMM dd, HH:mm:ss')}
+                        </TableCell>
+                        <TableCell>{entry.changed_by_name || <span className="text-gray-500">System</span>}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={actionBadgeClass[entry.action]}>
+                            {entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{formatTableName(entry.table_name)}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.row_id || '-'}</TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-gray-600">
+                          {entry.action === 'UPDATE'
+                            ? getChangedFields(entry).map(change => change.field).join(', ')
+                            : '-'}
+                        </TableCell>
+                      </TableRow>
+                      {expandedEntry === entry.id && (
+                        <TableRow>
+                          <TableCell colSpan={7} className="bg-gray-50">
+                            {renderChanges(entry)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+      <Navigation />
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -8,120 +8,272 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { DollarSign, Plus, Minus, Calculator, FileText, Clock } from "lucide-react";
+import { DollarSign, Plus, Minus, Calculator, FileText, Clock, History } from "lucide-react";
 import { format } from "date-fns";
 import Navigation from "@/components/Navigation";
+import { useAuth } from "@/hooks/useAuth";
+import { getNetPaid } from "@/utils/payments";
 
-interface CashTransaction {
+interface CashRegisterSession {
   id: string;
-  type: 'opening' | 'closing' | 'payout' | 'payin';
+  cashier_name: string;
+  status: 'open' | 'closed';
+  opening_float: number;
+  opened_at: string;
+  closed_at?: string | null;
+  cash_sales_total?: number | null;
+  cash_refunds_total?: number | null;
+  payouts_total?: number | null;
+  payins_total?: number | null;
+  expected_cash?: number | null;
+  counted_cash?: number | null;
+  variance?: number | null;
+  closing_notes?: string | null;
+}
+
+interface CashOperation {
+  id: string;
+  session_id: string;
+  operation_type: 'payout' | 'payin';
   amount: number;
-  reason?: string;
+  reason: string;
   cashier_name: string;
   created_at: string;
 }
 
 const CashRegisterPage = () => {
   const [openingAmount, setOpeningAmount] = useState('');
+  const [closingAmount, setClosingAmount] = useState('');
+  const [closingNotes, setClosingNotes] = useState('');
   const [payoutAmount, setPayoutAmount] = useState('');
   const [payoutReason, setPayoutReason] = useState('');
   const [payinAmount, setPayinAmount] = useState('');
   const [payinReason, setPayinReason] = useState('');
-  const [cashierName, setCashierName] = useState('');
+  const { user } = useAuth();
+  const [cashierName, setCashierName] = useState(user?.username || '');
+  const [historyCashier, setHistoryCashier] = useState('all');
   const [showOpenRegister, setShowOpenRegister] = useState(false);
   const [showCloseRegister, setShowCloseRegister] = useState(false);
   const [showPayout, setShowPayout] = useState(false);
   const [showPayin, setShowPayin] = useState(false);
   const queryClient = useQueryClient();
 
-  // Get today's cash sales from transactions
-  const { data: todaySales = [], isLoading: loadingSales } = useQuery({
-    queryKey: ['today_sales'],
+  // Fetch the register session that is currently open (only one can be open at a time)
+  const { data: currentSession = null } = useQuery({
+    queryKey: ['cash_register_session'],
     queryFn: async () => {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
       const { data, error } = await supabase
-        .from('sales_transactions')
+        .from('cash_register_sessions')
         .select('*')
+        .eq('status', 'open')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as CashRegisterSession | null;
+    },
+  });
+
+  // Get cash taken in and refunded since the current session was opened.
+  // Only the cash part of a split tender lands in the drawer, and refunds are negative rows.
+  const { data: sessionSales = [], isLoading: loadingSales } = useQuery({
+    queryKey: ['session_sales', currentSession?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payment_transactions')
+        .select('*, sales_transactions(transaction_number, customer_name, total_amount)')
         .eq('payment_method', 'cash')
-        .gte('transaction_date', today.toISOString())
-        .order('transaction_date', { ascending: false });
+        .gte('created_at', currentSession!.opened_at)
+        .order('created_at', { ascending: false });
       
       if (error) throw error;
-      return data || [];
+      return (data || []).map(payment => ({ ...payment, cash_amount: getNetPaid(payment) }));
+    },
+    enabled: !!currentSession,
+  });
+
+  // Fetch payouts and pay-ins recorded against the current session
+  const { data: cashOperations = [] } = useQuery({
+    queryKey: ['cash_operations', currentSession?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cash_register_operations')
+        .select('*')
+        .eq('session_id', currentSession!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as CashOperation[];
+    },
+    enabled: !!currentSession,
+  });
+
+  // Fetch closed sessions for the reconciliation history
+  const { data: sessionHistory = [], isLoading: loadingHistory } = useQuery({
+    queryKey: ['cash_register_history', historyCashier],
+    queryFn: async () => {
+      let query = supabase
+        .from('cash_register_sessions')
+        .select('*')
+        .eq('status', 'closed')
+        .order('opened_at', { ascending: false })
+        .limit(100);
+
+      if (historyCashier !== 'all') {
+        query = query.eq('cashier_name', historyCashier);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as CashRegisterSession[];
+    },
+  });
+
+  // Cashier names for the history filter
+  const { data: cashierNames = [] } = useQuery({
+    queryKey: ['cash_register_cashiers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cash_register_sessions')
+        .select('cashier_name');
+
+      if (error) throw error;
+      return [...new Set((data || []).map(row => row.cashier_name))].sort();
     },
   });
 
   // Calculate cash totals
-  const totalCashSales = todaySales.reduce((sum, sale) => sum + sale.total_amount, 0);
-  const salesCount = todaySales.length;
+  const openingFloat = currentSession?.opening_float || 0;
+  const cashSales = sessionSales.filter(sale => sale.cash_amount > 0);
+  const totalCashSales = cashSales.reduce((sum, sale) => sum + sale.cash_amount, 0);
+  const totalCashRefunds = sessionSales
+    .filter(sale => sale.cash_amount < 0)
+    .reduce((sum, sale) => sum - sale.cash_amount, 0);
+  const salesCount = cashSales.length;
+  const totalPayouts = cashOperations
+    .filter(op => op.operation_type === 'payout')
+    .reduce((sum, op) => sum + op.amount, 0);
+  const totalPayins = cashOperations
+    .filter(op => op.operation_type === 'payin')
+    .reduce((sum, op) => sum + op.amount, 0);
+  const expectedCash = openingFloat + totalCashSales - totalCashRefunds + totalPayins - totalPayouts;
+  const closingVariance = closingAmount ? parseFloat(closingAmount) - expectedCash : 0;
 
-  // Mock cash register operations (you would store these in a cash_register_operations table)
-  const [cashOperations] = useState<CashTransaction[]>([]);
+  const invalidateRegisterQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['cash_register_session'] });
+    queryClient.invalidateQueries({ queryKey: ['cash_operations'] });
+    queryClient.invalidateQueries({ queryKey: ['cash_register_history'] });
+    queryClient.invalidateQueries({ queryKey: ['cash_register_cashiers'] });
+  };
 
   // Cash register mutations
   const openRegisterMutation = useMutation({
     mutationFn: async () => {
-      // In a real app, you'd store this in a cash_register_operations table
-      toast.success(`Cash register opened with R${parseFloat(openingAmount).toFixed(2)}`);
-      return { amount: parseFloat(openingAmount) };
+      const { data, error } = await supabase
+        .from('cash_register_sessions')
+        .insert({
+          cashier_name: cashierName.trim(),
+          opening_float: parseFloat(openingAmount),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      toast.success(`Cash register opened with R${data.opening_float.toFixed(2)}`);
       setOpeningAmount('');
       setShowOpenRegister(false);
-      queryClient.invalidateQueries({ queryKey: ['cash_operations'] });
+      invalidateRegisterQueries();
+    },
+    onError: (error) => {
+      console.error('Open register error:', error);
+      toast.error('Failed to open register. Is another session still open?');
     },
   });
 
   const closeRegisterMutation = useMutation({
-    mutationFn: async (closingAmount: number) => {
+    mutationFn: async (countedCash: number) => {
       // Calculate expected vs actual
-      const expected = parseFloat(openingAmount || '0') + totalCashSales;
-      const difference = closingAmount - expected;
-      
-      toast.success(`Register closed. Difference: R${difference.toFixed(2)}`);
-      return { expected, actual: closingAmount, difference };
+      const variance = countedCash - expectedCash;
+      const { error } = await supabase
+        .from('cash_register_sessions')
+        .update({
+          status: 'closed',
+          closed_at: new Date().toISOString(),
+          cash_sales_total: totalCashSales,
+          cash_refunds_total: totalCashRefunds,
+          payouts_total: totalPayouts,
+          payins_total: totalPayins,
+          expected_cash: expectedCash,
+          counted_cash: countedCash,
+          variance,
+          closing_notes: closingNotes || null,
+        })
+        .eq('id', currentSession!.id);
+
+      if (error) throw error;
+      return { expected: expectedCash, actual: countedCash, difference: variance };
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      toast.success(`Register closed. Difference: R${data.difference.toFixed(2)}`);
+      setClosingAmount('');
+      setClosingNotes('');
       setShowCloseRegister(false);
+      invalidateRegisterQueries();
     },
-  });
-
-  const cashPayoutMutation = useMutation({
-    mutationFn: async () => {
-      toast.success(`Cash payout of R${parseFloat(payoutAmount).toFixed(2)} recorded`);
-      return { amount: parseFloat(payoutAmount), reason: payoutReason };
-    },
-    onSuccess: () => {
-      setPayoutAmount('');
-      setPayoutReason('');
-      setShowPayout(false);
+    onError: (error) => {
+      console.error('Close register error:', error);
+      toast.error('Failed to close register');
     },
   });
 
-  const cashPayinMutation = useMutation({
-    mutationFn: async () => {
-      toast.success(`Cash pay-in of R${parseFloat(payinAmount).toFixed(2)} recorded`);
-      return { amount: parseFloat(payinAmount), reason: payinReason };
+  const cashOperationMutation = useMutation({
+    mutationFn: async ({ type, amount, reason }: { type: 'payout' | 'payin'; amount: number; reason: string }) => {
+      const { error } = await supabase
+        .from('cash_register_operations')
+        .insert({
+          session_id: currentSession!.id,
+          operation_type: type,
+          amount,
+          reason,
+          cashier_name: cashierName.trim() || currentSession!.cashier_name,
+        });
+
+      if (error) throw error;
+      return { type, amount };
     },
-    onSuccess: () => {
-      setPayinAmount('');
-      setPayinReason('');
-      setShowPayin(false);
+    onSuccess: ({ type, amount }) => {
+      if (type === 'payout') {
+        toast.success(`Cash payout of R${amount.toFixed(2)} recorded`);
+        setPayoutAmount('');
+        setPayoutReason('');
+        setShowPayout(false);
+      } else {
+        toast.success(`Cash pay-in of R${amount.toFixed(2)} recorded`);
+        setPayinAmount('');
+        setPayinReason('');
+        setShowPayin(false);
+      }
+      queryClient.invalidateQueries({ queryKey: ['cash_operations'] });
+    },
+    onError: (error) => {
+      console.error('Cash operation error:', error);
+      toast.error('Failed to record cash movement');
     },
   });
 
   const handleOpenRegister = () => {
-    if (!cashierName || !openingAmount) {
+    if (!cashierName.trim() || !openingAmount) {
       toast.error('Please enter cashier name and opening amount');
       return;
     }
     openRegisterMutation.mutate();
   };
 
-  const handleCloseRegister = (closingAmount: string) => {
+  const handleCloseRegister = () => {
     if (!closingAmount) {
       toast.error('Please enter closing amount');
       return;
@@ -134,7 +286,7 @@ const CashRegisterPage = () => {
       toast.error('Please enter amount and reason for payout');
       return;
     }
-    cashPayoutMutation.mutate();
+    cashOperationMutation.mutate({ type: 'payout', amount: parseFloat(payoutAmount), reason: payoutReason });
   };
 
   const handlePayin = () => {
@@ -142,9 +294,12 @@ const CashRegisterPage = () => {
       toast.error('Please enter amount and reason for pay-in');
       return;
     }
-    cashPayinMutation.mutate();
+    cashOperationMutation.mutate({ type: 'payin', amount: parseFloat(payinAmount), reason: payinReason });
   };
 
+  const varianceClass = (variance: number) =>
+    Math.abs(variance) < 0.01 ? 'text-green-600' : variance < 0 ? 'text-red-600' : 'text-orange-600';
+
   return (
     <div className="min-h-screen bg-gray-50 pb-20">
       <div className="container mx-auto p-4">
@@ -160,15 +315,24 @@ const CashRegisterPage = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="flex gap-4 items-center">
-                <Input
-                  placeholder="Cashier name"
-                  value={cashierName}
-                  onChange={(e) => setCashierName(e.target.value)}
-                  className="max-w-xs"
-                />
+              <div className="flex flex-wrap gap-4 items-center">
+                {currentSession ? (
+                  <span className="font-medium">Cashier: {currentSession.cashier_name}</span>
+                ) : (
+                  <Input
+                    placeholder="Cashier name"
+                    value={cashierName}
+                    onChange={(e) => setCashierName(e.target.value)}
+                    className="max-w-xs"
+                  />
+                )}
                 <Badge variant="outline">
-                  Shift: {format(new Date(), 'PPP')}
+                  {currentSession
+                    ? `Opened: ${format(new Date(currentSession.opened_at), 'PPP HH:mm')}`
+                    : `Shift: ${format(new Date(), 'PPP')}`}
+                </Badge>
+                <Badge variant={currentSession ? 'default' : 'secondary'}>
+                  {currentSession ? 'Open' : 'Closed'}
                 </Badge>
               </div>
             </CardContent>
@@ -182,7 +346,7 @@ const CashRegisterPage = () => {
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">R{parseFloat(openingAmount || '0').toFixed(2)}</div>
+                <div className="text-2xl font-bold">R{openingFloat.toFixed(2)}</div>
               </CardContent>
             </Card>
 
@@ -193,30 +357,33 @@ const CashRegisterPage = () => {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">R{totalCashSales.toFixed(2)}</div>
-                <p className="text-xs text-muted-foreground">{salesCount} transactions</p>
+                <p className="text-xs text-muted-foreground">
+                  {salesCount} transactions
+                  {totalCashRefunds > 0 && ` · -R${totalCashRefunds.toFixed(2)} refunded`}
+                </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Expected Total</CardTitle>
-                <Plus className="h-4 w-4 text-muted-foreground" />
+                <CardTitle className="text-sm font-medium">Pay-ins / Payouts</CardTitle>
+                <History className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">
-                  R{(parseFloat(openingAmount || '0') + totalCashSales).toFixed(2)}
-                </div>
+                <div className="text-2xl font-bold">R{(totalPayins - totalPayouts).toFixed(2)}</div>
+                <p className="text-xs text-muted-foreground">
+                  +R{totalPayins.toFixed(2)} / -R{totalPayouts.toFixed(2)}
+                </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Status</CardTitle>
+                <CardTitle className="text-sm font-medium">Expected Total</CardTitle>
+                <Plus className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <Badge variant={openingAmount ? 'default' : 'secondary'}>
-                  {openingAmount ? 'Open' : 'Closed'}
-                </Badge>
+                <div className="text-2xl font-bold">R{expectedCash.toFixed(2)}</div>
               </CardContent>
             </Card>
           </div>
@@ -225,7 +392,7 @@ const CashRegisterPage = () => {
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
             <Dialog open={showOpenRegister} onOpenChange={setShowOpenRegister}>
               <DialogTrigger asChild>
-                <Button className="w-full" disabled={!!openingAmount}>
+                <Button className="w-full" disabled={!!currentSession}>
                   <Plus className="h-4 w-4 mr-2" />
                   Open Register
                 </Button>
@@ -235,15 +402,24 @@ const CashRegisterPage = () => {
                   <DialogTitle>Open Cash Register</DialogTitle>
                 </DialogHeader>
                 <div className="space-y-4">
+                  <Input
+                    placeholder="Cashier name"
+                    value={cashierName}
+                    onChange={(e) => setCashierName(e.target.value)}
+                  />
                   <Input
                     type="number"
                     step="0.01"
-                    placeholder="Opening amount"
+                    placeholder="Opening float"
                     value={openingAmount}
                     onChange={(e) => setOpeningAmount(e.target.value)}
                   />
-                  <Button onClick={handleOpenRegister} className="w-full">
-                    Open Register
+                  <Button
+                    onClick={handleOpenRegister}
+                    className="w-full"
+                    disabled={openRegisterMutation.isPending}
+                  >
+                    {openRegisterMutation.isPending ? 'Opening...' : 'Open Register'}
                   </Button>
                 </div>
               </DialogContent>
@@ -251,7 +427,7 @@ const CashRegisterPage = () => {
 
             <Dialog open={showCloseRegister} onOpenChange={setShowCloseRegister}>
               <DialogTrigger asChild>
-                <Button variant="destructive" className="w-full" disabled={!openingAmount}>
+                <Button variant="destructive" className="w-full" disabled={!currentSession}>
                   <Minus className="h-4 w-4 mr-2" />
                   Close Register
                 </Button>
@@ -262,23 +438,45 @@ const CashRegisterPage = () => {
                 </DialogHeader>
                 <div className="space-y-4">
                   <div className="text-sm space-y-2">
-                    <p>Opening Amount: R{parseFloat(openingAmount || '0').toFixed(2)}</p>
+                    <p>Opening Float: R{openingFloat.toFixed(2)}</p>
                     <p>Cash Sales: R{totalCashSales.toFixed(2)}</p>
-                    <p className="font-bold">Expected Total: R{(parseFloat(openingAmount || '0') + totalCashSales).toFixed(2)}</p>
+                    <p>Cash Refunds: -R{totalCashRefunds.toFixed(2)}</p>
+                    <p>Pay-ins: R{totalPayins.toFixed(2)}</p>
+                    <p>Payouts: -R{totalPayouts.toFixed(2)}</p>
+                    <p className="font-bold">Expected Total: R{expectedCash.toFixed(2)}</p>
                   </div>
                   <Input
                     type="number"
                     step="0.01"
-                    placeholder="Actual closing amount"
-                    onChange={(e) => handleCloseRegister(e.target.value)}
+                    placeholder="Counted cash in drawer"
+                    value={closingAmount}
+                    onChange={(e) => setClosingAmount(e.target.value)}
+                  />
+                  {closingAmount && (
+                    <p className={`font-semibold ${varianceClass(closingVariance)}`}>
+                      Variance: R{closingVariance.toFixed(2)}
+                    </p>
+                  )}
+                  <Textarea
+                    placeholder="Notes (explain any shortfall or surplus)"
+                    value={closingNotes}
+                    onChange={(e) => setClosingNotes(e.target.value)}
                   />
+                  <Button
+                    variant="destructive"
+                    onClick={handleCloseRegister}
+                    className="w-full"
+                    disabled={closeRegisterMutation.isPending}
+                  >
+                    {closeRegisterMutation.isPending ? 'Closing...' : 'Close Register'}
+                  </Button>
                 </div>
               </DialogContent>
             </Dialog>
 
             <Dialog open={showPayout} onOpenChange={setShowPayout}>
               <DialogTrigger asChild>
-                <Button variant="outline" className="w-full">
+                <Button variant="outline" className="w-full" disabled={!currentSession}>
                   <Minus className="h-4 w-4 mr-2" />
                   Cash Payout
                 </Button>
@@ -300,7 +498,7 @@ const CashRegisterPage = () => {
                     value={payoutReason}
                     onChange={(e) => setPayoutReason(e.target.value)}
                   />
-                  <Button onClick={handlePayout} className="w-full">
+                  <Button onClick={handlePayout} className="w-full" disabled={cashOperationMutation.isPending}>
                     Record Payout
                   </Button>
                 </div>
@@ -309,7 +507,7 @@ const CashRegisterPage = () => {
 
             <Dialog open={showPayin} onOpenChange={setShowPayin}>
               <DialogTrigger asChild>
-                <Button variant="outline" className="w-full">
+                <Button variant="outline" className="w-full" disabled={!currentSession}>
                   <Plus className="h-4 w-4 mr-2" />
                   Cash Pay-in
                 </Button>
@@ -331,7 +529,7 @@ const CashRegisterPage = () => {
                     value={payinReason}
                     onChange={(e) => setPayinReason(e.target.value)}
                   />
-                  <Button onClick={handlePayin} className="w-full">
+                  <Button onClick={handlePayin} className="w-full" disabled={cashOperationMutation.isPending}>
                     Record Pay-in
                   </Button>
                 </div>
@@ -339,10 +537,51 @@ const CashRegisterPage = () => {
             </Dialog>
           </div>
 
-          {/* Recent Cash Sales */}
-          <Card>
+          {/* Cash Movements */}
+          {cashOperations.length > 0 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Cash Movements This Session</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Cashier</TableHead>
+                        <TableHead>Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {cashOperations.map((op) => (
+                        <TableRow key={op.id}>
+                          <TableCell>{format(new Date(op.created_at), 'HH:mm')}</TableCell>
+                          <TableCell>
+                            <Badge variant={op.operation_type === 'payout' ? 'destructive' : 'secondary'}>
+                              {op.operation_type === 'payout' ? 'Payout' : 'Pay-in'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{op.reason}</TableCell>
+                          <TableCell>{op.cashier_name}</TableCell>
+                          <TableCell className="font-medium">
+                            {op.operation_type === 'payout' ? '-' : '+'}R{op.amount.toFixed(2)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Session Cash Sales */}
+          <Card className="mb-6">
             <CardHeader>
-              <CardTitle>Today's Cash Sales</CardTitle>
+              <CardTitle>Cash Sales & Refunds This Session</CardTitle>
             </CardHeader>
             <CardContent>
               {loadingSales ? (
@@ -359,28 +598,112 @@ const CashRegisterPage = () => {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {todaySales.map((sale) => (
+                      {sessionSales.map((sale) => (
                         <TableRow key={sale.id}>
                           <TableCell>
-                            {format(new Date(sale.transaction_date), 'HH:mm')}
+                            {format(new Date(sale.created_at), 'HH:mm')}
                           </TableCell>
                           <TableCell className="font-mono text-sm">
-                            {sale.transaction_number}
+                            {sale.sales_transactions?.transaction_number}
                           </TableCell>
                           <TableCell>
-                            {sale.customer_name || <span className="text-gray-500">Walk-in</span>}
+                            {sale.sales_transactions?.customer_name || <span className="text-gray-500">Walk-in</span>}
                           </TableCell>
-                          <TableCell className="font-medium">
-                            R{sale.total_amount.toFixed(2)}
+                          <TableCell className={`font-medium ${sale.cash_amount < 0 ? 'text-red-600' : ''}`}>
+                            {sale.cash_amount < 0
+                              ? `-R${Math.abs(sale.cash_amount).toFixed(2)} refund`
+                              : `R${sale.cash_amount.toFixed(2)}`}
+                            {sale.cash_amount > 0 && sale.sales_transactions && sale.cash_amount < sale.sales_transactions.total_amount && (
+                              <span className="block text-xs text-gray-500">
+                                of R{sale.sales_transactions.total_amount.toFixed(2)} split tender
+                              </span>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
                   </Table>
                   
-                  {todaySales.length === 0 && (
+                  {sessionSales.length === 0 && (
+                    <div className="text-center py-8 text-gray-500">
+                      {currentSession ? 'No cash sales this session' : 'Open the register to start a session'}
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Session History */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  Session History
+                </CardTitle>
+                <Select value={historyCashier} onValueChange={setHistoryCashier}>
+                  <SelectTrigger className="w-full sm:w-56">
+                    <SelectValue placeholder="Filter by cashier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All cashiers</SelectItem>
+                    {cashierNames.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loadingHistory ? (
+                <div className="text-center py-8">Loading history...</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Opened</TableHead>
+                        <TableHead>Closed</TableHead>
+                        <TableHead>Cashier</TableHead>
+                        <TableHead>Float</TableHead>
+                        <TableHead>Cash Sales</TableHead>
+                        <TableHead>Refunds</TableHead>
+                        <TableHead>Pay-ins</TableHead>
+                        <TableHead>Payouts</TableHead>
+                        <TableHead>Expected</TableHead>
+                        <TableHead>Counted</TableHead>
+                        <TableHead>Variance</TableHead>
+                        <TableHead>Notes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sessionHistory.map((session) => (
+                        <TableRow key={session.id}>
+                          <TableCell>{format(new Date(session.opened_at), 'MMM dd, HH:mm')}</TableCell>
+                          <TableCell>
+                            {session.closed_at ? format(new Date(session.closed_at), 'MMM dd, HH:mm') : '-'}
+                          </TableCell>
+                          <TableCell>{session.cashier_name}</TableCell>
+                          <TableCell>R{session.opening_float.toFixed(2)}</TableCell>
+                          <TableCell>R{(session.cash_sales_total || 0).toFixed(2)}</TableCell>
+                          <TableCell>R{(session.cash_refunds_total || 0).toFixed(2)}</TableCell>
+                          <TableCell>R{(session.payins_total || 0).toFixed(2)}</TableCell>
+                          <TableCell>R{(session.payouts_total || 0).toFixed(2)}</TableCell>
+                          <TableCell>R{(session.expected_cash || 0).toFixed(2)}</TableCell>
+                          <TableCell>R{(session.counted_cash || 0).toFixed(2)}</TableCell>
+                          <TableCell className={`font-semibold ${varianceClass(session.variance || 0)}`}>
+                            R{(session.variance || 0).toFixed(2)}
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate">{session.closing_notes || '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  {sessionHistory.length === 0 && (
                     <div className="text-center py-8 text-gray-500">
-                      No cash sales today
+                      No closed sessions yet
                     </div>
                   )}
                 </div>
@@ -394,4 +717,4 @@ const CashRegisterPage = () => {
   );
 };
 
-export default CashRegisterPage;
\ No newline at end of file
+export default CashRegisterPage;
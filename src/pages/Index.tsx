@@ -2,13 +2,17 @@ import { useState, useEffect } from 'react';
 import ChecklistItem from '@/components/ChecklistItem';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Edit, Trash2 } from 'lucide-react';
+import { Plus, Edit, Trash2, CalendarClock, ListChecks } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 import { Badge } from "@/components/ui/badge";
 import IncompleteAssignmentsCarousel from '@/components/IncompleteAssignmentsCarousel';
+import CleaningScheduleDialog from '@/components/CleaningScheduleDialog';
+import AreaChecklistDialog from '@/components/AreaChecklistDialog';
+import { format } from 'date-fns';
+import { buildDueAt, DEFAULT_DUE_TIME } from '@/utils/assignments';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 
 interface Area {
@@ -34,6 +38,8 @@ interface Assignment {
   instructions?: string;
   photo_url?: string | null;
   created_at?: string;
+  due_at?: string | null;
+  schedule_id?: string | null;
   isPreviousDay?: boolean;
 }
 
@@ -48,6 +54,8 @@ const Index = () => {
   const [incompleteAssignments, setIncompleteAssignments] = useState<Assignment[]>([]);
   const [editingArea, setEditingArea] = useState<{ id: string; name: string; description: string } | null>(null);
   const [deletePassword, setDeletePassword] = useState('');
+  const [schedulingArea, setSchedulingArea] = useState<{ id: string; name: string } | null>(null);
+  const [checklistArea, setChecklistArea] = useState<{ id: string; name: string } | null>(null);
 
   // Fetch staff members
   const fetchStaffMembers = async () => {
@@ -145,9 +153,28 @@ const Index = () => {
     }
   };
 
+  // Create today's assignments from the recurring schedules (days already generated are skipped),
+  // then flag anything past its due time as overdue
+  const refreshScheduledAssignments = async () => {
+    const { error } = await supabase.rpc('generate_scheduled_assignments', {
+      p_date: format(new Date(), 'yyyy-MM-dd')
+    });
+
+    if (error) console.error('Error generating scheduled assignments:', error);
+
+    const { error: overdueError } = await supabase.rpc('mark_overdue_assignments');
+
+    if (overdueError) console.error('Error marking overdue assignments:', overdueError);
+  };
+
+  const loadAssignments = async () => {
+    await refreshScheduledAssignments();
+    await fetchAssignments();
+  };
+
   useEffect(() => {
     fetchStaffMembers();
-    fetchAssignments();
+    refreshScheduledAssignments().then(fetchAssignments);
   }, []);
 
   // Areas query
@@ -169,6 +196,20 @@ const Index = () => {
     }
   });
 
+  // Active schedules, to flag which areas are on the rota
+  const { data: activeSchedules = [] } = useQuery({
+    queryKey: ['cleaning_schedules', 'active'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cleaning_schedules')
+        .select('id, area_id')
+        .eq('active', true);
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
   const handleAddArea = async () => {
     if (!newArea.trim() || !newDescription.trim()) {
       toast({
@@ -207,7 +248,14 @@ const Index = () => {
     }
   };
 
-  const handleAssignment = async (areaName: string, assigneeId: string, instructions: string, photoUrl?: string) => {
+  const handleAssignment = async (
+    areaName: string,
+    assigneeId: string,
+    instructions: string,
+    photoUrl?: string,
+    dueTime?: string,
+    selfInitiative = false
+  ) => {
     try {
       const assigneeIdNum = parseInt(assigneeId);
       const assignee = staffMembers.find(staff => staff.id === assigneeIdNum);
@@ -227,7 +275,8 @@ const Index = () => {
         assignee_name: assignee.name,
         status: 'pending',
         instructions: instructions || null,
-        photo_url: photoUrl || null
+        photo_url: photoUrl || null,
+        due_at: buildDueAt(dueTime || DEFAULT_DUE_TIME)
       };
 
       setRecentlyAssigned(prev => [...prev, areaName]);
@@ -236,13 +285,31 @@ const Index = () => {
         setRecentlyAssigned(prev => prev.filter(area => area !== areaName));
       }, 1000);
 
-      const { error } = await supabase
+      const { data: created, error } = await supabase
         .from('assignments')
         .insert(assignmentData)
-        .select();
+        .select()
+        .single();
 
       if (error) throw error;
 
+      // The merit is its own conduct record, linked to the assignment it was earned on
+      if (selfInitiative) {
+        const { error: conductError } = await supabase
+          .from('staff_conduct_records')
+          .insert({
+            staff_id: assignee.id,
+            staff_name: assignee.name,
+            assignment_id: created.id,
+            record_type: 'merit',
+            category: 'self_initiative',
+            severity: 'minor',
+            reason: 'Recognized for taking on this task on their own initiative.',
+          });
+
+        if (conductError) throw conductError;
+      }
+
       await fetchAssignments();
 
       const toastMessage = assignee.name === 'Self Initiative' 
@@ -409,6 +476,7 @@ const Index = () => {
             areas.map((area) => {
               const areaAssignments = getAreaAssignments(area.name);
               const hasPreviousDayAssignment = areaAssignments.some(a => a.isPreviousDay);
+              const scheduleCount = activeSchedules.filter(s => s.area_id === area.id).length;
 
               return (
                 <div 
@@ -423,8 +491,30 @@ const Index = () => {
                            Pending from yesterday
                          </Badge>
                        )}
+                       {areaAssignments.some(a => a.schedule_id) && (
+                         <Badge variant="outline" className="mb-2 ml-1 text-blue-700 bg-blue-50 border-blue-200">
+                           <CalendarClock className="h-3 w-3 mr-1" />
+                           From schedule
+                         </Badge>
+                       )}
                      </div>
                      <div className="flex gap-1 ml-2">
+                       <Button
+                         variant="outline"
+                         size="sm"
+                         onClick={() => setSchedulingArea({ id: area.id, name: area.name })}
+                         className={scheduleCount > 0 ? 'text-blue-700 border-blue-300' : ''}
+                       >
+                         <CalendarClock className="h-3 w-3" />
+                         {scheduleCount > 0 && <span className="ml-1 text-xs">{scheduleCount}</span>}
+                       </Button>
+                       <Button
+                         variant="outline"
+                         size="sm"
+                         onClick={() => setChecklistArea({ id: area.id, name: area.name })}
+                       >
+                         <ListChecks className="h-3 w-3" />
+                       </Button>
                        <Button
                          variant="outline"
                          size="sm"
@@ -465,8 +555,8 @@ const Index = () => {
                      area={area.name}
                      description={area.description}
                      assignees={staffMembers}
-                     onAssign={(assigneeId, instructions, photoUrl) => 
-                       handleAssignment(area.name, assigneeId, instructions, photoUrl)
+                     onAssign={(assigneeId, instructions, photoUrl, dueTime, selfInitiative) => 
+                       handleAssignment(area.name, assigneeId, instructions, photoUrl, dueTime, selfInitiative)
                      }
                      isAssigned={false}
                      assignedTo={areaAssignments.map(a => a.assignee_name).join(', ')}
@@ -485,6 +575,18 @@ const Index = () => {
       )}
       
       <Navigation />
+
+      <CleaningScheduleDialog
+        area={schedulingArea}
+        staffMembers={staffMembers.filter(staff => staff.id > 0)}
+        onOpenChange={(open) => !open && setSchedulingArea(null)}
+        onSchedulesChanged={loadAssignments}
+      />
+
+      <AreaChecklistDialog
+        area={checklistArea}
+        onOpenChange={(open) => !open && setChecklistArea(null)}
+      />
       
       {/* Edit Area Modal */}
       {editingArea && (
@@ -10,6 +10,7 @@ import { toast } from '@/components/ui/sonner';
 import Navigation from '@/components/Navigation';
 import { useSimilarityCheck } from '@/hooks/useSimilarityCheck';
 import SimilarityWarning from '@/components/SimilarityWarning';
+import { findUnit, UNIT_OPTIONS } from '@/utils/units';
 
 // Types - matching the actual database schema
 interface Ingredient {
@@ -22,6 +23,8 @@ interface Ingredient {
   total_price: number;
   supplier: string | null;
   quantity: string;
+  density_g_per_ml: number | null;
+  each_weight_g: number | null;
   created_at: string;
 }
 
@@ -135,18 +138,11 @@ const IngredientsPage = () => {
     unit: 'kg',
     price_ex_vat: '',
     includes_vat: false,  // VAT inclusion flag
-    supplier: ''
+    supplier: '',
+    density_g_per_ml: '',
+    each_weight_g: ''
   });
 
-  // Unit options for dropdown
-  const unitOptions = [
-    { value: 'kg', label: 'kg' },
-    { value: 'g', label: 'g' },
-    { value: 'l', label: 'l' },
-    { value: 'ml', label: 'ml' },
-    { value: 'units', label: 'units' }
-  ];
-
   // Fetch Ingredients
   const { data: ingredients = [], isLoading } = useQuery({
     queryKey: ['ingredients'],
@@ -187,6 +183,15 @@ const IngredientsPage = () => {
     if (!formData.name || !formData.weight || !formData.price_ex_vat) {
       throw new Error('Please fill all required fields');
     }
+    if (!findUnit(formData.unit)) {
+      throw new Error(`Unknown unit "${formData.unit}"`);
+    }
+
+    const densityGPerMl = formData.density_g_per_ml === '' ? null : Number(formData.density_g_per_ml);
+    const eachWeightG = formData.each_weight_g === '' ? null : Number(formData.each_weight_g);
+    if ((densityGPerMl !== null && !(densityGPerMl > 0)) || (eachWeightG !== null && !(eachWeightG > 0))) {
+      throw new Error('Density and weight per item must be greater than zero');
+    }
 
     const price = Number(formData.price_ex_vat);
     const { price_ex_vat, vat_amount, total_price } = calculatePrices(
@@ -202,7 +207,9 @@ const IngredientsPage = () => {
       vat_amount,
       total_price,
       supplier: formData.supplier || null,
-      quantity: `${formData.weight} ${formData.unit}`
+      quantity: `${formData.weight} ${formData.unit}`,
+      density_g_per_ml: densityGPerMl,
+      each_weight_g: eachWeightG
     };
 
     if (editingId) {
@@ -226,13 +233,19 @@ const IngredientsPage = () => {
     mutationFn: performSaveIngredient,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['ingredients'] });
+      // Price changes re-cost the recipes that use the ingredient
+      queryClient.invalidateQueries({ queryKey: ['recipe-ingredients'] });
+      queryClient.invalidateQueries({ queryKey: ['recipe_versions'] });
+      queryClient.invalidateQueries({ queryKey: ['ingredient_price_impact'] });
       setFormData({
         name: '',
         weight: '',
         unit: 'kg',
         price_ex_vat: '',
         includes_vat: false,
-        supplier: ''
+        supplier: '',
+        density_g_per_ml: '',
+        each_weight_g: ''
       });
       setEditingId(null);
       toast(editingId ? "Ingredient updated successfully!" : "Ingredient added successfully!");
@@ -301,7 +314,9 @@ const IngredientsPage = () => {
       unit: ingredient.unit,
       price_ex_vat: ingredient.price_ex_vat.toString(),
       includes_vat: false, // Always show as ex VAT when editing
-      supplier: ingredient.supplier || ''
+      supplier: ingredient.supplier || '',
+      density_g_per_ml: ingredient.density_g_per_ml?.toString() ?? '',
+      each_weight_g: ingredient.each_weight_g?.toString() ?? ''
     });
     setEditingId(ingredient.id);
   };
@@ -314,7 +329,9 @@ const IngredientsPage = () => {
       unit: 'kg',
       price_ex_vat: '',
       includes_vat: false,
-      supplier: ''
+      supplier: '',
+      density_g_per_ml: '',
+      each_weight_g: ''
     });
     setEditingId(null);
   };
@@ -391,8 +408,8 @@ const IngredientsPage = () => {
             <div>
               <label className="block mb-1 text-sm font-medium">Unit</label>
               <SearchableDropdown
-                options={unitOptions}
-                value={formData.unit}
+                options={UNIT_OPTIONS}
+                value={findUnit(formData.unit)?.value ?? formData.unit}
                 onChange={(value) => setFormData({...formData, unit: value})}
                 placeholder="Select unit"
                 searchPlaceholder="Search units..."
@@ -454,6 +471,30 @@ const IngredientsPage = () => {
                 placeholder="Enter supplier name (optional)"
               />
             </div>
+
+            <div>
+              <label className="block mb-1 text-sm font-medium">Density (g per ml)</label>
+              <Input
+                type="number"
+                step="0.01"
+                value={formData.density_g_per_ml}
+                onChange={(e) => setFormData({...formData, density_g_per_ml: e.target.value})}
+                placeholder="e.g. 0.53 for flour (optional)"
+              />
+              <p className="text-xs text-gray-500 mt-1">Lets recipes measure this by volume or weight</p>
+            </div>
+
+            <div>
+              <label className="block mb-1 text-sm font-medium">Weight per Item (g)</label>
+              <Input
+                type="number"
+                step="0.1"
+                value={formData.each_weight_g}
+                onChange={(e) => setFormData({...formData, each_weight_g: e.target.value})}
+                placeholder="e.g. 50 for an egg (optional)"
+              />
+              <p className="text-xs text-gray-500 mt-1">Lets recipes count this in units</p>
+            </div>
             
             {/* Price Preview */}
             {previewPrices && (
@@ -527,6 +568,7 @@ const IngredientsPage = () => {
                     <TableHead>VAT (14%)</TableHead>
                     <TableHead>Total Price</TableHead>
                     <TableHead>Supplier</TableHead>
+                    <TableHead>Conversions</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -539,6 +581,12 @@ const IngredientsPage = () => {
                       <TableCell>R{ingredient.vat_amount.toFixed(2)}</TableCell>
                       <TableCell className="font-bold text-green-600">R{ingredient.total_price.toFixed(2)}</TableCell>
                       <TableCell>{ingredient.supplier || '-'}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {[
+                          ingredient.density_g_per_ml ? `${ingredient.density_g_per_ml} g/ml` : null,
+                          ingredient.each_weight_g ? `${ingredient.each_weight_g} g each` : null
+                        ].filter(Boolean).join(', ') || '-'}
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button 
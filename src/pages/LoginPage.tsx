@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Key, QrCode, LogIn } from 'lucide-react';
+import BarcodeScanner from '@/components/BarcodeScanner';
+import { useAuth } from '@/hooks/useAuth';
+import { canAccess, getHomeRoute, PosRole } from '@/lib/auth';
+
+interface PosUserLogin {
+  id: string;
+  username: string;
+  role: PosRole;
+  session_token: string;
+}
+
+const LoginPage = () => {
+  const { user, signIn } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [scannerKey, setScannerKey] = useState(0);
+
+  const redirectTo = (location.state as { from?: string } | null)?.from;
+
+  if (user) {
+    return <Navigate to={getHomeRoute(user.role)} replace />;
+  }
+
+  const completeSignIn = (posUser: PosUserLogin) => {
+    signIn({
+      id: posUser.id,
+      username: posUser.username,
+      role: posUser.role,
+      signed_in_at: new Date().toISOString(),
+      session_token: posUser.session_token,
+    });
+    toast.success(`Welcome, ${posUser.username}`);
+    const destination = redirectTo && canAccess(posUser.role, redirectTo)
+      ? redirectTo
+      : getHomeRoute(posUser.role);
+    navigate(destination, { replace: true });
+  };
+
+  const handlePasswordLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      toast.error('Please enter your username and password');
+      return;
+    }
+
+    setIsSigningIn(true);
+    try {
+      // Passwords are checked against the stored hash inside the database, which opens a session
+      const { data, error } = await supabase.rpc('start_pos_session', {
+        p_username: username.trim(),
+        p_password: password,
+      });
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        toast.error('Invalid username or password');
+        return;
+      }
+      completeSignIn(data[0] as PosUserLogin);
+    } catch (error) {
+      console.error('Login error:', error);
+      toast.error('Unable to sign in. Please try again.');
+    } finally {
+      setIsSigningIn(false);
+      setPassword('');
+    }
+  };
+
+  const handleBadgeScanned = async (code: string) => {
+    setIsSigningIn(true);
+    try {
+      const { data, error } = await supabase.rpc('start_pos_badge_session', {
+        p_qr_code: code.trim(),
+      });
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        toast.error('Badge not recognised');
+        // Remount the scanner so the camera starts again for another attempt
+        setScannerKey(prev => prev + 1);
+        return;
+      }
+      completeSignIn(data[0] as PosUserLogin);
+    } catch (error) {
+      console.error('Badge login error:', error);
+      toast.error('Unable to sign in. Please try again.');
+      setScannerKey(prev => prev + 1);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Kitchen & Bakery</CardTitle>
+          <CardDescription>Sign in to continue</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="password">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="password">
+                <Key className="h-4 w-4 mr-2" />
+                Password
+              </TabsTrigger>
+              <TabsTrigger value="badge">
+                <QrCode className="h-4 w-4 mr-2" />
+                Scan Badge
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={handlePasswordLogin} className="space-y-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="login-username">Username</Label>
+                  <Input
+                    id="login-username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isSigningIn}>
+                  <LogIn className="h-4 w-4 mr-2" />
+                  {isSigningIn ? 'Signing in...' : 'Sign In'}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="badge">
+              <BarcodeScanner key={scannerKey} onScan={handleBadgeScanned} />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,365 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, startOfDay } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, CheckCircle, Clock, LogOut, QrCode, Star, Upload, User } from 'lucide-react';
+import BarcodeScanner from '@/components/BarcodeScanner';
+import InspectionChecklistForm from '@/components/InspectionChecklistForm';
+import { useAreaChecklists } from '@/hooks/useAreaChecklists';
+import { completeAssignmentWithEvidence } from '@/lib/assignmentCompletion';
+import { CheckScores, isChecklistComplete } from '@/utils/checklists';
+
+// Hand the kiosk back to the sign-in screen when nobody has touched it for a while
+const IDLE_TIMEOUT = 120000;
+
+interface KioskStaff {
+  id: number;
+  name: string;
+}
+
+const MyTasksPage = () => {
+  const [staffMember, setStaffMember] = useState<KioskStaff | null>(null);
+  const [scannerKey, setScannerKey] = useState(0);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [afterPhoto, setAfterPhoto] = useState<File | null>(null);
+  const [checkScores, setCheckScores] = useState<CheckScores>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastActivity, setLastActivity] = useState(Date.now());
+  const { getAreaChecklist } = useAreaChecklists();
+
+  const { data: staffList = [] } = useQuery({
+    queryKey: ['staff', 'active'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('staff')
+        .select('id, name')
+        .eq('active', true)
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  // Today's open tasks for whoever is at the kiosk. Scheduled tasks belong to their scheduled day,
+  // ad-hoc ones to the day they were created.
+  const { data: tasks = [], isLoading: tasksLoading, refetch: refetchTasks } = useQuery({
+    queryKey: ['my_tasks', staffMember?.id],
+    queryFn: async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+
+      const { error: generateError } = await supabase.rpc('generate_scheduled_assignments', { p_date: today });
+      if (generateError) console.error('Failed to generate scheduled assignments:', generateError);
+
+      const { error: overdueError } = await supabase.rpc('mark_overdue_assignments');
+      if (overdueError) console.error('Failed to mark overdue assignments:', overdueError);
+
+      const { data, error } = await supabase
+        .from('assignments')
+        .select('*')
+        .eq('assignee_id', staffMember!.id)
+        .in('status', ['pending', 'in-progress', 'overdue'])
+        .or(`scheduled_for.eq.${today},and(scheduled_for.is.null,created_at.gte.${startOfDay(new Date()).toISOString()})`)
+        .order('due_at', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!staffMember
+  });
+
+  const { data: recentRatings = [] } = useQuery({
+    queryKey: ['my_ratings', staffMember?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ratings')
+        .select('*')
+        .eq('staff_id', staffMember!.id.toString())
+        .order('created_at', { ascending: false })
+        .limit(5);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!staffMember
+  });
+
+  const resetCompletion = useCallback(() => {
+    setCompletingId(null);
+    setAfterPhoto(null);
+    setCheckScores({});
+  }, []);
+
+  const finishSession = useCallback(() => {
+    resetCompletion();
+    setStaffMember(null);
+    setScannerKey(prev => prev + 1);
+  }, [resetCompletion]);
+
+  useEffect(() => {
+    if (!staffMember) return;
+    const timeout = setTimeout(finishSession, IDLE_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [staffMember, lastActivity, finishSession]);
+
+  const handleBadgeScanned = async (code: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('staff')
+        .select('id, name')
+        .eq('badge_code', code.trim())
+        .eq('active', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        toast.error('Badge not recognised');
+        setScannerKey(prev => prev + 1);
+        return;
+      }
+      setStaffMember(data);
+    } catch (error) {
+      console.error('Badge lookup error:', error);
+      toast.error('Unable to read badge. Please try again.');
+      setScannerKey(prev => prev + 1);
+    }
+  };
+
+  const handlePickName = (staffId: string) => {
+    const person = staffList.find(staff => staff.id.toString() === staffId);
+    if (person) setStaffMember(person);
+  };
+
+  const startTask = async (taskId: string) => {
+    try {
+      const { error } = await supabase
+        .from('assignments')
+        .update({ status: 'in-progress' })
+        .eq('id', taskId);
+
+      if (error) throw error;
+      toast.success('Task started');
+      refetchTasks();
+    } catch (error) {
+      console.error('Error starting task:', error);
+      toast.error('Could not start the task');
+    }
+  };
+
+  const completeTask = async (task: { id: string; area: string }) => {
+    const checklist = getAreaChecklist(task.area);
+    if (!afterPhoto) {
+      toast.error('Take an after photo first');
+      return;
+    }
+    if (!isChecklistComplete(checklist, checkScores)) {
+      toast.error('Score every item on the checklist');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await completeAssignmentWithEvidence(task, afterPhoto, checklist, checkScores);
+      toast.success(`${task.area} marked complete`);
+      resetCompletion();
+      refetchTasks();
+    } catch (error) {
+      console.error('Error completing task:', error);
+      toast.error('Could not complete the task');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!staffMember) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">My Tasks</CardTitle>
+            <CardDescription>Scan your badge or pick your name</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="badge">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="badge">
+                  <QrCode className="h-4 w-4 mr-2" />
+                  Scan Badge
+                </TabsTrigger>
+                <TabsTrigger value="name">
+                  <User className="h-4 w-4 mr-2" />
+                  Pick Name
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="badge">
+                <BarcodeScanner key={scannerKey} onScan={handleBadgeScanned} />
+              </TabsContent>
+
+              <TabsContent value="name">
+                <Select onValueChange={handlePickName}>
+                  <SelectTrigger className="h-12 text-lg">
+                    <SelectValue placeholder="Who are you?" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {staffList.map(staff => (
+                      <SelectItem key={staff.id} value={staff.id.toString()}>{staff.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4" onPointerDown={() => setLastActivity(Date.now())}>
+      <div className="max-w-2xl mx-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h1 className="text-2xl font-bold">Hi {staffMember.name}</h1>
+            <p className="text-gray-600">{format(new Date(), 'EEEE, d MMMM')}</p>
+          </div>
+          <Button variant="outline" size="lg" onClick={finishSession}>
+            <LogOut className="h-5 w-5 mr-2" />
+            Finish
+          </Button>
+        </div>
+
+        <h2 className="text-lg font-semibold mb-2">Today's Tasks</h2>
+        {tasksLoading ? (
+          <p className="text-center text-gray-500 py-6">Loading your tasks...</p>
+        ) : tasks.length === 0 ? (
+          <Card className="mb-6">
+            <CardContent className="py-8 text-center text-gray-500">
+              <CheckCircle className="h-10 w-10 mx-auto mb-2 text-green-500" />
+              Nothing left to do today
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3 mb-6">
+            {tasks.map(task => {
+              const checklist = getAreaChecklist(task.area);
+              return (
+                <Card key={task.id} className={task.status === 'overdue' ? 'border-red-400' : ''}>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <h3 className="font-semibold text-lg">{task.area}</h3>
+                        {task.due_at && (
+                          <p className={`text-sm flex items-center gap-1 ${task.status === 'overdue' ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                            <Clock className="h-4 w-4" />
+                            Due {format(new Date(task.due_at), 'HH:mm')}
+                          </p>
+                        )}
+                      </div>
+                      <Badge variant={task.status === 'overdue' ? 'destructive' : 'secondary'} className="capitalize">
+                        {task.status.replace('-', ' ')}
+                      </Badge>
+                    </div>
+                    {task.instructions && <p className="text-sm text-gray-700">{task.instructions}</p>}
+                    {task.rejection_comment && (
+                      <p className="text-sm text-red-600">Sent back: {task.rejection_comment}</p>
+                    )}
+
+                    {completingId === task.id ? (
+                      <div className="space-y-3 p-3 border rounded bg-green-50">
+                        <label className="cursor-pointer block">
+                          <div className="flex items-center justify-center gap-2 py-3 border border-gray-300 rounded-md bg-white hover:bg-gray-50">
+                            {afterPhoto ? <CheckCircle className="h-5 w-5 text-green-600" /> : <Camera className="h-5 w-5" />}
+                            <span className="truncate">{afterPhoto ? afterPhoto.name : 'Take after photo'}</span>
+                          </div>
+                          <input
+                            type="file"
+                            accept="image/*"
+                            capture="environment"
+                            className="hidden"
+                            onChange={(e) => setAfterPhoto(e.target.files?.[0] || null)}
+                          />
+                        </label>
+                        {checklist.length > 0 && (
+                          <InspectionChecklistForm
+                            idPrefix={`kiosk-${task.id}`}
+                            items={checklist}
+                            scores={checkScores}
+                            onScoreChange={(itemId, score) => setCheckScores(prev => ({ ...prev, [itemId]: score }))}
+                          />
+                        )}
+                        <div className="flex gap-2">
+                          <Button
+                            size="lg"
+                            className="flex-1 bg-green-600 hover:bg-green-700"
+                            onClick={() => completeTask(task)}
+                            disabled={!afterPhoto || isSaving}
+                          >
+                            <Upload className="h-5 w-5 mr-2" />
+                            {isSaving ? 'Saving...' : 'Mark Complete'}
+                          </Button>
+                          <Button size="lg" variant="outline" onClick={resetCompletion}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        {/* Overdue tasks stay overdue until they are done, so only pending ones can be started */}
+                        {task.status === 'pending' && (
+                          <Button size="lg" variant="outline" className="flex-1" onClick={() => startTask(task.id)}>
+                            Start
+                          </Button>
+                        )}
+                        <Button
+                          size="lg"
+                          className="flex-1 bg-green-600 hover:bg-green-700"
+                          onClick={() => {
+                            resetCompletion();
+                            setCompletingId(task.id);
+                          }}
+                        >
+                          Complete
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <h2 className="text-lg font-semibold mb-2">My Recent Ratings</h2>
+        {recentRatings.length === 0 ? (
+          <p className="text-gray-500">No ratings yet</p>
+        ) : (
+          <div className="space-y-2">
+            {recentRatings.map(rating => (
+              <Card key={rating.id}>
+                <CardContent className="p-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">{format(new Date(rating.created_at), 'd MMM yyyy')}</span>
+                    <span className="flex items-center gap-1 font-semibold">
+                      <Star className="h-4 w-4 text-yellow-500 fill-yellow-500" />
+                      {rating.overall}
+                    </span>
+                  </div>
+                  {rating.comment && <p className="text-sm mt-1">{rating.comment}</p>}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyTasksPage;
@@ -0,0 +1,152 @@
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, MapPin, RefreshCw, User } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import { useOverdueAssignments } from '@/hooks/useOverdueAssignments';
+import { formatOverdueBy } from '@/utils/assignments';
+
+interface OverdueGroup {
+  name: string;
+  count: number;
+  oldestDueAt: string;
+}
+
+const groupOverdue = <T extends { due_at: string | null }>(items: T[], getName: (item: T) => string): OverdueGroup[] => {
+  const groups: Record<string, OverdueGroup> = {};
+  items.forEach(item => {
+    const name = getName(item);
+    const dueAt = item.due_at || '';
+    const group = groups[name] || { name, count: 0, oldestDueAt: dueAt };
+    group.count += 1;
+    if (dueAt < group.oldestDueAt) group.oldestDueAt = dueAt;
+    groups[name] = group;
+  });
+  return Object.values(groups).sort((a, b) => b.count - a.count || a.oldestDueAt.localeCompare(b.oldestDueAt));
+};
+
+const OverdueAssignmentsPage = () => {
+  const navigate = useNavigate();
+  const { data: overdue = [], isLoading, isFetching, refetch } = useOverdueAssignments();
+
+  const byArea = groupOverdue(overdue, assignment => assignment.area);
+  const byAssignee = groupOverdue(overdue, assignment => assignment.assignee_name);
+
+  const renderGroups = (title: string, icon: React.ReactNode, groups: OverdueGroup[]) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {icon}
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing overdue</p>
+        ) : (
+          <div className="space-y-2">
+            {groups.map(group => (
+              <div key={group.name} className="flex justify-between items-center p-2 border rounded">
+                <span className="font-medium">{group.name}</span>
+                <div className="flex items-center gap-2">
+                  {group.oldestDueAt && (
+                    <span className="text-xs text-gray-500">oldest {formatOverdueBy(group.oldestDueAt)}</span>
+                  )}
+                  <Badge variant="destructive">{group.count}</Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <div className="container mx-auto p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-3xl font-bold">Overdue Tasks</h1>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-8">Checking deadlines...</p>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-2 gap-4 mb-6">
+              {renderGroups('By Area', <MapPin className="h-5 w-5 text-red-500" />, byArea)}
+              {renderGroups('By Assignee', <User className="h-5 w-5 text-red-500" />, byAssignee)}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <AlertCircle className="h-5 w-5 text-red-600" />
+                  {overdue.length} overdue {overdue.length === 1 ? 'task' : 'tasks'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Area</TableHead>
+                      <TableHead>Assigned To</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead>Overdue By</TableHead>
+                      <TableHead>Instructions</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overdue.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                          All tasks are on time
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      overdue.map(assignment => (
+                        <TableRow key={assignment.id}>
+                          <TableCell className="font-medium">{assignment.area}</TableCell>
+                          <TableCell>{assignment.assignee_name}</TableCell>
+                          <TableCell>
+                            {assignment.due_at && format(new Date(assignment.due_at), 'MMM dd, HH:mm')}
+                          </TableCell>
+                          <TableCell className="text-red-600 font-medium">
+                            {assignment.due_at && formatOverdueBy(assignment.due_at)}
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate text-sm text-gray-600">
+                            {assignment.instructions || '-'}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/assignments?id=${assignment.id}`)}
+                            >
+                              Open
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+      <Navigation />
+    </div>
+  );
+};
+
+export default OverdueAssignmentsPage;
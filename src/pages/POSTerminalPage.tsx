@@ -9,9 +9,19 @@ import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { ShoppingCart, Plus, Minus, Trash2, CreditCard, DollarSign, Receipt, Search, X, Scan, BarChart3 } from "lucide-react";
+import { ShoppingCart, Plus, Minus, Trash2, CreditCard, DollarSign, Receipt, Search, X, Scan, BarChart3, RotateCcw, WifiOff, RefreshCw } from "lucide-react";
 import BarcodeScanner from "@/components/BarcodeScanner";
 import Navigation from "@/components/Navigation";
+import { useActivePromotions } from "@/hooks/useActivePromotions";
+import { useAuth } from "@/hooks/useAuth";
+import { useProductStock } from "@/hooks/useProductStock";
+import { useReceiptPrinter } from "@/hooks/useReceiptPrinter";
+import { calculateLineTax } from "@/utils/tax";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { isNetworkError, SalePayload, submitSale } from "@/lib/offlineSales";
+import { PRODUCTS_STORE, getAll, replaceAll } from "@/lib/offlineStore";
+import { RECEIPT_WIDTHS, ReceiptData, ReceiptWidth } from "@/utils/receipt";
+import { PAYMENT_METHODS, PaymentMethod, Tender, buildPaymentRows, calculateChange, getPaymentMethodLabel } from "@/utils/payments";
 import { useNavigate } from 'react-router-dom';
 
 interface CartItem {
@@ -19,8 +29,14 @@ interface CartItem {
   product_id: string;
   product_name: string;
   quantity: number;
+  original_price: number;
   unit_price: number;
   line_total: number;
+  discount_percentage: number;
+  discount_amount: number;
+  promotion_id: string | null;
+  tax_class: string;
+  price_includes_tax: boolean;
 }
 
 interface Product {
@@ -30,6 +46,8 @@ interface Product {
   price: number;
   category: string;
   show_on_pos?: boolean;
+  tax_class?: string;
+  price_includes_tax?: boolean;
 }
 
 const POSTerminalPage = () => {
@@ -37,14 +55,22 @@ const POSTerminalPage = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [customerName, setCustomerName] = useState('');
   const [showPayment, setShowPayment] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
   const [amountPaid, setAmountPaid] = useState('');
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [lastReceipt, setLastReceipt] = useState<ReceiptData | null>(null);
   const [showScanner, setShowScanner] = useState(false);
   const [activeCategory, setActiveCategory] = useState<string>('');
   const queryClient = useQueryClient();
   const navigate = useNavigate();
+  const { getPromotionForProduct } = useActivePromotions();
+  const { user } = useAuth();
+  const { getOnHand } = useProductStock();
+  const { paperWidth, setPaperWidth, printReceiptData } = useReceiptPrinter();
+  const { isOnline, pendingCount, isSyncing, queueSale, syncPendingSales } = useOfflineSync();
 
-  // Fetch all products (for search/barcode), but display only enabled ones
+  // Fetch all products (for search/barcode), but display only enabled ones.
+  // The catalogue is cached on the till so it keeps selling when the connection drops.
   const { data: products = [] } = useQuery({
     queryKey: ['products'],
     queryFn: async () => {
@@ -52,7 +78,16 @@ const POSTerminalPage = () => {
         .from('products')
         .select('*')
         .order('name');
-      if (error) throw error;
+
+      if (error) {
+        const cached = await getAll<Product>(PRODUCTS_STORE);
+        if (isNetworkError(error) && cached.length > 0) {
+          return cached.sort((a, b) => a.name.localeCompare(b.name));
+        }
+        throw error;
+      }
+
+      await replaceAll(PRODUCTS_STORE, data);
       return data as Product[];
     },
   });
@@ -68,25 +103,52 @@ const POSTerminalPage = () => {
     (activeCategory === '' || product.category === activeCategory)
   );
 
-  // Calculate totals
-  const subtotal = cart.reduce((sum, item) => sum + item.line_total, 0);
-  const taxRate = 0.15; // 15% VAT
-  const taxAmount = subtotal * taxRate;
-  const total = subtotal + taxAmount;
+  // Shelf price after any promotion running today
+  const getSellingPrice = (product: Product) => {
+    const price = product.price || 10.00;
+    const promotion = getPromotionForProduct(product.id);
+    if (!promotion) return price;
+    return Math.round(price * (100 - promotion.discount_percentage)) / 100;
+  };
+
+  // Calculate totals - VAT is worked out per line from each product's tax class
+  const lineTaxes = cart.map(item => calculateLineTax(item.line_total, item.tax_class, item.price_includes_tax));
+  const subtotal = lineTaxes.reduce((sum, line) => sum + line.net, 0);
+  const discountAmount = cart.reduce((sum, item) => sum + item.discount_amount, 0);
+  const taxAmount = lineTaxes.reduce((sum, line) => sum + line.tax, 0);
+  const total = lineTaxes.reduce((sum, line) => sum + line.gross, 0);
+
+  // Warn (but don't block) when the till sells more than the kitchen has produced
+  const warnIfOverselling = (productId: string, productName: string, quantity: number) => {
+    const onHand = getOnHand(productId);
+    if (quantity > onHand) {
+      toast.warning(`Only ${Math.max(0, onHand)} ${productName} on hand - selling ${quantity}`);
+    }
+  };
 
   // Add item to cart
   const addToCart = (product: Product) => {
     const existingItem = cart.find(item => item.product_id === product.id);
+    warnIfOverselling(product.id, product.name, (existingItem?.quantity || 0) + 1);
     if (existingItem) {
       updateQuantity(existingItem.id, existingItem.quantity + 1);
     } else {
+      const promotion = getPromotionForProduct(product.id);
+      const originalPrice = product.price || 10.00;
+      const unitPrice = getSellingPrice(product);
       const newItem: CartItem = {
         id: `${product.id}-${Date.now()}`,
         product_id: product.id,
         product_name: product.name,
         quantity: 1,
-        unit_price: product.price || 10.00,
-        line_total: product.price || 10.00,
+        original_price: originalPrice,
+        unit_price: unitPrice,
+        line_total: unitPrice,
+        discount_percentage: promotion?.discount_percentage || 0,
+        discount_amount: originalPrice - unitPrice,
+        promotion_id: promotion?.id || null,
+        tax_class: product.tax_class || 'standard',
+        price_includes_tax: product.price_includes_tax ?? true,
       };
       setCart([...cart, newItem]);
     }
@@ -101,7 +163,12 @@ const POSTerminalPage = () => {
     }
     setCart(cart.map(item => 
       item.id === itemId 
-        ? { ...item, quantity: newQuantity, line_total: item.unit_price * newQuantity }
+        ? {
+            ...item,
+            quantity: newQuantity,
+            line_total: item.unit_price * newQuantity,
+            discount_amount: (item.original_price - item.unit_price) * newQuantity,
+          }
         : item
     ));
   };
@@ -116,67 +183,153 @@ const POSTerminalPage = () => {
     setCart([]);
     setCustomerName('');
     setAmountPaid('');
+    setTenders([]);
+    setPaymentMethod('cash');
+  };
+
+  // Tenders already taken against the current sale
+  const tenderedTotal = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  const balanceDue = Math.max(0, Math.round((total - tenderedTotal) * 100) / 100);
+  const pendingAmount = parseFloat(amountPaid);
+  const changeDue = calculateChange(
+    pendingAmount > 0
+      ? [...tenders, { id: 'pending', method: paymentMethod, amount: pendingAmount }]
+      : tenders,
+    total
+  );
+
+  // Turn the amount being keyed in into a tender, or explain why it can't be taken
+  const buildTender = (): Tender | null => {
+    const amount = parseFloat(amountPaid);
+    if (!amount || amount <= 0) {
+      toast.error('Enter the amount tendered');
+      return null;
+    }
+    if (paymentMethod !== 'cash' && amount > balanceDue) {
+      toast.error(`${getPaymentMethodLabel(paymentMethod)} cannot exceed the balance of R${balanceDue.toFixed(2)}`);
+      return null;
+    }
+    return { id: `${Date.now()}`, method: paymentMethod, amount };
+  };
+
+  const addTender = () => {
+    if (balanceDue <= 0) {
+      toast.error('The sale is already paid in full');
+      return;
+    }
+    const tender = buildTender();
+    if (!tender) return;
+    setTenders(prev => [...prev, tender]);
+    setAmountPaid('');
   };
 
-  // Process sale mutation
+  const removeTender = (tenderId: string) => {
+    setTenders(prev => prev.filter(tender => tender.id !== tenderId));
+  };
+
+  // Process sale mutation. IDs are generated here so a sale taken offline can be replayed safely later.
   const processSaleMutation = useMutation({
-    mutationFn: async ({ paymentData }: { paymentData: any }) => {
-      // Create transaction
-      const transactionNumber = `TXN-${Date.now()}`;
-      const { data: transaction, error: txnError } = await supabase
-        .from('sales_transactions')
-        .insert({
-          transaction_number: transactionNumber,
+    mutationFn: async ({ tenders }: { tenders: Tender[] }) => {
+      const methods = Array.from(new Set(tenders.map(tender => tender.method)));
+      const transactionId = crypto.randomUUID();
+      const soldAt = new Date().toISOString();
+
+      const sale: SalePayload = {
+        id: transactionId,
+        transaction: {
+          id: transactionId,
+          transaction_number: `TXN-${Date.now()}`,
+          cashier_id: user?.id || null,
           customer_name: customerName || null,
           subtotal,
           tax_amount: taxAmount,
+          discount_amount: discountAmount,
           total_amount: total,
-          payment_method: paymentMethod,
-        })
-        .select()
-        .single();
-
-      if (txnError) throw txnError;
-
-      // Create transaction items
-      const items = cart.map(item => ({
-        transaction_id: transaction.id,
-        product_id: item.product_id,
-        product_name: item.product_name,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        line_total: item.line_total,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('sales_transaction_items')
-        .insert(items);
-
-      if (itemsError) throw itemsError;
-
-      // Create payment record
-      const changeGiven = Math.max(0, parseFloat(amountPaid) - total);
-      const { error: paymentError } = await supabase
-        .from('payment_transactions')
-        .insert({
-          sales_transaction_id: transaction.id,
-          payment_method: paymentMethod,
-          amount_paid: parseFloat(amountPaid),
-          change_given: changeGiven,
-        });
-
-      if (paymentError) throw paymentError;
-
-      return { transaction, changeGiven };
+          payment_method: methods.length > 1 ? 'split' : methods[0],
+          transaction_date: soldAt,
+        },
+        items: cart.map((item, index) => ({
+          id: crypto.randomUUID(),
+          transaction_id: transactionId,
+          product_id: item.product_id,
+          product_name: item.product_name,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          line_total: item.line_total,
+          discount_amount: item.discount_amount,
+          promotion_id: item.promotion_id,
+          tax_class: item.tax_class,
+          tax_rate: lineTaxes[index].rate,
+          tax_amount: lineTaxes[index].tax,
+          net_amount: lineTaxes[index].net,
+        })),
+        // One payment record per tender
+        payments: buildPaymentRows(tenders, total).map(payment => ({
+          id: crypto.randomUUID(),
+          sales_transaction_id: transactionId,
+          created_at: soldAt,
+          ...payment,
+        })),
+      };
+
+      let queued = false;
+      if (!navigator.onLine) {
+        await queueSale(sale);
+        queued = true;
+      } else {
+        try {
+          await submitSale(sale);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          await queueSale(sale);
+          queued = true;
+        }
+      }
+
+      return { sale, queued, changeGiven: calculateChange(tenders, total) };
     },
     onSuccess: (data) => {
-      toast.success(`Sale completed! Transaction: ${data.transaction.transaction_number}`);
+      const transactionNumber = data.sale.transaction.transaction_number;
+      if (data.queued) {
+        toast.warning(`Offline - sale ${transactionNumber} saved and will sync when the connection is back`);
+      } else {
+        toast.success(`Sale completed! Transaction: ${transactionNumber}`);
+      }
       if (data.changeGiven > 0) {
         toast.info(`Change due: R${data.changeGiven.toFixed(2)}`);
       }
       clearCart();
       setShowPayment(false);
+
+      // The receipt is built from the sale itself so it prints even when offline
+      const receipt: ReceiptData = {
+        transaction_number: transactionNumber,
+        transaction_date: data.sale.transaction.transaction_date!,
+        customer_name: data.sale.transaction.customer_name ?? null,
+        cashier_name: user?.username || null,
+        total_amount: data.sale.transaction.total_amount ?? 0,
+        discount_amount: data.sale.transaction.discount_amount ?? 0,
+        payment_status: 'completed',
+        items: data.sale.items.map(item => ({
+          product_name: item.product_name,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          line_total: item.line_total,
+          discount_amount: item.discount_amount ?? 0,
+          tax_class: item.tax_class ?? 'standard',
+          tax_amount: item.tax_amount ?? 0,
+          net_amount: item.net_amount ?? 0,
+        })),
+        payments: data.sale.payments.map(payment => ({
+          payment_method: payment.payment_method,
+          amount_paid: payment.amount_paid,
+          change_given: payment.change_given ?? 0,
+        })),
+      };
+      setLastReceipt(receipt);
+      printReceiptData(receipt);
       queryClient.invalidateQueries({ queryKey: ['sales'] });
+      queryClient.invalidateQueries({ queryKey: ['product_stock'] });
     },
     onError: (error) => {
       console.error('Sale processing error:', error);
@@ -190,17 +343,21 @@ const POSTerminalPage = () => {
       return;
     }
     
-    if (paymentMethod === 'cash') {
-      const paid = parseFloat(amountPaid);
-      if (!paid || paid < total) {
-        toast.error('Insufficient payment amount');
-        return;
-      }
+    // Anything still keyed in counts as the final tender
+    let saleTenders = tenders;
+    if (amountPaid) {
+      const tender = buildTender();
+      if (!tender) return;
+      saleTenders = [...tenders, tender];
+    }
+
+    const paid = saleTenders.reduce((sum, tender) => sum + tender.amount, 0);
+    if (paid < total) {
+      toast.error(`Balance of R${(total - paid).toFixed(2)} still due`);
+      return;
     }
 
-    processSaleMutation.mutate({
-      paymentData: { method: paymentMethod, amount: parseFloat(amountPaid) }
-    });
+    processSaleMutation.mutate({ tenders: saleTenders });
   };
 
   const handleBarcodeScanned = (barcode: string) => {
@@ -224,14 +381,41 @@ const POSTerminalPage = () => {
               <CardHeader className="bg-blue-600 text-white">
                 <div className="flex justify-between items-center">
                   <CardTitle className="text-center text-2xl">TEST RETAIL POS</CardTitle>
-                  <Button 
-                    variant="outline" 
-                    className="bg-white text-blue-600 hover:bg-gray-100"
-                    onClick={() => navigate('/stock-information')}
-                  >
-                    <BarChart3 className="h-4 w-4 mr-1" />
-                    Stock Info
-                  </Button>
+                  <div className="flex gap-2 items-center">
+                    {!isOnline && (
+                      <Badge variant="destructive" className="h-8">
+                        <WifiOff className="h-4 w-4 mr-1" />
+                        Offline
+                      </Badge>
+                    )}
+                    {pendingCount > 0 && (
+                      <Button
+                        variant="outline"
+                        className="bg-amber-100 text-amber-800 hover:bg-amber-200"
+                        onClick={syncPendingSales}
+                        disabled={!isOnline || isSyncing}
+                      >
+                        <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                        {pendingCount} pending sync
+                      </Button>
+                    )}
+                    <Button 
+                      variant="outline" 
+                      className="bg-white text-blue-600 hover:bg-gray-100"
+                      onClick={() => navigate('/returns')}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Returns
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      className="bg-white text-blue-600 hover:bg-gray-100"
+                      onClick={() => navigate('/stock-information')}
+                    >
+                      <BarChart3 className="h-4 w-4 mr-1" />
+                      Stock Info
+                    </Button>
+                  </div>
                 </div>
                 <div className="flex gap-2 mt-4">
                   <Input
@@ -307,7 +491,20 @@ const POSTerminalPage = () => {
                       <CardContent className="p-2 text-center">
                         <h3 className="font-medium text-xs h-10 overflow-hidden">{product.name}</h3>
                         <p className="text-[10px] text-gray-500">{product.code}</p>
-                        <p className="text-sm font-bold text-green-600 mt-1">R{product.price?.toFixed(2) || '10.00'}</p>
+                        <p className={`text-[10px] ${getOnHand(product.id) > 0 ? 'text-gray-500' : 'text-orange-600 font-semibold'}`}>
+                          On hand: {getOnHand(product.id)}
+                        </p>
+                        {getPromotionForProduct(product.id) ? (
+                          <>
+                            <p className="text-[10px] text-gray-400 line-through mt-1">R{product.price?.toFixed(2) || '10.00'}</p>
+                            <p className="text-sm font-bold text-red-600">R{getSellingPrice(product).toFixed(2)}</p>
+                            <Badge className="text-[10px] px-1 bg-red-100 text-red-800 hover:bg-red-200">
+                              -{getPromotionForProduct(product.id)?.discount_percentage}%
+                            </Badge>
+                          </>
+                        ) : (
+                          <p className="text-sm font-bold text-green-600 mt-1">R{product.price?.toFixed(2) || '10.00'}</p>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -346,8 +543,21 @@ const POSTerminalPage = () => {
                             <p className="font-medium truncate">{item.product_name}</p>
                             <div className="flex justify-between text-xs text-gray-500">
                               <span>Qty: {item.quantity}</span>
-                              <span>R{item.unit_price.toFixed(2)}</span>
+                              <span>
+                                {item.discount_percentage > 0 && (
+                                  <span className="line-through mr-1">R{item.original_price.toFixed(2)}</span>
+                                )}
+                                R{item.unit_price.toFixed(2)}
+                              </span>
                             </div>
+                            {item.quantity > getOnHand(item.product_id) && (
+                              <p className="text-xs text-orange-600">
+                                Exceeds stock on hand ({Math.max(0, getOnHand(item.product_id))})
+                              </p>
+                            )}
+                            {item.discount_percentage > 0 && (
+                              <p className="text-xs text-red-600">Promo -{item.discount_percentage}% (saves R{item.discount_amount.toFixed(2)})</p>
+                            )}
                           </div>
                           <div className="flex items-center gap-1">
                             <span className="font-bold">R{item.line_total.toFixed(2)}</span>
@@ -369,12 +579,18 @@ const POSTerminalPage = () => {
                   
                   {/* Totals */}
                   <div className="space-y-1 text-sm">
+                    {discountAmount > 0 && (
+                      <div className="flex justify-between text-red-600">
+                        <span>Promotions:</span>
+                        <span>-R{discountAmount.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span>Subtotal:</span>
                       <span>R{subtotal.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>VAT (15%):</span>
+                      <span>VAT:</span>
                       <span>R{taxAmount.toFixed(2)}</span>
                     </div>
                     <Separator />
@@ -400,6 +616,28 @@ const POSTerminalPage = () => {
                       Pay
                     </Button>
                   </div>
+                  <div className="flex gap-2 mt-2">
+                    <Select value={paperWidth} onValueChange={(value) => setPaperWidth(value as ReceiptWidth)}>
+                      <SelectTrigger className="w-24 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RECEIPT_WIDTHS.map(width => (
+                          <SelectItem key={width.value} value={width.value}>{width.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 h-9"
+                      disabled={!lastReceipt}
+                      onClick={() => lastReceipt && printReceiptData(lastReceipt, { reprint: true })}
+                    >
+                      <Receipt className="h-4 w-4 mr-1" />
+                      Reprint Last Receipt
+                    </Button>
+                  </div>
                 </div>
 
                 {/* Customer Name */}
@@ -446,37 +684,71 @@ const POSTerminalPage = () => {
             <DialogTitle>Process Payment</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            <div className="flex justify-between font-bold text-lg">
+              <span>Total Due:</span>
+              <span>R{total.toFixed(2)}</span>
+            </div>
+
+            {/* Tenders taken so far */}
+            {tenders.length > 0 && (
+              <div className="space-y-1 border rounded p-2">
+                {tenders.map((tender) => (
+                  <div key={tender.id} className="flex justify-between items-center text-sm">
+                    <span>{getPaymentMethodLabel(tender.method)}</span>
+                    <div className="flex items-center gap-2">
+                      <span>R{tender.amount.toFixed(2)}</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0"
+                        onClick={() => removeTender(tender.id)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Separator />
+                <div className="flex justify-between text-sm font-medium">
+                  <span>Balance Due:</span>
+                  <span>R{balanceDue.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="text-sm font-medium">Payment Method</label>
-              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="cash">Cash</SelectItem>
-                  <SelectItem value="card">Card</SelectItem>
-                  <SelectItem value="eft">EFT</SelectItem>
+                  {PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <div>
-              <label className="text-sm font-medium">Amount Paid</label>
-              <Input
-                type="number"
-                step="0.01"
-                placeholder="0.00"
-                value={amountPaid}
-                onChange={(e) => setAmountPaid(e.target.value)}
-              />
-            </div>
-            <div className="flex justify-between font-bold text-lg">
-              <span>Total Due:</span>
-              <span>R{total.toFixed(2)}</span>
+              <label className="text-sm font-medium">Amount Tendered</label>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder={balanceDue.toFixed(2)}
+                  value={amountPaid}
+                  onChange={(e) => setAmountPaid(e.target.value)}
+                />
+                <Button variant="outline" onClick={addTender} disabled={balanceDue <= 0}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
             </div>
-            {paymentMethod === 'cash' && amountPaid && parseFloat(amountPaid) > total && (
+            {changeDue > 0 && (
               <div className="flex justify-between text-green-600">
                 <span>Change:</span>
-                <span>R{(parseFloat(amountPaid) - total).toFixed(2)}</span>
+                <span>R{changeDue.toFixed(2)}</span>
               </div>
             )}
             <Button 
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { endOfDay, endOfMonth, endOfWeek, format, startOfDay, startOfMonth, startOfWeek, subDays } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DateRangePicker } from '@/components/DateRangePicker';
+import Navigation from '@/components/Navigation';
+import {
+  buildPriceImpacts,
+  CostMovement,
+  summarizeProductMovements,
+  summarizeRecipeMovements,
+} from '@/utils/priceImpact';
+
+type TimeRange = 'week' | 'month' | 'last30' | 'custom';
+
+const money = (value: number) => `R${value.toFixed(2)}`;
+
+const signedMoney = (value: number) => `${value > 0 ? '+' : value < 0 ? '-' : ''}R${Math.abs(value).toFixed(4)}`;
+
+const signedPercent = (value: number | null) =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+// Cost going up is bad news for margins
+const getChangeColor = (change: number) => {
+  if (change > 0) return 'text-red-600';
+  if (change < 0) return 'text-green-600';
+  return '';
+};
+
+const MovementTable = ({ rows, nameLabel, emptyText }: { rows: CostMovement[]; nameLabel: string; emptyText: string }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{nameLabel}</TableHead>
+        <TableHead className="text-right">Cost per Unit Before</TableHead>
+        <TableHead className="text-right">Cost per Unit After</TableHead>
+        <TableHead className="text-right">Change</TableHead>
+        <TableHead className="text-right">Change %</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={5} className="text-center py-4 text-gray-500">{emptyText}</TableCell>
+        </TableRow>
+      ) : (
+        rows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.name}</TableCell>
+            <TableCell className="text-right">R{row.old_cost_per_unit.toFixed(4)} / {row.unit}</TableCell>
+            <TableCell className="text-right">R{row.new_cost_per_unit.toFixed(4)} / {row.unit}</TableCell>
+            <TableCell className={`text-right ${getChangeColor(row.change)}`}>{signedMoney(row.change)}</TableCell>
+            <TableCell className={`text-right ${getChangeColor(row.change)}`}>{signedPercent(row.change_percent)}</TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+);
+
+const PriceImpactPage = () => {
+  const [timeRange, setTimeRange] = useState<TimeRange>('month');
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+
+  const getPeriod = (): { from: Date; to: Date } | null => {
+    const now = new Date();
+    switch (timeRange) {
+      case 'week':
+        return { from: startOfWeek(now), to: endOfWeek(now) };
+      case 'month':
+        return { from: startOfMonth(now), to: endOfMonth(now) };
+      case 'last30':
+        return { from: startOfDay(subDays(now, 29)), to: endOfDay(now) };
+      case 'custom':
+        return dateRange?.from && dateRange?.to
+          ? { from: startOfDay(dateRange.from), to: endOfDay(dateRange.to) }
+          : null;
+    }
+  };
+
+  const period = getPeriod();
+  const fromDate = period ? format(period.from, 'yyyy-MM-dd') : '';
+  const toDate = period ? format(period.to, 'yyyy-MM-dd') : '';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['ingredient_price_impact', fromDate, toDate],
+    queryFn: async () => {
+      const from = startOfDay(new Date(`${fromDate}T00:00:00`)).toISOString();
+      const to = endOfDay(new Date(`${toDate}T00:00:00`)).toISOString();
+
+      const [changes, productRecipes] = await Promise.all([
+        supabase
+          .from('ingredient_price_changes')
+          .select('*, recipe_cost_changes(recipe_id, recipe_name, unit, old_cost_per_unit, new_cost_per_unit)')
+          .gte('changed_at', from)
+          .lte('changed_at', to)
+          .order('changed_at', { ascending: false }),
+        supabase
+          .from('product_recipes')
+          .select('product_id, recipe_id, is_default, products(name, code)'),
+      ]);
+
+      const failed = [changes, productRecipes].find(result => result.error);
+      if (failed?.error) throw failed.error;
+
+      const links = (productRecipes.data || []).map(link => ({
+        product_id: link.product_id,
+        recipe_id: link.recipe_id,
+        is_default: link.is_default,
+        product_name: link.products?.name || 'Unknown product',
+        product_code: link.products?.code || 'N/A',
+      }));
+
+      return { impacts: buildPriceImpacts(changes.data || [], links), links };
+    },
+    enabled: !!period,
+  });
+
+  const impacts = data?.impacts || [];
+  const recipeMovements = summarizeRecipeMovements(impacts);
+  const productMovements = summarizeProductMovements(recipeMovements, data?.links || []);
+  const increases = recipeMovements.filter(recipe => recipe.change > 0).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <div className="container mx-auto p-4">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <h1 className="text-3xl font-bold">Ingredient Price Impact</h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">This week</SelectItem>
+                <SelectItem value="month">This month</SelectItem>
+                <SelectItem value="last30">Last 30 days</SelectItem>
+                <SelectItem value="custom">Custom range</SelectItem>
+              </SelectContent>
+            </Select>
+            {timeRange === 'custom' && (
+              <DateRangePicker dateRange={dateRange} onDateRangeChange={setDateRange} />
+            )}
+          </div>
+        </div>
+
+        {!period ? (
+          <p className="text-center text-gray-500 py-8">Pick a date range</p>
+        ) : isLoading ? (
+          <p className="text-center text-gray-500 py-8">Loading price changes...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Price changes</p>
+                  <p className="text-2xl font-bold">{impacts.length}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Recipes moved</p>
+                  <p className="text-2xl font-bold">{recipeMovements.length}</p>
+                  <p className="text-xs text-gray-500">{increases} more expensive</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Products moved</p>
+                  <p className="text-2xl font-bold">{productMovements.length}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Recipes over the period</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <MovementTable rows={recipeMovements} nameLabel="Recipe" emptyText="No recipe costs moved in this period" />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Products over the period</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <MovementTable rows={productMovements} nameLabel="Product" emptyText="No product costs moved in this period" />
+              </CardContent>
+            </Card>
+
+            <h2 className="text-xl font-semibold pt-2">Price changes</h2>
+            {impacts.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No ingredient prices changed in this period</p>
+            ) : (
+              impacts.map(impact => (
+                <Card key={impact.id}>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex flex-wrap items-baseline gap-2">
+                      {impact.ingredient_name}
+                      <span className="text-sm font-normal text-gray-600">
+                        {money(impact.old_total_price)} → {money(impact.new_total_price)} per {impact.pack_description}
+                      </span>
+                      {impact.price_change_percent !== null && (
+                        <span className={`text-sm font-normal ${getChangeColor(impact.price_change_percent)}`}>
+                          ({signedPercent(impact.price_change_percent)})
+                        </span>
+                      )}
+                    </CardTitle>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(impact.changed_at), 'dd MMM yyyy HH:mm')}
+                      {impact.changed_by_name && ` by ${impact.changed_by_name}`}
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4 overflow-x-auto">
+                    <MovementTable rows={impact.recipes} nameLabel="Recipe" emptyText="No recipe uses this ingredient" />
+                    {impact.products.length > 0 && (
+                      <MovementTable rows={impact.products} nameLabel="Product" emptyText="" />
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+      <Navigation />
+    </div>
+  );
+};
+
+export default PriceImpactPage;
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { endOfDay, endOfMonth, endOfWeek, format, startOfDay, startOfMonth, startOfWeek, subDays } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DateRangePicker } from '@/components/DateRangePicker';
+import Navigation from '@/components/Navigation';
+import { fetchAllRows } from '@/lib/fetchAllRows';
+import {
+  buildProductPerformance,
+  ProductPerformanceSortKey,
+  sortProductPerformance,
+} from '@/utils/productPerformance';
+
+type TimeRange = 'week' | 'month' | 'last30' | 'custom';
+
+const CHART_PRODUCTS = 10;
+
+const COLUMNS: { key: ProductPerformanceSortKey; label: string; numeric: boolean }[] = [
+  { key: 'product_name', label: 'Product', numeric: false },
+  { key: 'produced', label: 'Produced', numeric: true },
+  { key: 'sold', label: 'Sold', numeric: true },
+  { key: 'expired', label: 'Expired', numeric: true },
+  { key: 'sell_through', label: 'Sell-through', numeric: true },
+  { key: 'waste', label: 'Waste', numeric: true },
+  { key: 'revenue', label: 'Revenue', numeric: true },
+  { key: 'ingredient_cost', label: 'Ingredient Cost', numeric: true },
+  { key: 'gross_margin', label: 'Gross Margin', numeric: true },
+  { key: 'margin_percent', label: 'Margin %', numeric: true },
+];
+
+const money = (value: number) => `R${value.toFixed(2)}`;
+const percent = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+const getWasteColor = (waste: number | null) => {
+  if (waste === null) return '';
+  if (waste >= 20) return 'text-red-600 font-medium';
+  if (waste >= 10) return 'text-amber-600';
+  return 'text-green-600';
+};
+
+const ProductPerformancePage = () => {
+  const [timeRange, setTimeRange] = useState<TimeRange>('week');
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [sortKey, setSortKey] = useState<ProductPerformanceSortKey>('waste');
+  const [ascending, setAscending] = useState(false);
+
+  const getPeriod = (): { from: Date; to: Date } | null => {
+    const now = new Date();
+    switch (timeRange) {
+      case 'week':
+        return { from: startOfWeek(now), to: endOfWeek(now) };
+      case 'month':
+        return { from: startOfMonth(now), to: endOfMonth(now) };
+      case 'last30':
+        return { from: startOfDay(subDays(now, 29)), to: endOfDay(now) };
+      case 'custom':
+        return dateRange?.from && dateRange?.to
+          ? { from: startOfDay(dateRange.from), to: endOfDay(dateRange.to) }
+          : null;
+    }
+  };
+
+  const period = getPeriod();
+  const fromDate = period ? format(period.from, 'yyyy-MM-dd') : '';
+  const toDate = period ? format(period.to, 'yyyy-MM-dd') : '';
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ['product_performance', fromDate, toDate],
+    queryFn: async () => {
+      const from = startOfDay(new Date(`${fromDate}T00:00:00`)).toISOString();
+      const to = endOfDay(new Date(`${toDate}T00:00:00`)).toISOString();
+
+      // A month of sales easily runs past a single page of rows
+      const [batches, saleLines, returnLines, expired] = await Promise.all([
+        fetchAllRows((start, end) => supabase
+          .from('production_batches')
+          .select('product_id, quantity_produced, cost_per_unit, total_ingredient_cost, products(name)')
+          .not('product_id', 'is', null)
+          .gte('production_date', fromDate)
+          .lte('production_date', toDate)
+          .order('id')
+          .range(start, end)),
+        fetchAllRows((start, end) => supabase
+          .from('sales_transaction_items')
+          .select('product_id, product_name, quantity, net_amount, sales_transactions!inner(transaction_date)')
+          .gte('sales_transactions.transaction_date', from)
+          .lte('sales_transactions.transaction_date', to)
+          .order('id')
+          .range(start, end)),
+        fetchAllRows((start, end) => supabase
+          .from('sales_return_items')
+          .select('product_id, product_name, quantity, net_amount')
+          .gte('created_at', from)
+          .lte('created_at', to)
+          .order('id')
+          .range(start, end)),
+        fetchAllRows((start, end) => supabase
+          .from('expired_items')
+          .select('product_id, product_name, quantity')
+          .gte('removal_date', fromDate)
+          .lte('removal_date', toDate)
+          .order('id')
+          .range(start, end)),
+      ]);
+
+      return buildProductPerformance({
+        batches: batches.map(batch => ({
+          ...batch,
+          product_name: batch.products?.name || 'Unknown product',
+        })),
+        saleLines,
+        returnLines,
+        expired,
+      });
+    },
+    enabled: !!period,
+  });
+
+  const sortedRows = sortProductPerformance(rows, sortKey, ascending);
+  const chartData = sortedRows.slice(0, CHART_PRODUCTS);
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      produced: acc.produced + row.produced,
+      sold: acc.sold + row.sold,
+      expired: acc.expired + row.expired,
+      revenue: acc.revenue + row.revenue,
+      margin: acc.margin + row.gross_margin,
+    }),
+    { produced: 0, sold: 0, expired: 0, revenue: 0, margin: 0 }
+  );
+
+  const handleSort = (key: ProductPerformanceSortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'product_name');
+    }
+  };
+
+  const sortIcon = (key: ProductPerformanceSortKey) => {
+    if (key !== sortKey) return <ArrowUpDown className="h-3 w-3" />;
+    return ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <div className="container mx-auto p-4">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <h1 className="text-3xl font-bold">Product Performance</h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">This week</SelectItem>
+                <SelectItem value="month">This month</SelectItem>
+                <SelectItem value="last30">Last 30 days</SelectItem>
+                <SelectItem value="custom">Custom range</SelectItem>
+              </SelectContent>
+            </Select>
+            {timeRange === 'custom' && (
+              <DateRangePicker dateRange={dateRange} onDateRangeChange={setDateRange} />
+            )}
+          </div>
+        </div>
+
+        {!period ? (
+          <p className="text-center text-gray-500 py-8">Pick a date range</p>
+        ) : isLoading ? (
+          <p className="text-center text-gray-500 py-8">Loading product figures...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Sell-through</p>
+                  <p className="text-2xl font-bold">
+                    {percent(totals.produced > 0 ? (totals.sold / totals.produced) * 100 : null)}
+                  </p>
+                  <p className="text-xs text-gray-500">{totals.sold} of {totals.produced} produced</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Waste</p>
+                  <p className="text-2xl font-bold text-red-600">
+                    {percent(totals.produced > 0 ? (totals.expired / totals.produced) * 100 : null)}
+                  </p>
+                  <p className="text-xs text-gray-500">{totals.expired} units expired</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Revenue (ex VAT)</p>
+                  <p className="text-2xl font-bold">{money(totals.revenue)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Gross Margin</p>
+                  <p className={`text-2xl font-bold ${totals.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {money(totals.margin)}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  {chartData.length < rows.length ? `Top ${CHART_PRODUCTS} by ` : 'By '}
+                  {COLUMNS.find(column => column.key === sortKey)?.label.toLowerCase()}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {chartData.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">No production, sales or expiries in this period</p>
+                ) : (
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={chartData}>
+                        <XAxis dataKey="product_name" />
+                        <YAxis />
+                        <Tooltip />
+                        <Legend />
+                        <Bar dataKey="produced" fill="#0088FE" name="Produced" />
+                        <Bar dataKey="sold" fill="#00C49F" name="Sold" />
+                        <Bar dataKey="expired" fill="#FF8042" name="Expired" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="pt-6 overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {COLUMNS.map(column => (
+                        <TableHead key={column.key} className={column.numeric ? 'text-right' : ''}>
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1 hover:text-gray-900"
+                            onClick={() => handleSort(column.key)}
+                          >
+                            {column.label}
+                            {sortIcon(column.key)}
+                          </button>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sortedRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={COLUMNS.length} className="text-center py-6 text-gray-500">
+                          No products to report
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      sortedRows.map(row => (
+                        <TableRow key={row.key}>
+                          <TableCell className="font-medium">{row.product_name}</TableCell>
+                          <TableCell className="text-right">{row.produced}</TableCell>
+                          <TableCell className="text-right">{row.sold}</TableCell>
+                          <TableCell className="text-right">{row.expired}</TableCell>
+                          <TableCell className="text-right">{percent(row.sell_through)}</TableCell>
+                          <TableCell className={`text-right ${getWasteColor(row.waste)}`}>{percent(row.waste)}</TableCell>
+                          <TableCell className="text-right">{money(row.revenue)}</TableCell>
+                          <TableCell className="text-right">{money(row.ingredient_cost)}</TableCell>
+                          <TableCell className={`text-right ${row.gross_margin < 0 ? 'text-red-600' : ''}`}>
+                            {money(row.gross_margin)}
+                          </TableCell>
+                          <TableCell className="text-right">{percent(row.margin_percent)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+      <Navigation />
+    </div>
+  );
+};
+
+export default ProductPerformancePage;
@@ -9,6 +9,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Trash2, Plus } from "lucide-react";
+import { convertQuantity, findIngredientByName, findUnit, getConversionError, IngredientConversion, normalizeUnit, UNIT_OPTIONS } from "@/utils/units";
 
 interface Recipe {
   id: string;
@@ -34,6 +35,11 @@ interface RecipeIngredient {
   created_at: string;
 }
 
+interface Ingredient extends IngredientConversion {
+  id: string;
+  name: string;
+}
+
 interface ProductionBatch {
   id: string;
   recipe_id: string;
@@ -64,13 +70,28 @@ const ProductionCostPage = () => {
   const [notes, setNotes] = useState('');
   const [ingredientUsages, setIngredientUsages] = useState<IngredientUsage[]>([]);
   const [productionBatches, setProductionBatches] = useState<ProductionBatch[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchRecipes();
     fetchProductionBatches();
+    fetchIngredients();
   }, []);
 
+  const fetchIngredients = async () => {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .select('id, name, density_g_per_ml, each_weight_g')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching ingredients:', error);
+    } else {
+      setIngredients(data || []);
+    }
+  };
+
   const fetchRecipes = async () => {
     const { data, error } = await supabase
       .from('recipes')
@@ -129,7 +150,7 @@ const ProductionCostPage = () => {
         production_id: '',
         ingredient_name: ingredient.ingredient_name,
         quantity_used: ingredient.quantity_used || ingredient.quantity || 0,
-        unit: ingredient.used_unit || ingredient.unit || 'g',
+        unit: normalizeUnit(ingredient.used_unit || ingredient.unit || 'g'),
         cost_per_unit: ingredient.cost_per_unit || 0,
         created_at: new Date().toISOString(),
       }));
@@ -153,6 +174,37 @@ const ProductionCostPage = () => {
     setIngredientUsages(updatedUsages);
   };
 
+  // Changing the unit converts the line's quantity and cost per unit, so its total cost stays the same.
+  // A line whose unit the registry does not know is just relabelled.
+  const updateIngredientUnit = (index: number, unit: string) => {
+    const usage = ingredientUsages[index];
+    if (!findUnit(usage.unit)) {
+      updateIngredientUsage(index, 'unit', unit);
+      return;
+    }
+
+    const conversion = { ...findIngredientByName(ingredients, usage.ingredient_name), name: usage.ingredient_name };
+    const oldUnitsPerNewUnit = convertQuantity(1, unit, usage.unit, conversion);
+
+    if (oldUnitsPerNewUnit === null) {
+      toast({
+        title: "Error",
+        description: getConversionError(unit, usage.unit, conversion),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const updatedUsages = [...ingredientUsages];
+    updatedUsages[index] = {
+      ...usage,
+      unit,
+      quantity_used: usage.quantity_used / oldUnitsPerNewUnit,
+      cost_per_unit: usage.cost_per_unit * oldUnitsPerNewUnit,
+    };
+    setIngredientUsages(updatedUsages);
+  };
+
   const addIngredientUsage = () => {
     const newUsage: IngredientUsage = {
       id: crypto.randomUUID(),
@@ -351,11 +403,16 @@ const ProductionCostPage = () => {
                         />
                       </div>
                       <div className="col-span-2">
-                        <Input
-                          value={usage.unit}
-                          onChange={(e) => updateIngredientUsage(index, 'unit', e.target.value)}
-                          placeholder="Unit"
-                        />
+                        <Select value={usage.unit} onValueChange={(value) => updateIngredientUnit(index, value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Unit" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {UNIT_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                       <div className="col-span-3">
                         <Input
@@ -12,6 +12,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/sonner';
 import Navigation from '@/components/Navigation';
 import RecipeEditModal from '@/components/RecipeEditModal';
+import StockShortfallWarning, { StockShortfall } from '@/components/production/StockShortfallWarning';
+import { normalizeUnit, UNIT_OPTIONS } from '@/utils/units';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 // Types
@@ -22,6 +24,7 @@ interface ProductionBatch {
   product_code?: string;
   recipe_id?: string;
   recipe_name?: string;
+  recipe_version_number?: number;
   quantity_produced: number;
   production_date: string;
   staff_name: string;
@@ -30,6 +33,7 @@ interface ProductionBatch {
   total_ingredient_cost?: number;
   cost_per_unit?: number;
   created_at: string;
+  stock_shortfalls: StockShortfall[];
 }
 
 interface ProductionIngredient {
@@ -39,6 +43,7 @@ interface ProductionIngredient {
   quantity_used: number;
   unit: string;
   cost_per_unit: number;
+  stock_shortfall: number;
   created_at: string;
 }
 
@@ -62,6 +67,7 @@ interface RecipeIngredient {
   quantity: number;
   unit: string;
   cost_per_unit: number;
+  sub_recipe_id: string | null;
 }
 
 interface StaffMember {
@@ -270,16 +276,19 @@ const ProductionPage = () => {
       
       const { data, error } = await supabase
         .from('production_batches')
-        .select('*, products(name, code), recipes(name)')
+        .select('*, products(name, code), recipes(name), recipe_versions(version_number), production_ingredients(ingredient_name, unit, stock_shortfall)')
         .eq('production_date', dateStr)
         .order('created_at', { ascending: false });
       
       if (error) throw error;
       return data.map(batch => ({
         ...batch,
-        product_name: (batch.products as any)?.name || 'Unknown',
-        product_code: (batch.products as any)?.code || 'N/A',
-        recipe_name: (batch.recipes as any)?.name || 'No Recipe'
+        // A batch with a recipe and no product makes an intermediate that goes into kitchen stock
+        product_name: (batch.products as any)?.name || (batch.product_id ? 'Unknown' : batch.recipes?.name || 'Unknown'),
+        product_code: (batch.products as any)?.code || (batch.product_id || !batch.recipe_id ? 'N/A' : 'Kitchen stock'),
+        recipe_name: (batch.recipes as any)?.name || 'No Recipe',
+        recipe_version_number: batch.recipe_versions?.version_number,
+        stock_shortfalls: batch.production_ingredients.filter(ingredient => ingredient.stock_shortfall > 0)
       }));
     }
   });
@@ -416,6 +425,15 @@ const ProductionPage = () => {
     return recipeBatchSize > 0 ? totalRecipeCost / recipeBatchSize : 0;
   };
 
+  // No product means the recipe is made as an intermediate and kept in kitchen stock
+  const productOptions = [
+    { value: '', label: 'None - make the recipe for kitchen stock' },
+    ...products.map(product => ({
+      value: product.id,
+      label: `${product.code} - ${product.name}`
+    }))
+  ];
+
   // Calculate scaled ingredient costs for production quantity
   const calculateScaledIngredientCosts = () => {
     if (!productionData.recipe_id || !productionData.quantity_produced || !recipeIngredients.length) {
@@ -439,7 +457,7 @@ const ProductionPage = () => {
   const startEditBatch = (batch: ProductionBatch) => {
     setEditingBatchId(batch.id);
     setEditData({
-      product_id: batch.product_id,
+      product_id: batch.product_id || '',
       recipe_id: batch.recipe_id || '',
       quantity_produced: batch.quantity_produced.toString(),
       staff_id: batch.staff_id || '',
@@ -462,8 +480,8 @@ const ProductionPage = () => {
   // Update batch mutation
   const updateBatchMutation = useMutation({
     mutationFn: async (batchId: string) => {
-      if (!editData.product_id || !editData.quantity_produced || !editData.staff_id) {
-        throw new Error('Please fill all required fields');
+      if ((!editData.product_id && !editData.recipe_id) || !editData.quantity_produced || !editData.staff_id) {
+        throw new Error('Please fill all required fields and choose a product, or a recipe to make for kitchen stock');
       }
 
       // Get staff name from staff_id
@@ -475,7 +493,7 @@ const ProductionPage = () => {
       const { error } = await supabase
         .from('production_batches')
         .update({
-          product_id: editData.product_id,
+          product_id: editData.product_id || null,
           recipe_id: editData.recipe_id || null,
           quantity_produced: Number(editData.quantity_produced),
           staff_name: selectedStaff.name,
@@ -489,6 +507,7 @@ const ProductionPage = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['production_batches'] });
       queryClient.invalidateQueries({ queryKey: ['staff_production_stats'] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen_stock'] });
       setEditingBatchId(null);
       setEditData({
         product_id: '',
@@ -507,8 +526,8 @@ const ProductionPage = () => {
   // Create production batch mutation
   const createBatchMutation = useMutation({
     mutationFn: async () => {
-      if (!productionData.product_id || !productionData.quantity_produced || !productionData.staff_id) {
-        throw new Error('Please fill all required fields');
+      if ((!productionData.product_id && !productionData.recipe_id) || !productionData.quantity_produced || !productionData.staff_id) {
+        throw new Error('Please fill all required fields and choose a product, or a recipe to make for kitchen stock');
       }
 
       // Get staff name from staff_id
@@ -527,7 +546,7 @@ const ProductionPage = () => {
       const { data, error } = await supabase
         .from('production_batches')
         .insert({
-          product_id: productionData.product_id,
+          product_id: productionData.product_id || null,
           recipe_id: productionData.recipe_id || null,
           quantity_produced: Number(productionData.quantity_produced),
           production_date: dateStr,
@@ -551,7 +570,8 @@ const ProductionPage = () => {
           ingredient_name: ingredient.ingredient_name,
           quantity_used: ingredient.scaled_quantity,
           unit: ingredient.used_unit || ingredient.unit,
-          cost_per_unit: ingredient.cost_per_unit
+          cost_per_unit: ingredient.cost_per_unit,
+          sub_recipe_id: ingredient.sub_recipe_id
         }));
 
         const { error: ingredientError } = await supabase
@@ -566,6 +586,7 @@ const ProductionPage = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['production_batches'] });
       queryClient.invalidateQueries({ queryKey: ['staff_production_stats'] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen_stock'] });
       setProductionData({
         product_id: '',
         recipe_id: '',
@@ -602,6 +623,7 @@ const ProductionPage = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['production_batches'] });
       queryClient.invalidateQueries({ queryKey: ['staff_production_stats'] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen_stock'] });
       setActiveBatchId(null);
       toast.success('Production batch deleted successfully!');
     },
@@ -658,7 +680,7 @@ const ProductionPage = () => {
       // Get batch info including recipe_id
       const { data: batch, error: batchError } = await supabase
         .from('production_batches')
-        .select('quantity_produced, recipe_id')
+        .select('quantity_produced, recipe_id, recipe_versions(cost_per_unit)')
         .eq('id', batchId)
         .single();
       
@@ -678,8 +700,10 @@ const ProductionPage = () => {
       
       let costPerUnit = 0;
 
-      // If batch has a recipe, calculate fixed cost per unit from recipe
-      if (batch.recipe_id) {
+      // If batch has a recipe, the fixed cost per unit is that of the recipe version it was made from
+      if (batch.recipe_versions) {
+        costPerUnit = batch.recipe_versions.cost_per_unit;
+      } else if (batch.recipe_id) {
         const { data: recipe, error: recipeError } = await supabase
           .from('recipes')
           .select('batch_size')
@@ -721,6 +745,7 @@ const ProductionPage = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['production_batches'] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen_stock'] });
     },
     onError: (error: Error) => {
       toast.error('Failed to update batch cost: ' + error.message);
@@ -859,7 +884,7 @@ const ProductionPage = () => {
                   <td>${batch.product_name}</td>
                   <td>${batch.quantity_produced}</td>
                   <td>${batch.staff_name}</td>
-                  <td>${batch.recipe_name || 'No Recipe'}</td>
+                  <td>${batch.recipe_name || 'No Recipe'}${batch.recipe_version_number ? ` (v${batch.recipe_version_number})` : ''}</td>
                   <td>R${(batch.total_ingredient_cost || 0).toFixed(2)}</td>
                   <td>R${(batch.cost_per_unit || 0).toFixed(2)}</td>
                   <td>${batch.notes || '-'}</td>
@@ -1093,12 +1118,9 @@ const ProductionPage = () => {
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div>
-              <label className="block text-sm font-medium mb-1">Product *</label>
+              <label className="block text-sm font-medium mb-1">Product</label>
               <SearchableDropdown
-                options={products.map(product => ({
-                  value: product.id,
-                  label: `${product.code} - ${product.name}`
-                }))}
+                options={productOptions}
                 value={productionData.product_id}
                 onChange={(value) => setProductionData({...productionData, product_id: value})}
                 placeholder="Select a product"
@@ -1209,7 +1231,7 @@ const ProductionPage = () => {
           <div className="mt-4">
             <Button 
               onClick={() => createBatchMutation.mutate()}
-              disabled={createBatchMutation.isPending || !productionData.product_id || !productionData.quantity_produced || !productionData.staff_id}
+              disabled={createBatchMutation.isPending || (!productionData.product_id && !productionData.recipe_id) || !productionData.quantity_produced || !productionData.staff_id}
             >
               <Plus className="mr-2 h-4 w-4" />
               {createBatchMutation.isPending ? 'Adding...' : 'Add Batch'}
@@ -1257,12 +1279,9 @@ const ProductionPage = () => {
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                         <div>
-                          <label className="block text-sm font-medium mb-1">Product *</label>
+                          <label className="block text-sm font-medium mb-1">Product</label>
                           <SearchableDropdown
-                            options={products.map(product => ({
-                              value: product.id,
-                              label: `${product.code} - ${product.name}`
-                            }))}
+                            options={productOptions}
                             value={editData.product_id}
                             onChange={(value) => setEditData({...editData, product_id: value})}
                             placeholder="Select a product"
@@ -1329,7 +1348,10 @@ const ProductionPage = () => {
                         <h3 className="font-medium">{batch.product_code} - {batch.product_name}</h3>
                         {batch.recipe_name && batch.recipe_name !== 'No Recipe' && (
                           <div className="flex items-center gap-2">
-                            <p className="text-sm text-blue-600">Recipe: {batch.recipe_name}</p>
+                            <p className="text-sm text-blue-600">
+                              Recipe: {batch.recipe_name}
+                              {batch.recipe_version_number && ` (v${batch.recipe_version_number})`}
+                            </p>
                             {batch.recipe_id && (
                               <Button
                                 variant="ghost"
@@ -1358,6 +1380,7 @@ const ProductionPage = () => {
                         <p className="text-xs text-gray-500 mt-1">
                           Created: {new Date(batch.created_at).toLocaleTimeString()}
                         </p>
+                        <StockShortfallWarning shortfalls={batch.stock_shortfalls} />
                       </div>
                       <div className="flex gap-2">
                         <Button
@@ -1433,11 +1456,9 @@ const ProductionPage = () => {
                                         onChange={(e) => setEditIngredientData({...editIngredientData, unit: e.target.value})}
                                         className="w-full p-2 border rounded"
                                       >
-                                        <option value="kg">kg</option>
-                                        <option value="g">g</option>
-                                        <option value="L">L</option>
-                                        <option value="ml">ml</option>
-                                        <option value="unit">unit</option>
+                                        {UNIT_OPTIONS.map(option => (
+                                          <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
                                       </select>
                                     </TableCell>
                                     <TableCell>
@@ -1479,7 +1500,14 @@ const ProductionPage = () => {
                                 ) : (
                                   <>
                                     <TableCell>{ingredient.ingredient_name}</TableCell>
-                                    <TableCell>{ingredient.quantity_used}</TableCell>
+                                    <TableCell>
+                                      {ingredient.quantity_used}
+                                      {ingredient.stock_shortfall > 0 && (
+                                        <span className="block text-xs text-amber-700">
+                                          {Number(ingredient.stock_shortfall.toFixed(3))} not in stock
+                                        </span>
+                                      )}
+                                    </TableCell>
                                     <TableCell>{ingredient.unit}</TableCell>
                                     <TableCell>R{ingredient.cost_per_unit.toFixed(2)}</TableCell>
                                     <TableCell>R{(ingredient.quantity_used * ingredient.cost_per_unit).toFixed(2)}</TableCell>
@@ -1492,7 +1520,7 @@ const ProductionPage = () => {
                                           setEditIngredientData({
                                             ingredient_name: ingredient.ingredient_name,
                                             quantity_used: ingredient.quantity_used.toString(),
-                                            unit: ingredient.unit,
+                                            unit: normalizeUnit(ingredient.unit),
                                             cost_per_unit: ingredient.cost_per_unit.toString()
                                           });
                                         }}
@@ -1541,11 +1569,9 @@ const ProductionPage = () => {
                               onChange={(e) => setIngredientData({...ingredientData, unit: e.target.value})}
                               className="w-full p-2 border rounded"
                             >
-                              <option value="kg">kg</option>
-                              <option value="g">g</option>
-                              <option value="L">L</option>
-                              <option value="ml">ml</option>
-                              <option value="unit">unit</option>
+                              {UNIT_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
                             </select>
                           </div>
                           <div>
@@ -11,6 +11,10 @@ import { toast } from '@/components/ui/sonner';
 import Navigation from '@/components/Navigation';
 import SimilarityWarning from '@/components/SimilarityWarning';
 import { useSimilarityCheck } from '@/hooks/useSimilarityCheck';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { TAX_CLASSES, TaxClass, getTaxClassLabel } from '@/utils/tax';
 
 // Types
 interface Product {
@@ -18,6 +22,8 @@ interface Product {
   name: string;
   code: string;
   show_on_pos?: boolean;
+  tax_class?: TaxClass;
+  price_includes_tax?: boolean;
   created_at?: string;
 }
 
@@ -26,7 +32,9 @@ const ProductsPage = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [currentProduct, setCurrentProduct] = useState<Partial<Product>>({
     name: '',
-    code: ''
+    code: '',
+    tax_class: 'standard',
+    price_includes_tax: true
   });
 
   const {
@@ -63,7 +71,9 @@ const ProductsPage = () => {
             .from('products')
             .update({
               name: product.name,
-              code: product.code
+              code: product.code,
+              tax_class: product.tax_class || 'standard',
+              price_includes_tax: product.price_includes_tax ?? true
             })
             .eq('id', product.id)
             .select()
@@ -71,7 +81,9 @@ const ProductsPage = () => {
             .from('products')
             .insert([{
               name: product.name,
-              code: product.code
+              code: product.code,
+              tax_class: product.tax_class || 'standard',
+              price_includes_tax: product.price_includes_tax ?? true
             }])
             .select();
       
@@ -200,7 +212,9 @@ const ProductsPage = () => {
     setIsEditing(false);
     setCurrentProduct({
       name: '',
-      code: ''
+      code: '',
+      tax_class: 'standard',
+      price_includes_tax: true
     });
   };
 
@@ -246,6 +260,27 @@ const ProductsPage = () => {
                 onChange={(e) => setCurrentProduct({...currentProduct, code: e.target.value})}
                 required
               />
+              <Select
+                value={currentProduct.tax_class || 'standard'}
+                onValueChange={(value) => setCurrentProduct({...currentProduct, tax_class: value as TaxClass})}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="VAT class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAX_CLASSES.map(taxClass => (
+                    <SelectItem key={taxClass.value} value={taxClass.value}>{taxClass.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="price-includes-tax"
+                  checked={currentProduct.price_includes_tax ?? true}
+                  onCheckedChange={(checked) => setCurrentProduct({...currentProduct, price_includes_tax: checked})}
+                />
+                <Label htmlFor="price-includes-tax">Shelf price includes VAT</Label>
+              </div>
             </div>
             <div className="flex gap-2">
               <Button type="submit" disabled={upsertProduct.isPending}>
@@ -280,6 +315,7 @@ const ProductsPage = () => {
                 <TableRow>
                   <TableHead>Name</TableHead>
                   <TableHead>Code</TableHead>
+                  <TableHead>VAT</TableHead>
                   <TableHead>Show on POS</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -289,6 +325,12 @@ const ProductsPage = () => {
                   <TableRow key={product.id}>
                     <TableCell>{product.name}</TableCell>
                     <TableCell>{product.code}</TableCell>
+                    <TableCell>
+                      {getTaxClassLabel(product.tax_class)}
+                      <span className="block text-xs text-gray-500">
+                        {(product.price_includes_tax ?? true) ? 'Inclusive' : 'Exclusive'}
+                      </span>
+                    </TableCell>
                     <TableCell>
                       <Button
                         variant="ghost"
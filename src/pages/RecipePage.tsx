@@ -3,13 +3,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Trash2, Edit, Plus, Printer, Search } from 'lucide-react';
+import { Trash2, Edit, Plus, Printer, Search, History, Layers } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/sonner';
 import Navigation from '@/components/Navigation';
 import SimilarityWarning from '@/components/SimilarityWarning';
 import { useSimilarityCheck } from '@/hooks/useSimilarityCheck';
+import { useRecordRecipeVersion } from '@/hooks/useRecipeVersions';
+import RecipeVersionsDialog from '@/components/recipes/RecipeVersionsDialog';
+import { convertQuantity, costPerUsedUnit, findIngredientByName, getConversionError, normalizeUnit, UNIT_OPTIONS } from '@/utils/units';
+import { explodeRecipe, rolledUpCostPerUnit, wouldCreateCycle } from '@/utils/recipeBom';
 
 // Types
 interface Recipe {
@@ -34,6 +38,7 @@ interface RecipeIngredient {
   quantity_used: number | null;
   used_unit: string | null;
   calculated_cost: number | null;
+  sub_recipe_id: string | null;
 }
 
 interface Ingredient {
@@ -43,6 +48,8 @@ interface Ingredient {
   unit: string;
   price_ex_vat: number;
   total_price: number;
+  density_g_per_ml: number | null;
+  each_weight_g: number | null;
 }
 
 const SearchableDropdown = ({
@@ -139,6 +146,8 @@ const RecipePage = () => {
   const queryClient = useQueryClient();
   const [editingRecipeId, setEditingRecipeId] = useState<string | null>(null);
   const [editingIngredientId, setEditingIngredientId] = useState<string | null>(null);
+  const [historyRecipeId, setHistoryRecipeId] = useState<string | null>(null);
+  const recordRecipeVersion = useRecordRecipeVersion();
 
   // Recipe form state
   const [recipeData, setRecipeData] = useState({
@@ -159,6 +168,7 @@ const RecipePage = () => {
   // Ingredient form state
   const [ingredientData, setIngredientData] = useState({
     ingredient_id: '',
+    sub_recipe_id: '',
     ingredient_name: '',
     pack_size: '',
     pack_unit: 'kg',
@@ -180,31 +190,6 @@ const RecipePage = () => {
 
   const [selectedRecipeId, setSelectedRecipeId] = useState<string>('');
 
-  // Unit options
-  const unitOptions = [
-    { value: 'units', label: 'units' },
-    { value: 'kg', label: 'kg' },
-    { value: 'g', label: 'g' },
-    { value: 'l', label: 'l' },
-    { value: 'ml', label: 'ml' }
-  ];
-
-  const packUnitOptions = [
-    { value: 'kg', label: 'kg' },
-    { value: 'g', label: 'g' },
-    { value: 'l', label: 'l' },
-    { value: 'ml', label: 'ml' },
-    { value: 'units', label: 'units' }
-  ];
-
-  const usedUnitOptions = [
-    { value: 'g', label: 'g' },
-    { value: 'kg', label: 'kg' },
-    { value: 'ml', label: 'ml' },
-    { value: 'l', label: 'l' },
-    { value: 'units', label: 'units' }
-  ];
-
   // Fetch all ingredients from the ingredients table
   const { data: availableIngredients = [] } = useQuery({
     queryKey: ['available-ingredients'],
@@ -251,15 +236,43 @@ const RecipePage = () => {
     enabled: !!selectedRecipeId
   });
 
-  // Handle ingredient selection from dropdown
+  // Every recipe's lines, for rolling sub-recipe costs up and exploding the bill of materials
+  const { data: allRecipeIngredients = [] } = useQuery({
+    queryKey: ['recipe-ingredients', 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('recipe_ingredients')
+        .select('id, recipe_id, ingredient_name, quantity, unit, cost_per_unit, calculated_cost, sub_recipe_id');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  // Handle ingredient selection from dropdown; recipes come through as "recipe:<id>"
   const handleIngredientSelect = (ingredientId: string) => {
+    const subRecipe = ingredientId.startsWith('recipe:')
+      ? recipes.find(recipe => `recipe:${recipe.id}` === ingredientId)
+      : undefined;
     const selectedIngredient = availableIngredients.find(ing => ing.id === ingredientId);
-    if (selectedIngredient && ingredientId !== 'manual-entry') {
+    if (subRecipe) {
+      setIngredientData({
+        ingredient_id: '',
+        sub_recipe_id: subRecipe.id,
+        ingredient_name: subRecipe.name,
+        pack_size: '',
+        pack_unit: '',
+        pack_price: '',
+        quantity_used: '',
+        used_unit: normalizeUnit(subRecipe.unit)
+      });
+    } else if (selectedIngredient && ingredientId !== 'manual-entry') {
       setIngredientData({
         ingredient_id: selectedIngredient.id,
+        sub_recipe_id: '',
         ingredient_name: selectedIngredient.name,
         pack_size: selectedIngredient.weight.toString(),
-        pack_unit: selectedIngredient.unit,
+        pack_unit: normalizeUnit(selectedIngredient.unit),
         pack_price: selectedIngredient.total_price.toString(),
         quantity_used: '',
         used_unit: 'g'
@@ -268,6 +281,7 @@ const RecipePage = () => {
       // Clear form for manual entry
       setIngredientData({
         ingredient_id: '',
+        sub_recipe_id: '',
         ingredient_name: '',
         pack_size: '',
         pack_unit: 'kg',
@@ -278,29 +292,38 @@ const RecipePage = () => {
     }
   };
 
-  // Calculate cost per unit based on pack size and price
-  const calculateCostPerUnit = (packPrice: string, packSize: string, packUnit: string, usedUnit: string) => {
-    const price = Number(packPrice);
-    const size = Number(packSize);
-    
-    if (!price || !size) return 0;
+  // Density and unit weight of the ingredient being added, for converting between pack and used units
+  const ingredientConversion =
+    availableIngredients.find(ing => ing.id === ingredientData.ingredient_id) ||
+    findIngredientByName(availableIngredients, ingredientData.ingredient_name);
 
-    let conversionFactor = 1;
-    
-    // Convert pack unit to used unit
-    if (packUnit === 'kg' && usedUnit === 'g') {
-      conversionFactor = 1000;
-    } else if (packUnit === 'l' && usedUnit === 'ml') {
-      conversionFactor = 1000;
-    } else if (packUnit === 'g' && usedUnit === 'kg') {
-      conversionFactor = 0.001;
-    } else if (packUnit === 'ml' && usedUnit === 'l') {
-      conversionFactor = 0.001;
+  const selectedSubRecipe = recipes.find(recipe => recipe.id === ingredientData.sub_recipe_id);
+
+  // Calculate cost per used unit based on pack size and price, or on the sub-recipe's rolled-up
+  // cost; null when the units cannot be converted
+  const calculateCostPerUnit = (packPrice: string, packSize: string, packUnit: string, usedUnit: string) => {
+    if (selectedSubRecipe) {
+      const subCostPerUnit = rolledUpCostPerUnit(selectedSubRecipe.id, recipes, allRecipeIngredients);
+      const usedInSubUnits = convertQuantity(1, usedUnit, selectedSubRecipe.unit);
+      return subCostPerUnit === null || usedInSubUnits === null ? null : subCostPerUnit * usedInSubUnits;
     }
-    
-    return price / (size * conversionFactor);
+    return costPerUsedUnit(Number(packPrice), Number(packSize), packUnit, usedUnit, ingredientConversion);
   };
 
+  const conversionError = selectedSubRecipe
+    ? getConversionError(ingredientData.used_unit, selectedSubRecipe.unit, { name: selectedSubRecipe.name })
+    : getConversionError(ingredientData.pack_unit, ingredientData.used_unit, {
+      ...ingredientConversion,
+      name: ingredientData.ingredient_name || ingredientConversion?.name
+    });
+
+  const previewCostPerUnit = calculateCostPerUnit(
+    ingredientData.pack_price,
+    ingredientData.pack_size,
+    ingredientData.pack_unit,
+    ingredientData.used_unit
+  );
+
   // Add Recipe
   const addRecipe = useMutation({
     mutationFn: async () => {
@@ -320,6 +343,7 @@ const RecipePage = () => {
         .single();
       
       if (error) throw error;
+      await recordRecipeVersion(data.id);
       return data;
     },
     onSuccess: (data) => {
@@ -340,12 +364,19 @@ const RecipePage = () => {
         throw new Error('Please select a recipe and fill all required fields');
       }
 
+      if (selectedSubRecipe && wouldCreateCycle(selectedRecipeId, selectedSubRecipe.id, allRecipeIngredients)) {
+        throw new Error(`${selectedSubRecipe.name} already uses this recipe, so it cannot be one of its ingredients`);
+      }
+
       const costPerUnit = calculateCostPerUnit(
         ingredientData.pack_price,
         ingredientData.pack_size,
         ingredientData.pack_unit,
         ingredientData.used_unit
       );
+      if (costPerUnit === null) {
+        throw new Error(conversionError || `${selectedSubRecipe?.name} cannot be costed until its own ingredients can be`);
+      }
       
       const quantityUsed = Number(ingredientData.quantity_used);
       const calculatedCost = costPerUnit * quantityUsed;
@@ -363,15 +394,19 @@ const RecipePage = () => {
           pack_price: Number(ingredientData.pack_price) || null,
           quantity_used: quantityUsed,
           used_unit: ingredientData.used_unit,
-          calculated_cost: calculatedCost
+          calculated_cost: calculatedCost,
+          ingredient_id: ingredientData.ingredient_id || null,
+          sub_recipe_id: ingredientData.sub_recipe_id || null
         });
       
       if (error) throw error;
+      await recordRecipeVersion(selectedRecipeId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recipe-ingredients'] });
       setIngredientData({
         ingredient_id: '',
+        sub_recipe_id: '',
         ingredient_name: '',
         pack_size: '',
         pack_unit: 'kg',
@@ -395,6 +430,7 @@ const RecipePage = () => {
         .eq('id', id);
       
       if (error) throw error;
+      await recordRecipeVersion(selectedRecipeId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recipe-ingredients'] });
@@ -447,6 +483,19 @@ const RecipePage = () => {
         throw new Error('Cannot delete recipe: It is linked to products. Please remove those product-recipe links first.');
       }
 
+      // Check if recipe is used as a sub-recipe in another recipe
+      const { data: parentLines, error: parentLinesError } = await supabase
+        .from('recipe_ingredients')
+        .select('id')
+        .eq('sub_recipe_id', recipeId)
+        .limit(1);
+
+      if (parentLinesError) throw parentLinesError;
+
+      if (parentLines && parentLines.length > 0) {
+        throw new Error('Cannot delete recipe: It is used as an ingredient in other recipes. Please remove it from those recipes first.');
+      }
+
       // If no references found, first delete all recipe ingredients
       const { error: ingredientsError } = await supabase
         .from('recipe_ingredients')
@@ -481,6 +530,9 @@ const RecipePage = () => {
 
   const selectedRecipe = recipes.find(r => r.id === selectedRecipeId);
   const costPerUnit = selectedRecipe ? totalRecipeCost / selectedRecipe.batch_size : 0;
+  const billOfMaterials = selectedRecipe && recipeIngredients.some(ingredient => ingredient.sub_recipe_id)
+    ? explodeRecipe(selectedRecipe.id, recipes, allRecipeIngredients)
+    : null;
 
   // Print function
   const handlePrint = () => {
@@ -519,7 +571,13 @@ const RecipePage = () => {
     ...availableIngredients.map(ingredient => ({
       value: ingredient.id,
       label: `${ingredient.name} (${ingredient.weight} ${ingredient.unit} - R${ingredient.total_price.toFixed(2)})`
-    }))
+    })),
+    ...recipes
+      .filter(recipe => selectedRecipeId && !wouldCreateCycle(selectedRecipeId, recipe.id, allRecipeIngredients))
+      .map(recipe => ({
+        value: `recipe:${recipe.id}`,
+        label: `Recipe: ${recipe.name} (per ${recipe.unit})`
+      }))
   ];
 
   const handleRecipeSubmit = () => {
@@ -672,7 +730,7 @@ const RecipePage = () => {
             <div>
               <label className="block mb-1 text-sm font-medium">Unit</label>
               <SearchableDropdown
-                options={unitOptions}
+                options={UNIT_OPTIONS}
                 value={recipeData.unit}
                 onChange={(value) => setRecipeData({...recipeData, unit: value})}
                 placeholder="Select unit"
@@ -732,7 +790,11 @@ const RecipePage = () => {
               <label className="block mb-1 text-sm font-medium">Select from Available Ingredients (Optional)</label>
               <SearchableDropdown
                 options={ingredientOptions}
-                value={ingredientData.ingredient_id || 'manual-entry'}
+                value={
+                  ingredientData.sub_recipe_id
+                    ? `recipe:${ingredientData.sub_recipe_id}`
+                    : ingredientData.ingredient_id || 'manual-entry'
+                }
                 onChange={handleIngredientSelect}
                 placeholder="Select an existing ingredient or leave blank for manual entry"
                 searchPlaceholder="Search ingredients..."
@@ -746,41 +808,52 @@ const RecipePage = () => {
                   value={ingredientData.ingredient_name}
                   onChange={(e) => setIngredientData({...ingredientData, ingredient_name: e.target.value})}
                   placeholder="Enter ingredient name"
+                  disabled={!!selectedSubRecipe || !!ingredientData.ingredient_id}
                 />
               </div>
               
-              <div>
-                <label className="block mb-1 text-sm font-medium">Pack Size *</label>
-                <Input
-                  type="number"
-                  step="0.01"
-                  value={ingredientData.pack_size}
-                  onChange={(e) => setIngredientData({...ingredientData, pack_size: e.target.value})}
-                  placeholder="Enter pack size"
-                />
-              </div>
+              {!selectedSubRecipe && (
+                <>
+                  <div>
+                    <label className="block mb-1 text-sm font-medium">Pack Size *</label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={ingredientData.pack_size}
+                      onChange={(e) => setIngredientData({...ingredientData, pack_size: e.target.value})}
+                      disabled={!!ingredientData.ingredient_id}
+                      placeholder="Enter pack size"
+                    />
+                  </div>
               
-              <div>
-                <label className="block mb-1 text-sm font-medium">Pack Unit</label>
-                <SearchableDropdown
-                  options={packUnitOptions}
-                  value={ingredientData.pack_unit}
-                  onChange={(value) => setIngredientData({...ingredientData, pack_unit: value})}
-                  placeholder="Select pack unit"
-                  searchPlaceholder="Search units..."
-                />
-              </div>
+                  <div>
+                    <label className="block mb-1 text-sm font-medium">Pack Unit</label>
+                    {ingredientData.ingredient_id ? (
+                      <Input value={ingredientData.pack_unit} disabled />
+                    ) : (
+                      <SearchableDropdown
+                        options={UNIT_OPTIONS}
+                        value={ingredientData.pack_unit}
+                        onChange={(value) => setIngredientData({...ingredientData, pack_unit: value})}
+                        placeholder="Select pack unit"
+                        searchPlaceholder="Search units..."
+                      />
+                    )}
+                  </div>
               
-              <div>
-                <label className="block mb-1 text-sm font-medium">Pack Price *</label>
-                <Input
-                  type="number"
-                  step="0.01"
-                  value={ingredientData.pack_price}
-                  onChange={(e) => setIngredientData({...ingredientData, pack_price: e.target.value})}
-                  placeholder="Enter pack price"
-                />
-              </div>
+                  <div>
+                    <label className="block mb-1 text-sm font-medium">Pack Price *</label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={ingredientData.pack_price}
+                      onChange={(e) => setIngredientData({...ingredientData, pack_price: e.target.value})}
+                      disabled={!!ingredientData.ingredient_id}
+                      placeholder="Enter pack price"
+                    />
+                  </div>
+                </>
+              )}
               
               <div>
                 <label className="block mb-1 text-sm font-medium">Quantity Used *</label>
@@ -796,7 +869,7 @@ const RecipePage = () => {
               <div>
                 <label className="block mb-1 text-sm font-medium">Used Unit</label>
                 <SearchableDropdown
-                  options={usedUnitOptions}
+                  options={UNIT_OPTIONS}
                   value={ingredientData.used_unit}
                   onChange={(value) => setIngredientData({...ingredientData, used_unit: value})}
                   placeholder="Select used unit"
@@ -805,27 +878,32 @@ const RecipePage = () => {
               </div>
             </div>
             
+            {ingredientData.ingredient_id && (
+              <p className="text-xs text-gray-500">
+                Pack size and price come from the ingredient list, and this line is re-costed whenever that price changes.
+              </p>
+            )}
+
             {/* Cost Preview */}
-            {ingredientData.pack_price && ingredientData.pack_size && ingredientData.quantity_used && (
-              <div className="bg-gray-50 p-3 rounded-md">
-                <p className="text-sm text-gray-600 font-medium mb-1">Cost Preview:</p>
-                <p className="text-sm">
-                  Cost per {ingredientData.used_unit}: R{calculateCostPerUnit(
-                    ingredientData.pack_price,
-                    ingredientData.pack_size,
-                    ingredientData.pack_unit,
-                    ingredientData.used_unit
-                  ).toFixed(4)}
-                </p>
-                <p className="text-sm font-bold text-green-600">
-                  Total Cost: R{(calculateCostPerUnit(
-                    ingredientData.pack_price,
-                    ingredientData.pack_size,
-                    ingredientData.pack_unit,
-                    ingredientData.used_unit
-                  ) * Number(ingredientData.quantity_used)).toFixed(2)}
-                </p>
-              </div>
+            {(selectedSubRecipe || (ingredientData.pack_price && ingredientData.pack_size)) && ingredientData.quantity_used && (
+              conversionError || previewCostPerUnit === null ? (
+                <div className="bg-red-50 p-3 rounded-md">
+                  <p className="text-sm text-red-700">
+                    {conversionError || `${selectedSubRecipe?.name} cannot be costed until its own ingredients can be`}
+                  </p>
+                </div>
+              ) : (
+                <div className="bg-gray-50 p-3 rounded-md">
+                  <p className="text-sm text-gray-600 font-medium mb-1">Cost Preview:</p>
+                  <p className="text-sm">
+                    Cost per {ingredientData.used_unit}: R{previewCostPerUnit.toFixed(4)}
+                    {selectedSubRecipe && ` (rolled up from ${selectedSubRecipe.name})`}
+                  </p>
+                  <p className="text-sm font-bold text-green-600">
+                    Total Cost: R{(previewCostPerUnit * Number(ingredientData.quantity_used)).toFixed(2)}
+                  </p>
+                </div>
+              )
             )}
             
             <Button 
@@ -875,7 +953,14 @@ const RecipePage = () => {
                         <TableCell className="font-medium">{ingredient.ingredient_name}</TableCell>
                         <TableCell>{ingredient.quantity_used} {ingredient.used_unit}</TableCell>
                         <TableCell>
-                          {ingredient.pack_size} {ingredient.pack_unit} @ R{ingredient.pack_price?.toFixed(2)}
+                          {ingredient.sub_recipe_id ? (
+                            <span className="inline-flex items-center gap-1 text-blue-700">
+                              <Layers className="h-3 w-3" />
+                              Sub-recipe
+                            </span>
+                          ) : (
+                            <>{ingredient.pack_size} {ingredient.pack_unit} @ R{ingredient.pack_price?.toFixed(2)}</>
+                          )}
                         </TableCell>
                         <TableCell>R{ingredient.cost_per_unit.toFixed(4)}</TableCell>
                         <TableCell className="font-bold text-green-600">
@@ -910,6 +995,70 @@ const RecipePage = () => {
         </Card>
       )}
 
+      {/* Bill of Materials: sub-recipes broken down to raw ingredients */}
+      {selectedRecipe && billOfMaterials && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Bill of Materials
+              <span className="text-sm font-normal text-gray-600 ml-2">
+                - one batch of {selectedRecipe.batch_size} {selectedRecipe.unit} (Raw ingredient cost: R{billOfMaterials.total_cost.toFixed(2)})
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ingredient</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {billOfMaterials.lines.map(line => (
+                    <TableRow key={line.key} className={line.sub_recipe_id ? 'bg-blue-50' : ''}>
+                      <TableCell style={{ paddingLeft: `${1 + line.depth * 1.5}rem` }}>
+                        <span className={line.sub_recipe_id ? 'inline-flex items-center gap-1 font-medium text-blue-700' : ''}>
+                          {line.sub_recipe_id && <Layers className="h-3 w-3" />}
+                          {line.ingredient_name}
+                        </span>
+                        {line.problem && <span className="ml-2 text-xs text-red-600">{line.problem}</span>}
+                      </TableCell>
+                      <TableCell>{Number(line.quantity.toFixed(3))} {line.unit}</TableCell>
+                      <TableCell className="text-right">{line.cost === null ? '-' : `R${line.cost.toFixed(2)}`}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <h4 className="font-medium mb-2">Raw ingredients in total</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ingredient</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {billOfMaterials.raw_ingredients.map(ingredient => (
+                    <TableRow key={ingredient.key}>
+                      <TableCell className="font-medium">{ingredient.ingredient_name}</TableCell>
+                      <TableCell>{Number(ingredient.quantity.toFixed(3))} {ingredient.unit}</TableCell>
+                      <TableCell className="text-right">R{ingredient.cost.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recipes List */}
       <Card>
         <CardHeader>
@@ -937,6 +1086,14 @@ const RecipePage = () => {
                       >
                         {selectedRecipeId === recipe.id ? 'Selected' : 'Select'}
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryRecipeId(recipe.id)}
+                        title="Versions and cost history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="destructive"
                         size="sm"
@@ -962,6 +1119,12 @@ const RecipePage = () => {
           )}
         </CardContent>
       </Card>
+
+      <RecipeVersionsDialog
+        isOpen={!!historyRecipeId}
+        onClose={() => setHistoryRecipeId(null)}
+        recipeId={historyRecipeId}
+      />
       
       <Navigation />
     </div>
@@ -6,11 +6,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DateRangePicker } from "@/components/DateRangePicker";
-import { BarChart3, DollarSign, ShoppingCart, TrendingUp, FileText } from "lucide-react";
+import { BarChart3, DollarSign, ShoppingCart, TrendingUp, FileText, Tag, Printer } from "lucide-react";
 import { format } from "date-fns";
 import { DateRange } from "react-day-picker";
 import Navigation from "@/components/Navigation";
+import { TAX_CLASSES } from "@/utils/tax";
+import { useReceiptPrinter } from "@/hooks/useReceiptPrinter";
+import { RECEIPT_WIDTHS, ReceiptWidth } from "@/utils/receipt";
+import { PaymentRow, getPaymentMethodLabel, summarisePayments } from "@/utils/payments";
 
 interface SalesTransaction {
   id: string;
@@ -18,10 +23,22 @@ interface SalesTransaction {
   customer_name?: string;
   subtotal: number;
   tax_amount: number;
+  discount_amount: number;
   total_amount: number;
   payment_method: string;
   transaction_date: string;
   items?: SalesTransactionItem[];
+  sales_transaction_items?: SalesTransactionItem[];
+  payment_status: string;
+  payment_transactions?: PaymentRow[];
+  sales_returns?: SalesReturn[];
+}
+
+interface SalesReturn {
+  return_type: string;
+  refund_amount: number;
+  tax_amount: number;
+  sales_return_items: Pick<SalesTransactionItem, 'tax_class' | 'tax_amount' | 'net_amount'>[];
 }
 
 interface SalesTransactionItem {
@@ -29,11 +46,16 @@ interface SalesTransactionItem {
   quantity: number;
   unit_price: number;
   line_total: number;
+  discount_amount: number;
+  tax_class: string;
+  tax_amount: number;
+  net_amount: number;
 }
 
 const SalesReportsPage = () => {
   const [dateRange, setDateRange] = useState<DateRange | undefined>();
   const [searchTerm, setSearchTerm] = useState('');
+  const { paperWidth, setPaperWidth, printReceipt, isPrinting } = useReceiptPrinter();
 
   // Fetch sales transactions
   const { data: transactions = [], isLoading } = useQuery({
@@ -47,7 +69,22 @@ const SalesReportsPage = () => {
             product_name,
             quantity,
             unit_price,
-            line_total
+            line_total,
+            discount_amount,
+            tax_class,
+            tax_amount,
+            net_amount
+          ),
+          payment_transactions(
+            payment_method,
+            amount_paid,
+            change_given
+          ),
+          sales_returns(
+            return_type,
+            refund_amount,
+            tax_amount,
+            sales_return_items(tax_class, tax_amount, net_amount)
           )
         `)
         .order('transaction_date', { ascending: false });
@@ -71,17 +108,45 @@ const SalesReportsPage = () => {
     (transaction.customer_name && transaction.customer_name.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  // Refunds and voids are taken off the sale they were made against
+  const filteredReturns = filteredTransactions.flatMap(tx => tx.sales_returns || []);
+  const totalRefunds = filteredReturns.reduce((sum, saleReturn) => sum + saleReturn.refund_amount, 0);
+  const refundedTax = filteredReturns.reduce((sum, saleReturn) => sum + saleReturn.tax_amount, 0);
+
   // Calculate summary statistics
-  const totalSales = filteredTransactions.reduce((sum, tx) => sum + tx.total_amount, 0);
-  const totalTransactions = filteredTransactions.length;
+  const grossSales = filteredTransactions.reduce((sum, tx) => sum + tx.total_amount, 0);
+  const totalSales = grossSales - totalRefunds;
+  const totalTransactions = filteredTransactions.filter(tx => tx.payment_status !== 'voided').length;
   const averageSale = totalTransactions > 0 ? totalSales / totalTransactions : 0;
-  const totalTax = filteredTransactions.reduce((sum, tx) => sum + tx.tax_amount, 0);
+  const totalTax = filteredTransactions.reduce((sum, tx) => sum + tx.tax_amount, 0) - refundedTax;
+  const totalDiscounts = filteredTransactions.reduce((sum, tx) => sum + (tx.discount_amount || 0), 0);
 
-  // Payment method breakdown
-  const paymentMethodStats = filteredTransactions.reduce((acc, tx) => {
-    acc[tx.payment_method] = (acc[tx.payment_method] || 0) + tx.total_amount;
-    return acc;
-  }, {} as Record<string, number>);
+  // VAT breakdown per tax class, taken from the individual sale lines
+  const vatByClass = TAX_CLASSES.map(taxClass => {
+    const lines = filteredTransactions
+      .flatMap(tx => tx.sales_transaction_items || [])
+      .filter(item => (item.tax_class || 'standard') === taxClass.value);
+    const returnedLines = filteredReturns
+      .flatMap(saleReturn => saleReturn.sales_return_items)
+      .filter(item => (item.tax_class || 'standard') === taxClass.value);
+    const net = lines.reduce((sum, item) => sum + (item.net_amount || 0), 0)
+      - returnedLines.reduce((sum, item) => sum + item.net_amount, 0);
+    const vat = lines.reduce((sum, item) => sum + (item.tax_amount || 0), 0)
+      - returnedLines.reduce((sum, item) => sum + item.tax_amount, 0);
+    return { ...taxClass, net, vat, gross: net + vat };
+  });
+
+  // Payments recorded against a sale; older sales without payment rows fall back to the sale's method
+  const getPayments = (tx: SalesTransaction): PaymentRow[] =>
+    tx.payment_transactions && tx.payment_transactions.length > 0
+      ? tx.payment_transactions
+      : [{ payment_method: tx.payment_method, amount_paid: tx.total_amount, change_given: 0 }];
+
+  const describePayments = (tx: SalesTransaction) =>
+    Array.from(new Set(getPayments(tx).map(payment => getPaymentMethodLabel(payment.payment_method)))).join(' + ');
+
+  // Payment method breakdown, split tenders count towards each method they used
+  const paymentMethodStats = summarisePayments(filteredTransactions.flatMap(getPayments));
 
   // Print report function
   const handlePrintReport = () => {
@@ -114,8 +179,32 @@ const SalesReportsPage = () => {
               <p><strong>Total Transactions:</strong> ${totalTransactions}</p>
               <p><strong>Average Sale:</strong> R${averageSale.toFixed(2)}</p>
               <p><strong>Total Tax Collected:</strong> R${totalTax.toFixed(2)}</p>
+              <p><strong>Promotion Discounts:</strong> R${totalDiscounts.toFixed(2)}</p>
+              <p><strong>Refunds &amp; Voids:</strong> R${totalRefunds.toFixed(2)}</p>
             </div>
 
+            <h2>VAT Summary</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Tax Class</th>
+                  <th>Net</th>
+                  <th>VAT</th>
+                  <th>Gross</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${vatByClass.map(row => `
+                  <tr>
+                    <td>${row.label}</td>
+                    <td>R${row.net.toFixed(2)}</td>
+                    <td>R${row.vat.toFixed(2)}</td>
+                    <td>R${row.gross.toFixed(2)}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+
             <h2>Transactions</h2>
             <table>
               <thead>
@@ -125,6 +214,7 @@ const SalesReportsPage = () => {
                   <th>Customer</th>
                   <th>Items</th>
                   <th>Subtotal</th>
+                  <th>Discount</th>
                   <th>Tax</th>
                   <th>Total</th>
                   <th>Payment</th>
@@ -138,9 +228,10 @@ const SalesReportsPage = () => {
                     <td>${tx.customer_name || 'Walk-in'}</td>
                     <td>${tx.items?.length || 0}</td>
                     <td>R${tx.subtotal.toFixed(2)}</td>
+                    <td>R${(tx.discount_amount || 0).toFixed(2)}</td>
                     <td>R${tx.tax_amount.toFixed(2)}</td>
-                    <td>R${tx.total_amount.toFixed(2)}</td>
-                    <td>${tx.payment_method.toUpperCase()}</td>
+                    <td>R${tx.total_amount.toFixed(2)}${tx.payment_status !== 'completed' ? ` (${tx.payment_status.replace('_', ' ')})` : ''}</td>
+                    <td>${describePayments(tx)}</td>
                   </tr>
                 `).join('')}
               </tbody>
@@ -177,10 +268,20 @@ const SalesReportsPage = () => {
               <FileText className="h-4 w-4 mr-2" />
               Print Report
             </Button>
+            <Select value={paperWidth} onValueChange={(value) => setPaperWidth(value as ReceiptWidth)}>
+              <SelectTrigger className="w-full sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECEIPT_WIDTHS.map(width => (
+                  <SelectItem key={width.value} value={width.value}>{width.label} receipts</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Summary Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium">Total Sales</CardTitle>
@@ -188,6 +289,9 @@ const SalesReportsPage = () => {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">R{totalSales.toFixed(2)}</div>
+                {totalRefunds > 0 && (
+                  <p className="text-xs text-red-600">after R{totalRefunds.toFixed(2)} refunds</p>
+                )}
               </CardContent>
             </Card>
 
@@ -220,6 +324,16 @@ const SalesReportsPage = () => {
                 <div className="text-2xl font-bold">R{totalTax.toFixed(2)}</div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Promotion Discounts</CardTitle>
+                <Tag className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-red-600">R{totalDiscounts.toFixed(2)}</div>
+              </CardContent>
+            </Card>
           </div>
 
           {/* Payment Method Breakdown */}
@@ -232,7 +346,7 @@ const SalesReportsPage = () => {
                 {Object.entries(paymentMethodStats).map(([method, amount]) => (
                   <div key={method} className="text-center">
                     <Badge variant="secondary" className="mb-2">
-                      {method.toUpperCase()}
+                      {getPaymentMethodLabel(method)}
                     </Badge>
                     <div className="text-lg font-semibold">R{amount.toFixed(2)}</div>
                   </div>
@@ -241,6 +355,35 @@ const SalesReportsPage = () => {
             </CardContent>
           </Card>
 
+          {/* VAT Breakdown */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>VAT Summary</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tax Class</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                    <TableHead className="text-right">VAT</TableHead>
+                    <TableHead className="text-right">Gross</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {vatByClass.map(row => (
+                    <TableRow key={row.value}>
+                      <TableCell>{row.label}</TableCell>
+                      <TableCell className="text-right">R{row.net.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">R{row.vat.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">R{row.gross.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
           {/* Transactions Table */}
           <Card>
             <CardHeader>
@@ -260,6 +403,7 @@ const SalesReportsPage = () => {
                         <TableHead>Items</TableHead>
                         <TableHead>Total</TableHead>
                         <TableHead>Payment</TableHead>
+                        <TableHead>Receipt</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -281,15 +425,36 @@ const SalesReportsPage = () => {
                           </TableCell>
                           <TableCell className="font-medium">
                             R{transaction.total_amount.toFixed(2)}
+                            {transaction.discount_amount > 0 && (
+                              <span className="block text-xs text-red-600">
+                                -R{transaction.discount_amount.toFixed(2)} promo
+                              </span>
+                            )}
+                            {transaction.payment_status !== 'completed' && (
+                              <span className="block text-xs text-red-600">
+                                {transaction.payment_status === 'voided' ? 'Voided' : 'Refunded'}
+                                {' '}-R{(transaction.sales_returns || []).reduce((sum, r) => sum + r.refund_amount, 0).toFixed(2)}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <Badge variant={
                               transaction.payment_method === 'cash' ? 'default' :
                               transaction.payment_method === 'card' ? 'secondary' : 'outline'
                             }>
-                              {transaction.payment_method.toUpperCase()}
+                              {describePayments(transaction)}
                             </Badge>
                           </TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={isPrinting}
+                              onClick={() => printReceipt(transaction.id, { reprint: true })}
+                            >
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -0,0 +1,404 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Search, Scan, RotateCcw, Ban } from "lucide-react";
+import { format } from "date-fns";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import Navigation from "@/components/Navigation";
+import ManagerOverrideDialog, { OverrideCredentials } from "@/components/auth/ManagerOverrideDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { canApproveOverrides } from "@/lib/auth";
+import { getPaymentMethodLabel, summarisePayments } from "@/utils/payments";
+
+type SaleReturnType = 'refund' | 'void';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const statusBadge = (status: string) => {
+  switch (status) {
+    case 'voided':
+      return <Badge variant="destructive">Voided</Badge>;
+    case 'refunded':
+      return <Badge variant="destructive">Refunded</Badge>;
+    case 'partially_refunded':
+      return <Badge variant="outline">Partially Refunded</Badge>;
+    default:
+      return <Badge variant="secondary">Completed</Badge>;
+  }
+};
+
+const SalesReturnsPage = () => {
+  const [searchNumber, setSearchNumber] = useState('');
+  const [lookupNumber, setLookupNumber] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [refundMethod, setRefundMethod] = useState('');
+  const [pendingType, setPendingType] = useState<SaleReturnType | null>(null);
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  // Look up a completed sale with everything already returned against it
+  const { data: sale, isLoading } = useQuery({
+    queryKey: ['sale_lookup', lookupNumber],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('sales_transactions')
+        .select(`
+          *,
+          sales_transaction_items(*),
+          payment_transactions(payment_method, amount_paid, change_given),
+          sales_returns(
+            return_number,
+            return_type,
+            refund_amount,
+            refund_method,
+            reason,
+            approved_by_name,
+            created_at,
+            sales_return_items(sales_transaction_item_id, quantity)
+          )
+        `)
+        .eq('transaction_number', lookupNumber)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!lookupNumber,
+  });
+
+  const returnedByLine = (sale?.sales_returns || [])
+    .flatMap(saleReturn => saleReturn.sales_return_items)
+    .reduce((acc, item) => {
+      acc[item.sales_transaction_item_id] = (acc[item.sales_transaction_item_id] || 0) + item.quantity;
+      return acc;
+    }, {} as Record<string, number>);
+
+  const lines = (sale?.sales_transaction_items || []).map(item => ({
+    ...item,
+    returnable: item.quantity - (returnedByLine[item.id] || 0),
+  }));
+
+  // What is left to refund on each method the customer paid with, after change and earlier refunds.
+  // Refunds go back the same way and never for more than that method took.
+  const refundableByMethod = summarisePayments(sale?.payment_transactions || []);
+  const paidMethods = Object.keys(refundableByMethod).filter(method => refundableByMethod[method] > 0);
+
+  const canVoid = !!sale && sale.payment_status === 'completed' && (sale.sales_returns || []).length === 0;
+  const isClosed = !!sale && (sale.payment_status === 'voided' || sale.payment_status === 'refunded');
+
+  const selectedLines = lines
+    .map(line => ({ line, quantity: parseFloat(returnQuantities[line.id] || '0') }))
+    .filter(({ quantity }) => quantity > 0);
+
+  const selectedRefundTotal = selectedLines.reduce(
+    (sum, { line, quantity }) => sum + round2(line.line_total * quantity / line.quantity),
+    0
+  );
+
+  const resetReturnForm = () => {
+    setReturnQuantities({});
+    setReason('');
+    setRefundMethod('');
+  };
+
+  const lookupSale = (transactionNumber: string) => {
+    const trimmed = transactionNumber.trim();
+    if (!trimmed) {
+      toast.error('Enter a transaction number');
+      return;
+    }
+    resetReturnForm();
+    setSearchNumber(trimmed);
+    setLookupNumber(trimmed);
+  };
+
+  const handleReceiptScanned = (code: string) => {
+    setShowScanner(false);
+    lookupSale(code);
+  };
+
+  const processReturnMutation = useMutation({
+    // Credentials are left out when a manager approves their own return; the server checks either way
+    mutationFn: async ({ type, credentials }: { type: SaleReturnType; credentials?: OverrideCredentials }) => {
+      const { data, error } = await supabase.rpc('process_sale_return', {
+        p_sales_transaction_id: sale!.id,
+        p_return_type: type,
+        p_reason: reason.trim(),
+        p_refund_method: type === 'void' ? sale!.payment_method : refundMethod,
+        p_items: type === 'void'
+          ? []
+          : selectedLines.map(({ line, quantity }) => ({ sales_transaction_item_id: line.id, quantity })),
+        p_approver_username: credentials?.username,
+        p_approver_password: credentials?.password,
+      });
+
+      if (error) throw error;
+      const saleReturn = data[0];
+      return { returnNumber: saleReturn.return_number, refundAmount: saleReturn.refund_amount, type };
+    },
+    onSuccess: (data) => {
+      toast.success(
+        data.type === 'void'
+          ? `Sale voided (${data.returnNumber}). Refund R${data.refundAmount.toFixed(2)}`
+          : `Refund ${data.returnNumber} processed for R${data.refundAmount.toFixed(2)}`
+      );
+      resetReturnForm();
+      queryClient.invalidateQueries({ queryKey: ['sale_lookup'] });
+      queryClient.invalidateQueries({ queryKey: ['sales_transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['session_sales'] });
+      queryClient.invalidateQueries({ queryKey: ['product_stock'] });
+    },
+    onError: (error: Error) => {
+      console.error('Return processing error:', error);
+      toast.error(`Failed to process return: ${error.message}`);
+    },
+  });
+
+  // Managers approve their own returns; everyone else needs a manager to step in
+  const requestReturn = (type: SaleReturnType) => {
+    if (!reason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+    if (type === 'refund') {
+      if (selectedLines.length === 0) {
+        toast.error('Select at least one item to refund');
+        return;
+      }
+      const overReturned = selectedLines.find(({ line, quantity }) => quantity > line.returnable);
+      if (overReturned) {
+        toast.error(`Only ${overReturned.line.returnable} of ${overReturned.line.product_name} can be returned`);
+        return;
+      }
+      if (!refundMethod) {
+        toast.error('Choose how to refund the customer');
+        return;
+      }
+      if (selectedRefundTotal > round2(refundableByMethod[refundMethod] || 0)) {
+        toast.error(`Only R${(refundableByMethod[refundMethod] || 0).toFixed(2)} can be refunded by ${getPaymentMethodLabel(refundMethod)}`);
+        return;
+      }
+    }
+
+    if (user && canApproveOverrides(user.role)) {
+      processReturnMutation.mutate({ type });
+    } else {
+      setPendingType(type);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <div className="container mx-auto p-4">
+        <h1 className="text-3xl font-bold mb-4">Returns & Voids</h1>
+
+        {/* Sale lookup */}
+        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          <Input
+            placeholder="Transaction number (TXN-...)"
+            value={searchNumber}
+            onChange={(e) => setSearchNumber(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && lookupSale(searchNumber)}
+            className="w-full sm:w-72"
+          />
+          <Button onClick={() => lookupSale(searchNumber)}>
+            <Search className="h-4 w-4 mr-2" />
+            Find Sale
+          </Button>
+          <Dialog open={showScanner} onOpenChange={setShowScanner}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Scan className="h-4 w-4 mr-2" />
+                Scan Receipt
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Scan Receipt Barcode</DialogTitle>
+              </DialogHeader>
+              <BarcodeScanner onScan={handleReceiptScanned} />
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {isLoading && <div className="text-center py-8">Looking up sale...</div>}
+
+        {lookupNumber && !isLoading && !sale && (
+          <div className="text-center py-8 text-gray-500">No sale found for {lookupNumber}</div>
+        )}
+
+        {sale && (
+          <>
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex justify-between items-center">
+                  <span className="font-mono">{sale.transaction_number}</span>
+                  {statusBadge(sale.payment_status)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+                  <div>
+                    <p className="text-gray-500">Date</p>
+                    <p>{format(new Date(sale.transaction_date), 'PPp')}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Customer</p>
+                    <p>{sale.customer_name || 'Walk-in'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Total</p>
+                    <p className="font-semibold">R{sale.total_amount.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Paid By</p>
+                    <p>{paidMethods.map(getPaymentMethodLabel).join(' + ') || '-'}</p>
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Sold</TableHead>
+                      <TableHead>Returned</TableHead>
+                      <TableHead>Line Total</TableHead>
+                      <TableHead>Return Qty</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map(line => (
+                      <TableRow key={line.id}>
+                        <TableCell>{line.product_name}</TableCell>
+                        <TableCell>{line.quantity}</TableCell>
+                        <TableCell>{returnedByLine[line.id] || 0}</TableCell>
+                        <TableCell>R{line.line_total.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={line.returnable}
+                            className="w-20"
+                            disabled={isClosed || line.returnable <= 0}
+                            value={returnQuantities[line.id] || ''}
+                            onChange={(e) => setReturnQuantities({ ...returnQuantities, [line.id]: e.target.value })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {!isClosed && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Process Return</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Textarea
+                    placeholder="Reason for the return or void"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                  <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+                    <Select value={refundMethod} onValueChange={setRefundMethod}>
+                      <SelectTrigger className="sm:w-48">
+                        <SelectValue placeholder="Refund to" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {paidMethods.map(method => (
+                          <SelectItem key={method} value={method}>{getPaymentMethodLabel(method)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="font-semibold">Refund: R{selectedRefundTotal.toFixed(2)}</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => requestReturn('refund')}
+                      disabled={processReturnMutation.isPending || selectedLines.length === 0}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Refund Selected
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => requestReturn('void')}
+                      disabled={processReturnMutation.isPending || !canVoid}
+                    >
+                      <Ban className="h-4 w-4 mr-2" />
+                      Void Sale
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Earlier returns against this sale */}
+            {(sale.sales_returns || []).length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Return History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Return #</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Approved By</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sale.sales_returns.map(saleReturn => (
+                        <TableRow key={saleReturn.return_number}>
+                          <TableCell>{format(new Date(saleReturn.created_at), 'MMM dd, HH:mm')}</TableCell>
+                          <TableCell className="font-mono text-sm">{saleReturn.return_number}</TableCell>
+                          <TableCell className="capitalize">{saleReturn.return_type}</TableCell>
+                          <TableCell className="text-red-600">-R{saleReturn.refund_amount.toFixed(2)}</TableCell>
+                          <TableCell>{saleReturn.approved_by_name}</TableCell>
+                          <TableCell className="max-w-xs truncate">{saleReturn.reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+
+      <ManagerOverrideDialog
+        open={!!pendingType}
+        onOpenChange={(open) => !open && setPendingType(null)}
+        description={pendingType === 'void' ? 'Voiding a sale needs manager approval.' : 'Refunds need manager approval.'}
+        onApproved={(_approver, credentials) => {
+          if (pendingType) {
+            processReturnMutation.mutate({ type: pendingType, credentials });
+          }
+        }}
+      />
+
+      <Navigation />
+    </div>
+  );
+};
+
+export default SalesReturnsPage;
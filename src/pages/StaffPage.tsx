@@ -6,7 +6,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import Navigation from "@/components/Navigation";
-import { Pencil, Trash2, Eye, EyeOff } from "lucide-react";
+import ConductHistoryDialog from "@/components/staff/ConductHistoryDialog";
+import { Pencil, Trash2, Eye, EyeOff, ScrollText, IdCard } from "lucide-react";
+import { buildStaffBadgeHtml } from "@/utils/staffBadge";
+import { printReceiptHtml } from "@/utils/receipt";
 
 interface Department {
   id: number;
@@ -19,6 +22,7 @@ interface Staff {
   department_id: number;
   department_name?: string;
   active?: boolean;
+  badge_code?: string;
 }
 
 export default function StaffPage() {
@@ -32,6 +36,7 @@ export default function StaffPage() {
   const [editingStaff, setEditingStaff] = useState<Staff | null>(null);
   const [editName, setEditName] = useState('');
   const [editDepartmentId, setEditDepartmentId] = useState('');
+  const [historyStaff, setHistoryStaff] = useState<Staff | null>(null);
 
   useEffect(() => {
     fetchDepartments();
@@ -93,7 +98,8 @@ export default function StaffPage() {
         name: item.name,
         department_id: item.department_id,
         department_name: item.departments?.name || 'No Department',
-        active: item.active
+        active: item.active,
+        badge_code: item.badge_code
       })) || [];
 
       setStaff(staffWithDeptNames);
@@ -261,6 +267,24 @@ export default function StaffPage() {
                     <div className="text-sm text-gray-600">{person.department_name}</div>
                   </div>
                   <div className="flex gap-2">
+                    {person.badge_code && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Print badge"
+                        onClick={() => printReceiptHtml(buildStaffBadgeHtml(person.name, person.department_name || '', person.badge_code!))}
+                      >
+                        <IdCard className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Merits & demerits"
+                      onClick={() => setHistoryStaff(person)}
+                    >
+                      <ScrollText className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -289,6 +313,11 @@ export default function StaffPage() {
         )}
       </div>
 
+      <ConductHistoryDialog
+        staff={historyStaff}
+        onOpenChange={(open) => !open && setHistoryStaff(null)}
+      />
+
       {/* Edit Dialog */}
       <Dialog open={!!editingStaff} onOpenChange={(open) => !open && setEditingStaff(null)}>
         <DialogContent>
@@ -14,6 +14,8 @@ import { toast } from '@/components/ui/sonner';
 import Navigation from '@/components/Navigation';
 import { Badge } from '@/components/ui/badge';
 import StockAdjustmentDialog from '@/components/StockAdjustmentDialog';
+import { useProductStock } from '@/hooks/useProductStock';
+import { convertQuantity, getConversionError } from '@/utils/units';
 
 // Types
 interface Ingredient {
@@ -23,6 +25,8 @@ interface Ingredient {
   weight: number;
   price_ex_vat: number;
   total_price: number;
+  density_g_per_ml: number | null;
+  each_weight_g: number | null;
 }
 
 interface KitchenStock {
@@ -56,6 +60,7 @@ interface IngredientTransfer {
 
 const StockPage = () => {
   const queryClient = useQueryClient();
+  const { productStock, isLoading: isLoadingProductStock } = useProductStock();
   const [transferDialogOpen, setTransferDialogOpen] = useState(false);
   const [stockToStockDialogOpen, setStockToStockDialogOpen] = useState(false);
   const [adjustmentDialogOpen, setAdjustmentDialogOpen] = useState(false);
@@ -223,6 +228,14 @@ const StockPage = () => {
       // Calculate new cost per unit for target ingredient
       const newCostPerUnit = toIngredient.total_price / toIngredient.weight;
 
+      // The target is stocked in its own unit, which need not be the source's
+      const existingTargetStock = kitchenStock.find(s => s.ingredient_id === stockTransfer.to_ingredient_id);
+      const targetUnit = existingTargetStock?.unit ?? toIngredient.unit;
+      const quantityInTargetUnit = convertQuantity(stockTransfer.quantity_transferred, fromStock.unit, targetUnit, toIngredient);
+      if (quantityInTargetUnit === null) {
+        throw new Error(getConversionError(fromStock.unit, targetUnit, toIngredient));
+      }
+
       // Update source stock (reduce quantity)
       const { error: updateFromError } = await supabase
         .from('kitchen_stock')
@@ -234,15 +247,12 @@ const StockPage = () => {
 
       if (updateFromError) throw updateFromError;
 
-      // Check if target ingredient already exists in kitchen stock
-      const existingTargetStock = kitchenStock.find(s => s.ingredient_id === stockTransfer.to_ingredient_id);
-
       if (existingTargetStock) {
         // Update existing target stock
         const { error: updateToError } = await supabase
           .from('kitchen_stock')
           .update({
-            quantity_on_hand: existingTargetStock.quantity_on_hand + stockTransfer.quantity_transferred,
+            quantity_on_hand: existingTargetStock.quantity_on_hand + quantityInTargetUnit,
             cost_per_unit: newCostPerUnit,
             last_updated: new Date().toISOString()
           })
@@ -258,7 +268,7 @@ const StockPage = () => {
             ingredient_name: toIngredient.name,
             pack_size: toIngredient.weight,
             unit: toIngredient.unit,
-            quantity_on_hand: stockTransfer.quantity_transferred,
+            quantity_on_hand: quantityInTargetUnit,
             cost_per_unit: newCostPerUnit
           });
 
@@ -487,8 +497,9 @@ const StockPage = () => {
 
       {/* Main Content with Tabs */}
       <Tabs defaultValue="stock" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="stock">Current Stock</TabsTrigger>
+          <TabsTrigger value="finished-goods">Finished Goods</TabsTrigger>
           <TabsTrigger value="transfers">Transfer History</TabsTrigger>
           <TabsTrigger value="adjustments">Adjustments</TabsTrigger>
         </TabsList>
@@ -547,6 +558,64 @@ const StockPage = () => {
           </Card>
         </TabsContent>
 
+        <TabsContent value="finished-goods">
+          <Card>
+            <CardHeader>
+              <CardTitle>Finished Goods on Hand</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoadingProductStock ? (
+                <div className="text-center py-4">Loading finished goods...</div>
+              ) : productStock.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Produced</TableHead>
+                      <TableHead>Sold</TableHead>
+                      <TableHead>Expired</TableHead>
+                      <TableHead>On Hand</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {productStock.map(stock => (
+                      <TableRow key={stock.product_id}>
+                        <TableCell className="font-medium">{stock.product_name}</TableCell>
+                        <TableCell>{stock.product_code}</TableCell>
+                        <TableCell>{stock.produced}</TableCell>
+                        <TableCell>{stock.sold}</TableCell>
+                        <TableCell>{stock.expired}</TableCell>
+                        <TableCell className="font-bold">{stock.on_hand}</TableCell>
+                        <TableCell>
+                          {stock.on_hand < 0 ? (
+                            <Badge variant="outline" className="bg-red-100 text-red-800 border-red-300">
+                              Oversold
+                            </Badge>
+                          ) : stock.on_hand === 0 ? (
+                            <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300">
+                              Sold Out
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-green-100 text-green-800 border-green-300">
+                              In Stock
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-4 text-gray-500">
+                  No products found.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="transfers">
           <Card>
             <CardHeader>
@@ -10,16 +10,16 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Eye, EyeOff, Edit, Trash2, Plus, QrCode, Key, User, UserCheck, UserX } from 'lucide-react';
+import { Edit, Trash2, Plus, QrCode, Key, KeyRound, User, UserCheck, UserX } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import Navigation from '@/components/Navigation';
+import { POS_ROLES } from '@/lib/auth';
 
 // Types
 interface PosUser {
   id: string;
   username: string;
-  password: string;
   qr_code: string | null;
   role: string;
   created_at: string;
@@ -40,7 +40,6 @@ const generateQRCode = () => {
 
 const UserManagementPage = () => {
   const queryClient = useQueryClient();
-  const [showPassword, setShowPassword] = useState(false);
   const [userForm, setUserForm] = useState({
     username: '',
     password: '',
@@ -51,16 +50,19 @@ const UserManagementPage = () => {
   });
   const [isEditing, setIsEditing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [editingUserUsedQR, setEditingUserUsedQR] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [resetUser, setResetUser] = useState<PosUser | null>(null);
+  const [newPassword, setNewPassword] = useState({ password: '', confirm: '' });
 
-  // Fetch Users
+  // A new password is needed when creating a password user, or switching a QR user to password login
+  const passwordRequired = !userForm.useQRCode && (!isEditing || editingUserUsedQR);
+
+  // Fetch Users (password hashes are never readable from the browser, badge codes only by admins)
   const { data: users = [], isLoading } = useQuery({
     queryKey: ['pos_users'],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('pos_users')
-        .select('*')
-        .order('username');
+      const { data, error } = await supabase.rpc('list_pos_users');
       
       if (error) throw error;
       return data as PosUser[];
@@ -70,18 +72,18 @@ const UserManagementPage = () => {
   // Create/Update User Mutation
   const upsertUser = useMutation({
     mutationFn: async () => {
-      if (!userForm.username || (!userForm.useQRCode && !userForm.password)) {
+      if (!userForm.username || (passwordRequired && !userForm.password)) {
         throw new Error('Username and either Password or QR Code are required');
       }
 
       const userData = {
         username: userForm.username,
-        password: userForm.useQRCode ? generateQRCode() : userForm.password,
         qr_code: userForm.useQRCode ? userForm.qr_code || generateQRCode() : null,
         role: userForm.role,
         active: userForm.active,
       };
 
+      let userId = currentUserId;
       if (isEditing && currentUserId) {
         const { error } = await supabase
           .from('pos_users')
@@ -90,11 +92,24 @@ const UserManagementPage = () => {
         
         if (error) throw error;
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('pos_users')
-          .insert([userData]);
+          .insert([userData])
+          .select('id')
+          .single();
         
         if (error) throw error;
+        userId = data.id;
+      }
+
+      // Passwords are hashed by the database; QR-only users have no password at all
+      if (userForm.useQRCode || passwordRequired) {
+        const { error: passwordError } = await supabase.rpc('set_pos_user_password', {
+          p_user_id: userId,
+          p_password: userForm.useQRCode ? null : userForm.password,
+        });
+
+        if (passwordError) throw passwordError;
       }
     },
     onSuccess: () => {
@@ -127,6 +142,33 @@ const UserManagementPage = () => {
     }
   });
 
+  // Reset Password Mutation
+  const resetPassword = useMutation({
+    mutationFn: async () => {
+      if (!resetUser) return;
+      if (!newPassword.password) {
+        throw new Error('Please enter a new password');
+      }
+      if (newPassword.password !== newPassword.confirm) {
+        throw new Error('Passwords do not match');
+      }
+
+      const { error } = await supabase.rpc('set_pos_user_password', {
+        p_user_id: resetUser.id,
+        p_password: newPassword.password,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast(`Password reset for ${resetUser?.username}`);
+      closeResetDialog();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    }
+  });
+
   // Delete User Mutation
   const deleteUser = useMutation({
     mutationFn: async (id: string) => {
@@ -149,9 +191,10 @@ const UserManagementPage = () => {
   const handleEditUser = (user: PosUser) => {
     setIsEditing(true);
     setCurrentUserId(user.id);
+    setEditingUserUsedQR(!!user.qr_code);
     setUserForm({
       username: user.username,
-      password: user.password,
+      password: '',
       role: user.role,
       active: user.active || true,
       useQRCode: !!user.qr_code,
@@ -171,7 +214,17 @@ const UserManagementPage = () => {
     });
     setIsEditing(false);
     setCurrentUserId(null);
-    setShowPassword(false);
+    setEditingUserUsedQR(false);
+  };
+
+  const openResetDialog = (user: PosUser) => {
+    setResetUser(user);
+    setNewPassword({ password: '', confirm: '' });
+  };
+
+  const closeResetDialog = () => {
+    setResetUser(null);
+    setNewPassword({ password: '', confirm: '' });
   };
 
   const handleToggleQR = () => {
@@ -191,8 +244,10 @@ const UserManagementPage = () => {
     switch (role) {
       case 'admin':
         return 'destructive';
-      case 'supervisor':
+      case 'manager':
         return 'secondary';
+      case 'cashier':
+        return 'default';
       case 'kitchen-staff':
       default:
         return 'outline';
@@ -203,7 +258,8 @@ const UserManagementPage = () => {
     switch (role) {
       case 'admin':
         return <UserCheck className="h-4 w-4" />;
-      case 'supervisor':
+      case 'manager':
+      case 'cashier':
         return <User className="h-4 w-4" />;
       case 'kitchen-staff':
       default:
@@ -216,7 +272,7 @@ const UserManagementPage = () => {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold">User Management</h1>
-          <p className="text-gray-500">Manage access for kitchen staff and supervisors</p>
+          <p className="text-gray-500">Manage access for cashiers, kitchen staff and managers</p>
         </div>
         
         {/* Add User Button */}
@@ -260,9 +316,9 @@ const UserManagementPage = () => {
                     <SelectValue placeholder="Select Role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="admin">Admin</SelectItem>
-                    <SelectItem value="supervisor">Supervisor</SelectItem>
-                    <SelectItem value="kitchen-staff">Kitchen Staff</SelectItem>
+                    {POS_ROLES.map(role => (
+                      <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -312,31 +368,22 @@ const UserManagementPage = () => {
                     This code will be used for QR code login. Save it somewhere safe.
                   </p>
                 </div>
-              ) : (
+              ) : passwordRequired ? (
                 <div className="grid gap-2">
-                  <div className="flex items-center justify-between">
-                    <Label htmlFor="password">Password</Label>
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="h-8"
-                    >
-                      {showPassword ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </Button>
-                  </div>
+                  <Label htmlFor="password">Password</Label>
                   <Input
                     id="password"
-                    type={showPassword ? "text" : "password"}
+                    type="password"
+                    autoComplete="new-password"
                     placeholder="Password"
                     value={userForm.password}
                     onChange={(e) => setUserForm({ ...userForm, password: e.target.value })}
                   />
                 </div>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  The current password is kept. Use the reset password action to change it.
+                </p>
               )}
             </div>
             
@@ -417,6 +464,16 @@ const UserManagementPage = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          {!user.qr_code && (
+                            <Button 
+                              variant="ghost" 
+                              size="icon"
+                              title="Reset password"
+                              onClick={() => openResetDialog(user)}
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button 
                             variant="ghost" 
                             size="icon"
@@ -458,15 +515,63 @@ const UserManagementPage = () => {
         </CardContent>
       </Card>
 
+      {/* Reset Password Dialog */}
+      <Dialog open={!!resetUser} onOpenChange={(open) => !open && closeResetDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {resetUser?.username}. The old password stops working immediately.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword.password}
+                onChange={(e) => setNewPassword({ ...newPassword, password: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="confirm-password">Confirm Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword.confirm}
+                onChange={(e) => setNewPassword({ ...newPassword, confirm: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeResetDialog}>
+              Cancel
+            </Button>
+            <Button 
+              onClick={() => resetPassword.mutate()}
+              disabled={resetPassword.isPending}
+            >
+              {resetPassword.isPending ? "Resetting..." : "Reset Password"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <div className="bg-yellow-50 border border-yellow-100 p-4 rounded-md">
         <h3 className="font-medium text-yellow-800">Developer Notes</h3>
         <p className="text-sm text-yellow-700 mt-1">
           This page is for developer access only. It allows you to create users with different roles for accessing the POS system.
         </p>
         <ul className="list-disc list-inside mt-2 text-sm text-yellow-700">
-          <li>Admin: Full access to all features</li>
-          <li>Supervisor: Access to products, stock, promotions, analytics</li>
-          <li>Kitchen Staff: Access to production and expired stock management</li>
+          <li>Admin: Full access to all features, including user management</li>
+          <li>Manager: Access to everything except user management</li>
+          <li>Cashier: Access to the POS terminal, cash register and stock information</li>
+          <li>Kitchen Staff: Access to assignments, production, stock and expired stock management</li>
         </ul>
       </div>
       
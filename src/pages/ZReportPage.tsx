@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { FileCheck, Printer, RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import Navigation from '@/components/Navigation';
+import { useSignedZReport, useZReportData } from '@/hooks/useZReport';
+import { getPaymentMethodLabel } from '@/utils/payments';
+import { printReceiptHtml } from '@/utils/receipt';
+import { buildZReportHtml, ZReportSnapshot } from '@/utils/zReport';
+
+const money = (value: number | null) => (value === null ? '-' : `R${value.toFixed(2)}`);
+
+const ZReportPage = () => {
+  const [reportDate, setReportDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const queryClient = useQueryClient();
+  const isFutureDate = reportDate > format(new Date(), 'yyyy-MM-dd');
+
+  const { data: signedReport, isLoading: isLoadingSigned } = useSignedZReport(reportDate);
+  const {
+    data: liveReport,
+    isLoading: isLoadingLive,
+    isFetching,
+    refetch,
+  } = useZReportData(reportDate, !isLoadingSigned && !signedReport);
+
+  // Once signed, the stored snapshot is the report; live figures are only for open days
+  const report: ZReportSnapshot | undefined = signedReport?.snapshot ?? liveReport;
+  const isLoading = isLoadingSigned || (!signedReport && isLoadingLive);
+
+  const signOff = useMutation({
+    mutationFn: async (snapshot: ZReportSnapshot) => {
+      const { error } = await supabase
+        .from('z_reports')
+        .insert({ report_date: reportDate, snapshot: snapshot as unknown as Json });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['z_reports', reportDate] });
+      toast.success(`Z-report for ${reportDate} signed off`);
+    },
+    onError: (error) => {
+      console.error('Error signing off Z-report:', error);
+      toast.error('Failed to sign off the Z-report');
+    },
+  });
+
+  const handleSignOff = () => {
+    if (!liveReport) return;
+    if (liveReport.open_registers > 0 || liveReport.tasks.outstanding > 0) {
+      const proceed = confirm(
+        `${liveReport.open_registers} register(s) are still open and ${liveReport.tasks.outstanding} task(s) are outstanding. Sign off anyway?`
+      );
+      if (!proceed) return;
+    } else if (!confirm(`Sign off the Z-report for ${reportDate}? It cannot be changed afterwards.`)) {
+      return;
+    }
+    signOff.mutate(liveReport);
+  };
+
+  const quantityTable = (title: string, lines: { label: string; quantity: number }[]) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {lines.length === 0 ? (
+          <p className="text-sm text-gray-500">None</p>
+        ) : (
+          <div className="space-y-1">
+            {lines.map(line => (
+              <div key={line.label} className="flex justify-between text-sm">
+                <span>{line.label}</span>
+                <span className="font-medium">{line.quantity}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <div className="container mx-auto p-4">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <h1 className="text-3xl font-bold">End of Day Z-Report</h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="date"
+              className="w-44"
+              value={reportDate}
+              onChange={(e) => e.target.value && setReportDate(e.target.value)}
+            />
+            {!signedReport && (
+              <Button variant="outline" onClick={() => refetch()} disabled={isFetching || isFutureDate}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              disabled={!report}
+              onClick={() => report && printReceiptHtml(buildZReportHtml(report, signedReport ?? undefined))}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+            {!signedReport && (
+              <Button onClick={handleSignOff} disabled={!liveReport || isFutureDate || signOff.isPending}>
+                <FileCheck className="h-4 w-4 mr-2" />
+                Sign Off
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {signedReport ? (
+          <div className="mb-4 p-3 rounded border border-green-200 bg-green-50 text-sm text-green-800">
+            Signed off by <strong>{signedReport.signed_off_by_name || 'Unknown'}</strong> on{' '}
+            {format(new Date(signedReport.signed_off_at), 'MMM dd, yyyy HH:mm')}. These figures are the stored snapshot.
+          </div>
+        ) : (
+          <div className="mb-4 p-3 rounded border border-amber-200 bg-amber-50 text-sm text-amber-800">
+            Draft. Figures are live until a manager signs the day off.
+          </div>
+        )}
+
+        {isFutureDate ? (
+          <p className="text-center text-gray-500 py-8">Pick today or an earlier day</p>
+        ) : isLoading || !report ? (
+          <p className="text-center text-gray-500 py-8">Gathering the day's figures...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Net Sales</p>
+                  <p className="text-2xl font-bold">{money(report.sales.net)}</p>
+                  <p className="text-xs text-gray-500">{report.sales.transactions} transactions</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Refunds & Voids</p>
+                  <p className="text-2xl font-bold text-red-600">{money(report.sales.refunds)}</p>
+                  <p className="text-xs text-gray-500">Gross {money(report.sales.gross)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Register Variance</p>
+                  <p className={`text-2xl font-bold ${report.register_variance < 0 ? 'text-red-600' : report.register_variance > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+                    {money(report.register_variance)}
+                  </p>
+                  {report.open_registers > 0 && (
+                    <p className="text-xs text-amber-600">{report.open_registers} still open</p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Cleaning Completion</p>
+                  <p className="text-2xl font-bold">{report.tasks.completion_rate}%</p>
+                  <p className="text-xs text-gray-500">{report.tasks.done} of {report.tasks.total} tasks</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Takings by Tender</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {report.tenders.length === 0 ? (
+                    <p className="text-sm text-gray-500">No payments taken</p>
+                  ) : (
+                    report.tenders.map(tender => (
+                      <div key={tender.method} className="flex justify-between text-sm">
+                        <span>{getPaymentMethodLabel(tender.method)}</span>
+                        <span className="font-medium">{money(tender.amount)}</span>
+                      </div>
+                    ))
+                  )}
+                  <div className="flex justify-between text-sm border-t pt-1 font-semibold">
+                    <span>Discounts given</span>
+                    <span>{money(report.sales.discounts)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">VAT</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Class</TableHead>
+                        <TableHead className="text-right">Net</TableHead>
+                        <TableHead className="text-right">VAT</TableHead>
+                        <TableHead className="text-right">Gross</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.vat.map(line => (
+                        <TableRow key={line.tax_class}>
+                          <TableCell>{line.label}</TableCell>
+                          <TableCell className="text-right">{money(line.net)}</TableCell>
+                          <TableCell className="text-right">{money(line.vat)}</TableCell>
+                          <TableCell className="text-right">{money(line.gross)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Cash Registers</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Cashier</TableHead>
+                      <TableHead>Opened</TableHead>
+                      <TableHead>Closed</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Counted</TableHead>
+                      <TableHead className="text-right">Variance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.registers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-4 text-gray-500">
+                          No registers opened
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      report.registers.map(register => (
+                        <TableRow key={register.opened_at}>
+                          <TableCell className="font-medium">{register.cashier_name}</TableCell>
+                          <TableCell>{format(new Date(register.opened_at), 'HH:mm')}</TableCell>
+                          <TableCell>
+                            {register.closed_at
+                              ? format(new Date(register.closed_at), 'HH:mm')
+                              : <Badge variant="outline" className="bg-amber-100 text-amber-800">Open</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right">{money(register.expected_cash)}</TableCell>
+                          <TableCell className="text-right">{money(register.counted_cash)}</TableCell>
+                          <TableCell className={`text-right ${(register.variance || 0) < 0 ? 'text-red-600' : ''}`}>
+                            {money(register.variance)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {quantityTable('Production Output', report.production.map(line => ({ label: line.product_name, quantity: line.quantity })))}
+              {quantityTable('Units Sold', report.units_sold.map(line => ({ label: line.product_name, quantity: line.quantity })))}
+              {quantityTable('Units Expired', report.units_expired.map(line => ({ label: line.product_name, quantity: line.quantity })))}
+              {quantityTable('Expired Stock Dispatched', report.units_dispatched.map(line => ({ label: line.destination, quantity: line.quantity })))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Cleaning Tasks</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  <Badge variant="outline" className="bg-green-100 text-green-800">{report.tasks.done} done</Badge>
+                  <Badge variant="outline" className="bg-red-100 text-red-800">{report.tasks.incomplete} incomplete</Badge>
+                  <Badge variant="outline" className="bg-red-100 text-red-800">{report.tasks.overdue} overdue</Badge>
+                  <Badge variant="outline">{report.tasks.outstanding} outstanding</Badge>
+                  {report.tasks.average_hygiene_score !== null && (
+                    <Badge variant="outline">Hygiene {report.tasks.average_hygiene_score}%</Badge>
+                  )}
+                </div>
+                {report.tasks_by_assignee.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Staff</TableHead>
+                        <TableHead className="text-right">Done</TableHead>
+                        <TableHead className="text-right">Assigned</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.tasks_by_assignee.map(line => (
+                        <TableRow key={line.assignee_name}>
+                          <TableCell>{line.assignee_name}</TableCell>
+                          <TableCell className="text-right">{line.done}</TableCell>
+                          <TableCell className="text-right">{line.total}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+      <Navigation />
+    </div>
+  );
+};
+
+export default ZReportPage;
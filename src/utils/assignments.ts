@@ -0,0 +1,20 @@
+import { differenceInMinutes } from 'date-fns';
+
+export const DEFAULT_DUE_TIME = '17:00';
+
+// Turn an "HH:mm" time into a timestamp on the given day, in the till's local time zone
+export const buildDueAt = (time: string, day: Date = new Date()): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const dueAt = new Date(day);
+  dueAt.setHours(hours, minutes, 0, 0);
+  return dueAt.toISOString();
+};
+
+// "45m", "3h 10m", "2d 4h" - how far past its deadline a task is
+export const formatOverdueBy = (dueAt: string, now: Date = new Date()): string => {
+  const minutes = Math.max(0, differenceInMinutes(now, new Date(dueAt)));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
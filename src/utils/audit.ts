@@ -0,0 +1,44 @@
+import { Json } from '@/integrations/supabase/types';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditEntry {
+  id: string;
+  table_name: string;
+  row_id: string | null;
+  action: AuditAction;
+  old_data: Json | null;
+  new_data: Json | null;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  created_at: string;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+const asRecord = (data: Json | null): Record<string, Json | undefined> =>
+  data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+
+// Fields that differ between the old and new row. Inserts and deletes list every field.
+export const getChangedFields = (entry: AuditEntry): AuditFieldChange[] => {
+  const before = asRecord(entry.old_data);
+  const after = asRecord(entry.new_data);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return fields
+    .filter(field => entry.action !== 'UPDATE' || JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+export const formatAuditValue = (value: Json | undefined): string => {
+  if (value === undefined || value === null) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const formatTableName = (tableName: string): string =>
+  tableName.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
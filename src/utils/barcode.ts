@@ -0,0 +1,53 @@
+// Code 128 bar/space widths for symbol values 0-106 (103-105 are the start codes, 106 is stop)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const STOP = 106;
+const QUIET_ZONE = 10;
+
+// Encode printable ASCII with code set B and return the alternating bar/space widths
+const encodeCode128B = (value: string): number[] => {
+  const symbols = [START_B];
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Cannot encode "${char}" in a Code 128 barcode`);
+    }
+    symbols.push(code - 32);
+  }
+
+  const checksum = symbols.reduce((sum, symbol, index) => sum + symbol * Math.max(index, 1), 0) % 103;
+  symbols.push(checksum, STOP);
+
+  return symbols.flatMap(symbol => CODE128_PATTERNS[symbol].split('').map(Number));
+};
+
+// Render a Code 128 barcode as standalone SVG markup, stretched to the width of its container
+export const renderCode128Svg = (value: string, height: number = 50): string => {
+  const widths = encodeCode128B(value);
+  const totalModules = widths.reduce((sum, width) => sum + width, 0) + QUIET_ZONE * 2;
+
+  let x = QUIET_ZONE;
+  const bars: string[] = [];
+  widths.forEach((width, index) => {
+    // Even positions are bars, odd positions are the spaces between them
+    if (index % 2 === 0) {
+      bars.push(`<rect x="${x}" y="0" width="${width}" height="${height}" />`);
+    }
+    x += width;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${totalModules} ${height}" width="100%" height="${height}" preserveAspectRatio="none" shape-rendering="crispEdges"><g fill="#000">${bars.join('')}</g></svg>`;
+};
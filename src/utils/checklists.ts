@@ -0,0 +1,31 @@
+export type CheckItemType = 'check' | 'score';
+
+export interface AreaCheckItem {
+  id: string;
+  area_id: string;
+  label: string;
+  item_type: CheckItemType;
+  max_score: number;
+  sort_order: number;
+  active: boolean;
+}
+
+// Scores keyed by checklist item id. Unticked check items count as 0.
+export type CheckScores = Record<string, number>;
+
+// Scored items need an explicit value; tick boxes can be left unticked
+export const isChecklistComplete = (items: AreaCheckItem[], scores: CheckScores): boolean =>
+  items.every(item => item.item_type === 'check' || scores[item.id] !== undefined);
+
+export const calculateHygieneScore = (items: AreaCheckItem[], scores: CheckScores): number | null => {
+  const available = items.reduce((sum, item) => sum + item.max_score, 0);
+  if (available === 0) return null;
+  const achieved = items.reduce((sum, item) => sum + Math.min(scores[item.id] || 0, item.max_score), 0);
+  return Math.round((achieved / available) * 10000) / 100;
+};
+
+export const getHygieneScoreColor = (score: number): string => {
+  if (score >= 90) return 'text-green-600';
+  if (score >= 70) return 'text-amber-600';
+  return 'text-red-600';
+};
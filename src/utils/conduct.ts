@@ -0,0 +1,43 @@
+export type ConductRecordType = 'merit' | 'demerit';
+export type ConductSeverity = 'minor' | 'moderate' | 'major';
+
+export interface ConductRecord {
+  id: string;
+  staff_id: number;
+  staff_name: string;
+  assignment_id: string | null;
+  record_type: ConductRecordType;
+  category: string;
+  severity: ConductSeverity;
+  reason: string;
+  issued_by: string | null;
+  issued_by_name: string;
+  created_at: string;
+}
+
+export const CONDUCT_CATEGORIES: { value: string; label: string; type: ConductRecordType }[] = [
+  { value: 'self_initiative', label: 'Self Initiative', type: 'merit' },
+  { value: 'recognition', label: 'Special Recognition', type: 'merit' },
+  { value: 'poor_standard', label: 'Poor Standard', type: 'demerit' },
+  { value: 'not_completed', label: 'Task Not Completed', type: 'demerit' },
+  { value: 'conduct', label: 'Conduct', type: 'demerit' },
+];
+
+export const CONDUCT_SEVERITIES: { value: ConductSeverity; label: string }[] = [
+  { value: 'minor', label: 'Minor' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'major', label: 'Major' },
+];
+
+export const getConductCategoryLabel = (category: string): string =>
+  CONDUCT_CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+// Merit and demerit totals per staff member
+export const countConductByStaff = (records: ConductRecord[]) =>
+  records.reduce((acc, record) => {
+    const counts = acc[record.staff_name] || { merits: 0, demerits: 0 };
+    if (record.record_type === 'merit') counts.merits += 1;
+    else counts.demerits += 1;
+    acc[record.staff_name] = counts;
+    return acc;
+  }, {} as Record<string, { merits: number; demerits: number }>);
@@ -0,0 +1,61 @@
+export type PaymentMethod = 'cash' | 'card' | 'eft';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'eft', label: 'EFT' },
+];
+
+export interface Tender {
+  id: string;
+  method: PaymentMethod;
+  amount: number;
+}
+
+export interface PaymentRow {
+  payment_method: string;
+  amount_paid: number;
+  change_given: number | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getPaymentMethodLabel = (method: string): string =>
+  PAYMENT_METHODS.find(pm => pm.value === method)?.label ?? method.toUpperCase();
+
+// Change can only be handed back from cash, so it never exceeds the cash tendered
+export const calculateChange = (tenders: Tender[], totalDue: number): number => {
+  const tendered = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  const cashTendered = tenders
+    .filter(tender => tender.method === 'cash')
+    .reduce((sum, tender) => sum + tender.amount, 0);
+  return round2(Math.min(Math.max(0, tendered - totalDue), cashTendered));
+};
+
+// Build one payment row per tender, booking the change against the cash tenders
+export const buildPaymentRows = (tenders: Tender[], totalDue: number): PaymentRow[] => {
+  let changeLeft = calculateChange(tenders, totalDue);
+
+  return [...tenders].reverse().map(tender => {
+    let changeGiven = 0;
+    if (tender.method === 'cash' && changeLeft > 0) {
+      changeGiven = Math.min(changeLeft, tender.amount);
+      changeLeft = round2(changeLeft - changeGiven);
+    }
+    return {
+      payment_method: tender.method,
+      amount_paid: tender.amount,
+      change_given: changeGiven,
+    };
+  }).reverse();
+};
+
+// What the business actually kept from a payment row after change
+export const getNetPaid = (payment: PaymentRow): number =>
+  payment.amount_paid - (payment.change_given || 0);
+
+export const summarisePayments = (payments: PaymentRow[]): Record<string, number> =>
+  payments.reduce((acc, payment) => {
+    acc[payment.payment_method] = (acc[payment.payment_method] || 0) + getNetPaid(payment);
+    return acc;
+  }, {} as Record<string, number>);
@@ -0,0 +1,129 @@
+export interface RecipeCostChangeRow {
+  recipe_id: string;
+  recipe_name: string;
+  unit: string;
+  old_cost_per_unit: number;
+  new_cost_per_unit: number | null;
+}
+
+export interface PriceChangeRow {
+  id: string;
+  ingredient_name: string;
+  old_total_price: number;
+  new_total_price: number;
+  old_pack_size: number;
+  new_pack_size: number;
+  old_unit: string;
+  new_unit: string;
+  changed_by_name: string;
+  changed_at: string;
+  recipe_cost_changes: RecipeCostChangeRow[];
+}
+
+// A product is costed from its default recipe, or its only recipe when none is marked default
+export interface ProductRecipeLink {
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  recipe_id: string;
+  is_default: boolean | null;
+}
+
+export interface CostMovement {
+  key: string;
+  name: string;
+  unit: string;
+  old_cost_per_unit: number;
+  new_cost_per_unit: number;
+  change: number;
+  change_percent: number | null;
+}
+
+export interface PriceImpact {
+  id: string;
+  ingredient_name: string;
+  changed_at: string;
+  changed_by_name: string;
+  old_total_price: number;
+  new_total_price: number;
+  price_change_percent: number | null;
+  pack_description: string;
+  recipes: CostMovement[];
+  products: CostMovement[];
+}
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const percentChange = (before: number, after: number): number | null =>
+  before > 0 ? Math.round(((after - before) / before) * 10000) / 100 : null;
+
+const movement = (key: string, name: string, unit: string, before: number, after: number): CostMovement => ({
+  key,
+  name,
+  unit,
+  old_cost_per_unit: before,
+  new_cost_per_unit: after,
+  change: round4(after - before),
+  change_percent: percentChange(before, after),
+});
+
+// Biggest movers first, whichever way they moved
+const byChange = (a: CostMovement, b: CostMovement) => Math.abs(b.change) - Math.abs(a.change);
+
+const costingRecipes = (links: ProductRecipeLink[]) => {
+  const byProduct: Record<string, ProductRecipeLink> = {};
+  links.forEach(link => {
+    const current = byProduct[link.product_id];
+    if (!current || (link.is_default && !current.is_default)) byProduct[link.product_id] = link;
+  });
+  return Object.values(byProduct);
+};
+
+const productMovements = (recipes: CostMovement[], links: ProductRecipeLink[]) =>
+  costingRecipes(links).flatMap(link => {
+    const recipe = recipes.find(r => r.key === link.recipe_id);
+    return recipe
+      ? [movement(link.product_id, `${link.product_code} - ${link.product_name}`, recipe.unit, recipe.old_cost_per_unit, recipe.new_cost_per_unit)]
+      : [];
+  });
+
+export const buildPriceImpacts = (changes: PriceChangeRow[], links: ProductRecipeLink[]): PriceImpact[] =>
+  changes.map(change => {
+    const recipes = change.recipe_cost_changes
+      .filter(row => row.new_cost_per_unit !== null)
+      .map(row => movement(row.recipe_id, row.recipe_name, row.unit, row.old_cost_per_unit, row.new_cost_per_unit as number))
+      .sort(byChange);
+
+    const samePack = change.old_pack_size === change.new_pack_size && change.old_unit === change.new_unit;
+    return {
+      id: change.id,
+      ingredient_name: change.ingredient_name,
+      changed_at: change.changed_at,
+      changed_by_name: change.changed_by_name,
+      old_total_price: change.old_total_price,
+      new_total_price: change.new_total_price,
+      price_change_percent: samePack ? percentChange(change.old_total_price, change.new_total_price) : null,
+      pack_description: samePack
+        ? `${change.new_pack_size} ${change.new_unit}`
+        : `${change.old_pack_size} ${change.old_unit} → ${change.new_pack_size} ${change.new_unit}`,
+      recipes,
+      products: productMovements(recipes, links).sort(byChange),
+    };
+  });
+
+// Net movement over a run of price changes: each recipe from its cost before the earliest change
+// to its cost after the latest. Recipes that ended where they started are left out.
+export const summarizeRecipeMovements = (impacts: PriceImpact[]): CostMovement[] => {
+  const chronological = [...impacts].sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+  const net: Record<string, CostMovement> = {};
+  chronological.forEach(impact => {
+    impact.recipes.forEach(recipe => {
+      const before = net[recipe.key]?.old_cost_per_unit ?? recipe.old_cost_per_unit;
+      net[recipe.key] = movement(recipe.key, recipe.name, recipe.unit, before, recipe.new_cost_per_unit);
+    });
+  });
+  return Object.values(net).filter(recipe => recipe.change !== 0).sort(byChange);
+};
+
+export const summarizeProductMovements = (recipes: CostMovement[], links: ProductRecipeLink[]): CostMovement[] =>
+  productMovements(recipes, links).sort(byChange);
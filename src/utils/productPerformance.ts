@@ -0,0 +1,110 @@
+export interface ProductPerformance {
+  key: string;
+  product_name: string;
+  produced: number;
+  sold: number;
+  expired: number;
+  sell_through: number | null;
+  waste: number | null;
+  revenue: number;
+  ingredient_cost: number;
+  gross_margin: number;
+  margin_percent: number | null;
+}
+
+export type ProductPerformanceSortKey = Exclude<keyof ProductPerformance, 'key'>;
+
+interface ProductRef {
+  product_id: string | null;
+  product_name: string;
+}
+
+// Raw rows for the period, keyed back to products by id where the row has one
+export interface ProductPerformanceSource {
+  batches: (ProductRef & { quantity_produced: number; cost_per_unit: number | null; total_ingredient_cost: number | null })[];
+  saleLines: (ProductRef & { quantity: number; net_amount: number })[];
+  returnLines: (ProductRef & { quantity: number; net_amount: number })[];
+  expired: (ProductRef & { quantity: string })[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const percentOf = (part: number, whole: number): number | null =>
+  whole > 0 ? round2((part / whole) * 100) : null;
+
+// Revenue is net of VAT and refunds. Gross margin charges the whole production cost against it,
+// so anything produced and thrown away drags the margin down.
+export const buildProductPerformance = (source: ProductPerformanceSource): ProductPerformance[] => {
+  const rows: Record<string, ProductPerformance> = {};
+
+  const rowFor = (ref: ProductRef) => {
+    const key = ref.product_id || `name:${ref.product_name.toLowerCase()}`;
+    if (!rows[key]) {
+      rows[key] = {
+        key,
+        product_name: ref.product_name,
+        produced: 0,
+        sold: 0,
+        expired: 0,
+        sell_through: null,
+        waste: null,
+        revenue: 0,
+        ingredient_cost: 0,
+        gross_margin: 0,
+        margin_percent: null,
+      };
+    }
+    return rows[key];
+  };
+
+  source.batches.forEach(batch => {
+    const row = rowFor(batch);
+    row.produced += batch.quantity_produced;
+    row.ingredient_cost += batch.total_ingredient_cost ?? (batch.cost_per_unit || 0) * batch.quantity_produced;
+  });
+  source.saleLines.forEach(line => {
+    const row = rowFor(line);
+    row.sold += line.quantity;
+    row.revenue += line.net_amount;
+  });
+  source.returnLines.forEach(line => {
+    const row = rowFor(line);
+    row.sold -= line.quantity;
+    row.revenue -= line.net_amount;
+  });
+  source.expired.forEach(item => {
+    rowFor(item).expired += parseFloat(item.quantity) || 0;
+  });
+
+  return Object.values(rows).map(row => {
+    const revenue = round2(row.revenue);
+    const ingredientCost = round2(row.ingredient_cost);
+    const grossMargin = round2(revenue - ingredientCost);
+    return {
+      ...row,
+      revenue,
+      ingredient_cost: ingredientCost,
+      gross_margin: grossMargin,
+      sell_through: percentOf(row.sold, row.produced),
+      waste: percentOf(row.expired, row.produced),
+      margin_percent: percentOf(grossMargin, revenue),
+    };
+  });
+};
+
+// Missing percentages sort after every real value, whichever way the column is sorted
+export const sortProductPerformance = (
+  rows: ProductPerformance[],
+  sortKey: ProductPerformanceSortKey,
+  ascending: boolean
+): ProductPerformance[] =>
+  [...rows].sort((a, b) => {
+    const left = a[sortKey];
+    const right = b[sortKey];
+    if (left === null) return right === null ? 0 : 1;
+    if (right === null) return -1;
+    const order = typeof left === 'string'
+      ? left.localeCompare(right as string)
+      : (left as number) - (right as number);
+    return ascending ? order : -order;
+  });
@@ -0,0 +1,159 @@
+import { format } from 'date-fns';
+import { renderCode128Svg } from '@/utils/barcode';
+import { PaymentRow, getPaymentMethodLabel } from '@/utils/payments';
+import { TAX_CLASSES } from '@/utils/tax';
+
+export type ReceiptWidth = '58mm' | '80mm';
+
+export const RECEIPT_WIDTHS: { value: ReceiptWidth; label: string }[] = [
+  { value: '58mm', label: '58mm' },
+  { value: '80mm', label: '80mm' },
+];
+
+export const RECEIPT_WIDTH_STORAGE_KEY = 'receipt_paper_width';
+
+export const RECEIPT_HEADER = {
+  name: 'Kitchen & Bakery',
+  title: 'TAX INVOICE',
+  footer: 'Thank you for your purchase!',
+};
+
+export interface ReceiptLine {
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  discount_amount: number;
+  tax_class: string;
+  tax_amount: number;
+  net_amount: number;
+}
+
+export interface ReceiptData {
+  transaction_number: string;
+  transaction_date: string;
+  customer_name: string | null;
+  cashier_name: string | null;
+  total_amount: number;
+  discount_amount: number;
+  payment_status: string;
+  items: ReceiptLine[];
+  payments: PaymentRow[];
+}
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (value: number) => `R${value.toFixed(2)}`;
+
+const row = (left: string, right: string, className = '') =>
+  `<div class="row ${className}"><span>${left}</span><span>${right}</span></div>`;
+
+// Printable area is a little narrower than the paper roll itself
+const PRINTABLE_WIDTH: Record<ReceiptWidth, string> = {
+  '58mm': '48mm',
+  '80mm': '72mm',
+};
+
+export const buildReceiptHtml = (receipt: ReceiptData, width: ReceiptWidth, isReprint = false): string => {
+  const itemsHtml = receipt.items.map(item => `
+    <div class="item">
+      <div>${escapeHtml(item.product_name)}</div>
+      ${row(`${item.quantity} x ${money(item.unit_price)}`, money(item.line_total))}
+      ${item.discount_amount > 0 ? row('Promo discount', `-${money(item.discount_amount)}`, 'muted') : ''}
+    </div>
+  `).join('');
+
+  const vatHtml = TAX_CLASSES
+    .map(taxClass => {
+      const lines = receipt.items.filter(item => (item.tax_class || 'standard') === taxClass.value);
+      if (lines.length === 0) return '';
+      const net = lines.reduce((sum, item) => sum + item.net_amount, 0);
+      const vat = lines.reduce((sum, item) => sum + item.tax_amount, 0);
+      return row(`${escapeHtml(taxClass.label)} on ${money(net)}`, money(vat), 'muted');
+    })
+    .join('');
+
+  const tenders = receipt.payments.filter(payment => payment.amount_paid > 0);
+  const refunds = receipt.payments.filter(payment => payment.amount_paid < 0);
+  const change = tenders.reduce((sum, payment) => sum + (payment.change_given || 0), 0);
+
+  const tendersHtml = tenders
+    .map(payment => row(getPaymentMethodLabel(payment.payment_method), money(payment.amount_paid)))
+    .join('');
+  const refundsHtml = refunds
+    .map(payment => row(`Refund (${getPaymentMethodLabel(payment.payment_method)})`, `-${money(Math.abs(payment.amount_paid))}`))
+    .join('');
+
+  return `
+    <html>
+      <head>
+        <title>Receipt ${escapeHtml(receipt.transaction_number)}</title>
+        <style>
+          @page { size: ${width} auto; margin: 0; }
+          body { font-family: 'Courier New', monospace; font-size: ${width === '58mm' ? '10px' : '12px'}; width: ${PRINTABLE_WIDTH[width]}; margin: 0 auto; padding: 4mm 0; color: #000; }
+          .center { text-align: center; }
+          .row { display: flex; justify-content: space-between; gap: 4px; }
+          .muted { font-size: 0.9em; }
+          .bold { font-weight: bold; }
+          .total { font-weight: bold; font-size: 1.3em; }
+          .item { margin-bottom: 2px; }
+          hr { border: none; border-top: 1px dashed #000; margin: 4px 0; }
+          .barcode { margin-top: 6px; }
+        </style>
+      </head>
+      <body>
+        <div class="center">
+          <div class="bold" style="font-size: 1.3em;">${escapeHtml(RECEIPT_HEADER.name)}</div>
+          <div>${RECEIPT_HEADER.title}</div>
+          ${isReprint ? '<div class="bold">*** REPRINT ***</div>' : ''}
+          ${receipt.payment_status === 'voided' ? '<div class="bold">*** VOIDED ***</div>' : ''}
+        </div>
+        <hr />
+        ${row('Receipt', escapeHtml(receipt.transaction_number))}
+        ${row('Date', format(new Date(receipt.transaction_date), 'dd/MM/yyyy HH:mm'))}
+        ${receipt.cashier_name ? row('Cashier', escapeHtml(receipt.cashier_name)) : ''}
+        ${receipt.customer_name ? row('Customer', escapeHtml(receipt.customer_name)) : ''}
+        <hr />
+        ${itemsHtml}
+        <hr />
+        ${receipt.discount_amount > 0 ? row('You saved', money(receipt.discount_amount)) : ''}
+        ${row('TOTAL', money(receipt.total_amount), 'total')}
+        ${vatHtml}
+        <hr />
+        ${tendersHtml}
+        ${change > 0 ? row('Change', money(change), 'bold') : ''}
+        ${refundsHtml}
+        <hr />
+        <div class="barcode">${renderCode128Svg(receipt.transaction_number, 40)}</div>
+        <div class="center">${escapeHtml(receipt.transaction_number)}</div>
+        <p class="center">${RECEIPT_HEADER.footer}</p>
+      </body>
+    </html>
+  `;
+};
+
+// Print through a hidden frame so the browser doesn't block it as a pop-up
+export const printReceiptHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    return;
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.focus();
+  setTimeout(() => {
+    frameWindow.print();
+    setTimeout(() => frame.remove(), 1000);
+  }, 250);
+};
@@ -0,0 +1,152 @@
+import { convertQuantity, normalizeUnit } from '@/utils/units';
+
+export interface BomRecipe {
+  id: string;
+  name: string;
+  batch_size: number;
+  unit: string;
+}
+
+// A recipe_ingredients row. Sub-recipe lines are measured in (or convertible to) the sub-recipe's unit.
+export interface BomLine {
+  id: string;
+  recipe_id: string;
+  ingredient_name: string;
+  quantity: number;
+  unit: string;
+  cost_per_unit: number;
+  calculated_cost: number | null;
+  sub_recipe_id: string | null;
+}
+
+export interface ExplodedBomLine {
+  key: string;
+  depth: number;
+  ingredient_name: string;
+  quantity: number;
+  unit: string;
+  cost: number | null;
+  sub_recipe_id: string | null;
+  // Why this sub-recipe was not broken down further
+  problem: string | null;
+}
+
+export interface RawIngredientTotal {
+  key: string;
+  ingredient_name: string;
+  quantity: number;
+  unit: string;
+  cost: number;
+}
+
+export interface ExplodedBom {
+  lines: ExplodedBomLine[];
+  raw_ingredients: RawIngredientTotal[];
+  total_cost: number;
+}
+
+const linesOf = (lines: BomLine[], recipeId: string) => lines.filter(line => line.recipe_id === recipeId);
+
+const lineCost = (line: BomLine) => line.calculated_cost ?? line.cost_per_unit * line.quantity;
+
+// True when using subRecipeId inside recipeId would make a recipe contain itself
+export const wouldCreateCycle = (recipeId: string, subRecipeId: string, lines: BomLine[]): boolean => {
+  const seen = new Set<string>();
+  const pending = [subRecipeId];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    if (current === recipeId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    linesOf(lines, current).forEach(line => {
+      if (line.sub_recipe_id) pending.push(line.sub_recipe_id);
+    });
+  }
+  return false;
+};
+
+// Cost of one yield unit of a recipe, rolling sub-recipes up from their own lines rather than
+// trusting the price stored on the parent line. Null when a sub-recipe cannot be costed.
+export const rolledUpCostPerUnit = (
+  recipeId: string,
+  recipes: BomRecipe[],
+  lines: BomLine[],
+  path: string[] = []
+): number | null => {
+  const recipe = recipes.find(r => r.id === recipeId);
+  if (!recipe || !recipe.batch_size || path.includes(recipeId)) return null;
+
+  let total = 0;
+  for (const line of linesOf(lines, recipeId)) {
+    if (!line.sub_recipe_id) {
+      total += lineCost(line);
+      continue;
+    }
+    const subRecipe = recipes.find(r => r.id === line.sub_recipe_id);
+    const subCost = rolledUpCostPerUnit(line.sub_recipe_id, recipes, lines, [...path, recipeId]);
+    const quantity = subRecipe ? convertQuantity(line.quantity, line.unit, subRecipe.unit) : null;
+    if (subCost === null || quantity === null) return null;
+    total += subCost * quantity;
+  }
+  return total / recipe.batch_size;
+};
+
+// Every line of a recipe with its sub-recipes expanded beneath it, scaled to one batch of the
+// top recipe, plus the raw ingredients that batch needs in total
+export const explodeRecipe = (recipeId: string, recipes: BomRecipe[], lines: BomLine[]): ExplodedBom => {
+  const exploded: ExplodedBomLine[] = [];
+  const raw: Record<string, RawIngredientTotal> = {};
+
+  const walk = (currentId: string, scale: number, depth: number, path: string[]) => {
+    linesOf(lines, currentId).forEach(line => {
+      const quantity = line.quantity * scale;
+      const key = `${path.join('/')}/${line.id}`;
+
+      if (!line.sub_recipe_id) {
+        const cost = lineCost(line) * scale;
+        exploded.push({
+          key, depth, ingredient_name: line.ingredient_name, quantity, unit: line.unit,
+          cost, sub_recipe_id: null, problem: null,
+        });
+        const unit = normalizeUnit(line.unit);
+        const rawKey = `${line.ingredient_name.trim().toLowerCase()}|${unit}`;
+        if (!raw[rawKey]) {
+          raw[rawKey] = { key: rawKey, ingredient_name: line.ingredient_name, quantity: 0, unit, cost: 0 };
+        }
+        raw[rawKey].quantity += quantity;
+        raw[rawKey].cost += cost;
+        return;
+      }
+
+      const subRecipe = recipes.find(r => r.id === line.sub_recipe_id);
+      const subQuantity = subRecipe ? convertQuantity(quantity, line.unit, subRecipe.unit) : null;
+      const problem = !subRecipe
+        ? 'Recipe no longer exists'
+        : path.includes(subRecipe.id)
+          ? 'Uses itself'
+          : subQuantity === null
+            ? `Cannot convert ${line.unit} to ${subRecipe.unit}`
+            : !subRecipe.batch_size
+              ? 'Batch size is not set'
+              : null;
+
+      exploded.push({
+        key, depth, ingredient_name: subRecipe?.name || line.ingredient_name, quantity, unit: line.unit,
+        cost: problem ? null : lineCost(line) * scale, sub_recipe_id: line.sub_recipe_id, problem,
+      });
+
+      if (!problem) {
+        walk(subRecipe.id, subQuantity / subRecipe.batch_size, depth + 1, [...path, subRecipe.id]);
+      }
+    });
+  };
+
+  walk(recipeId, 1, 0, [recipeId]);
+
+  const rawIngredients = Object.values(raw).sort((a, b) => a.ingredient_name.localeCompare(b.ingredient_name));
+  return {
+    lines: exploded,
+    raw_ingredients: rawIngredients,
+    total_cost: rawIngredients.reduce((sum, ingredient) => sum + ingredient.cost, 0),
+  };
+};
@@ -0,0 +1,82 @@
+export interface RecipeVersionIngredient {
+  ingredient_name: string;
+  quantity: number;
+  unit: string;
+  cost_per_unit: number;
+  pack_size: number | null;
+  pack_unit: string | null;
+  pack_price: number | null;
+  line_cost: number;
+}
+
+export interface RecipeVersion {
+  id: string;
+  recipe_id: string;
+  version_number: number;
+  name: string;
+  description: string | null;
+  batch_size: number;
+  unit: string;
+  ingredients: RecipeVersionIngredient[];
+  total_cost: number;
+  cost_per_unit: number;
+  created_by_name: string;
+  created_at: string;
+}
+
+export type RecipeIngredientChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RecipeIngredientDiff {
+  key: string;
+  ingredient_name: string;
+  change: RecipeIngredientChange;
+  before: RecipeVersionIngredient | null;
+  after: RecipeVersionIngredient | null;
+}
+
+// Lines are matched by ingredient name; a name used twice in a recipe is matched in order
+const keyIngredients = (ingredients: RecipeVersionIngredient[]) => {
+  const seen: Record<string, number> = {};
+  return ingredients.map(ingredient => {
+    const name = ingredient.ingredient_name.trim().toLowerCase();
+    seen[name] = (seen[name] || 0) + 1;
+    return { key: `${name}#${seen[name]}`, ingredient };
+  });
+};
+
+const isSameLine = (before: RecipeVersionIngredient, after: RecipeVersionIngredient) =>
+  before.quantity === after.quantity &&
+  before.unit === after.unit &&
+  before.cost_per_unit === after.cost_per_unit &&
+  before.line_cost === after.line_cost;
+
+// Every ingredient line in either version, in the newer version's order with removed lines last
+export const diffRecipeVersions = (before: RecipeVersion, after: RecipeVersion): RecipeIngredientDiff[] => {
+  const beforeLines = keyIngredients(before.ingredients);
+  const afterLines = keyIngredients(after.ingredients);
+  const beforeByKey = new Map(beforeLines.map(line => [line.key, line.ingredient]));
+  const afterKeys = new Set(afterLines.map(line => line.key));
+
+  const current = afterLines.map(({ key, ingredient }): RecipeIngredientDiff => {
+    const previous = beforeByKey.get(key) || null;
+    return {
+      key,
+      ingredient_name: ingredient.ingredient_name,
+      change: !previous ? 'added' : isSameLine(previous, ingredient) ? 'unchanged' : 'changed',
+      before: previous,
+      after: ingredient,
+    };
+  });
+
+  const removed = beforeLines
+    .filter(line => !afterKeys.has(line.key))
+    .map(({ key, ingredient }): RecipeIngredientDiff => ({
+      key,
+      ingredient_name: ingredient.ingredient_name,
+      change: 'removed',
+      before: ingredient,
+      after: null,
+    }));
+
+  return [...current, ...removed];
+};
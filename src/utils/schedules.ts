@@ -0,0 +1,25 @@
+export type ScheduleFrequency = 'daily' | 'weekly';
+
+export interface CleaningSchedule {
+  id: string;
+  area_id: string;
+  frequency: ScheduleFrequency;
+  days_of_week: number[];
+  assignee_id: number | null;
+  rotation_department_id: number | null;
+  rotation_index: number;
+  instructions: string | null;
+  due_time: string;
+  active: boolean;
+  last_generated_on: string | null;
+  created_at: string;
+}
+
+// Indexed the same way as Postgres EXTRACT(DOW): Sunday is 0
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const describeFrequency = (schedule: Pick<CleaningSchedule, 'frequency' | 'days_of_week'>): string => {
+  if (schedule.frequency === 'daily') return 'Every day';
+  const days = [...schedule.days_of_week].sort((a, b) => a - b).map(day => WEEKDAYS[day]);
+  return `Every ${days.join(', ')}`;
+};
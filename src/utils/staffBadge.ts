@@ -0,0 +1,33 @@
+import { renderCode128Svg } from '@/utils/barcode';
+import { escapeHtml, RECEIPT_HEADER } from '@/utils/receipt';
+
+// A credit-card sized badge the kiosk can scan to bring up the holder's tasks
+export const buildStaffBadgeHtml = (name: string, department: string, badgeCode: string): string => `
+  <html>
+    <head>
+      <title>Badge ${escapeHtml(name)}</title>
+      <style>
+        @page { size: 85.6mm 54mm; margin: 0; }
+        body { margin: 0; font-family: Arial, sans-serif; }
+        .badge { width: 85.6mm; height: 54mm; box-sizing: border-box; padding: 4mm 5mm; display: flex; flex-direction: column; justify-content: space-between; }
+        .shop { font-size: 9pt; color: #555; }
+        .name { font-size: 16pt; font-weight: bold; }
+        .department { font-size: 10pt; color: #333; }
+        .code { font-size: 8pt; text-align: center; letter-spacing: 1px; }
+      </style>
+    </head>
+    <body>
+      <div class="badge">
+        <div>
+          <div class="shop">${escapeHtml(RECEIPT_HEADER.name)}</div>
+          <div class="name">${escapeHtml(name)}</div>
+          <div class="department">${escapeHtml(department)}</div>
+        </div>
+        <div>
+          ${renderCode128Svg(badgeCode, 40)}
+          <div class="code">${escapeHtml(badgeCode)}</div>
+        </div>
+      </div>
+    </body>
+  </html>
+`;
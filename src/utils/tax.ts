@@ -0,0 +1,43 @@
+export type TaxClass = 'standard' | 'zero_rated' | 'exempt';
+
+export const STANDARD_VAT_RATE = 0.15;
+
+export const TAX_CLASSES: { value: TaxClass; label: string; rate: number }[] = [
+  { value: 'standard', label: 'Standard (15%)', rate: STANDARD_VAT_RATE },
+  { value: 'zero_rated', label: 'Zero-rated (0%)', rate: 0 },
+  { value: 'exempt', label: 'Exempt', rate: 0 },
+];
+
+export const getTaxRate = (taxClass: TaxClass | string | null | undefined): number =>
+  TAX_CLASSES.find(tc => tc.value === taxClass)?.rate ?? STANDARD_VAT_RATE;
+
+export const getTaxClassLabel = (taxClass: TaxClass | string | null | undefined): string =>
+  TAX_CLASSES.find(tc => tc.value === taxClass)?.label ?? 'Standard (15%)';
+
+export interface LineTax {
+  net: number;
+  tax: number;
+  gross: number;
+  rate: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Split a line amount into net, VAT and gross. Inclusive prices already contain the VAT.
+export const calculateLineTax = (
+  amount: number,
+  taxClass: TaxClass | string | null | undefined,
+  priceIncludesTax: boolean = true
+): LineTax => {
+  const rate = getTaxRate(taxClass);
+
+  if (priceIncludesTax) {
+    const gross = round2(amount);
+    const tax = round2(gross - gross / (1 + rate));
+    return { net: round2(gross - tax), tax, gross, rate };
+  }
+
+  const net = round2(amount);
+  const tax = round2(net * rate);
+  return { net, tax, gross: round2(net + tax), rate };
+};
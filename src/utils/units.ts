@@ -0,0 +1,132 @@
+export type UnitKind = 'mass' | 'volume' | 'count';
+
+export interface UnitDefinition {
+  value: string;
+  label: string;
+  kind: UnitKind;
+  // Size of one of this unit in its kind's base unit: grams, millilitres or items
+  factor: number;
+  aliases: string[];
+}
+
+// Keep in step with public.convert_unit_quantity so the kitchen stock trigger agrees with the screens
+export const UNITS: UnitDefinition[] = [
+  { value: 'mg', label: 'mg', kind: 'mass', factor: 0.001, aliases: ['milligram', 'milligrams'] },
+  { value: 'g', label: 'g', kind: 'mass', factor: 1, aliases: ['gram', 'grams', 'gr'] },
+  { value: 'kg', label: 'kg', kind: 'mass', factor: 1000, aliases: ['kilogram', 'kilograms', 'kgs'] },
+  { value: 'ml', label: 'ml', kind: 'volume', factor: 1, aliases: ['millilitre', 'millilitres', 'milliliter', 'milliliters'] },
+  { value: 'l', label: 'l', kind: 'volume', factor: 1000, aliases: ['litre', 'litres', 'liter', 'liters', 'lt'] },
+  { value: 'tsp', label: 'tsp', kind: 'volume', factor: 5, aliases: ['teaspoon', 'teaspoons'] },
+  { value: 'tbsp', label: 'tbsp', kind: 'volume', factor: 15, aliases: ['tablespoon', 'tablespoons', 'tbs'] },
+  { value: 'cup', label: 'cup', kind: 'volume', factor: 250, aliases: ['cups'] },
+  { value: 'units', label: 'units', kind: 'count', factor: 1, aliases: ['unit', 'each', 'ea', 'pcs', 'pc', 'piece', 'pieces'] },
+  { value: 'dozen', label: 'dozen', kind: 'count', factor: 12, aliases: ['doz'] },
+];
+
+export const UNIT_OPTIONS = UNITS.map(unit => ({ value: unit.value, label: unit.label }));
+
+// How an ingredient bridges mass, volume and count. Both are optional; without them only
+// conversions within the same kind are possible.
+export interface IngredientConversion {
+  name?: string;
+  density_g_per_ml?: number | null;
+  each_weight_g?: number | null;
+}
+
+export const findUnit = (unit: string | null | undefined): UnitDefinition | undefined => {
+  const key = (unit || '').trim().toLowerCase();
+  if (!key) return undefined;
+  return UNITS.find(definition => definition.value === key || definition.aliases.includes(key));
+};
+
+// The registry's spelling of a unit, or the unit as typed when the registry does not know it
+export const normalizeUnit = (unit: string | null | undefined): string =>
+  findUnit(unit)?.value ?? (unit || '').trim();
+
+const toGrams = (amount: number, kind: UnitKind, conversion?: IngredientConversion): number | null => {
+  switch (kind) {
+    case 'mass':
+      return amount;
+    case 'volume':
+      return conversion?.density_g_per_ml ? amount * conversion.density_g_per_ml : null;
+    case 'count':
+      return conversion?.each_weight_g ? amount * conversion.each_weight_g : null;
+  }
+};
+
+const fromGrams = (grams: number, kind: UnitKind, conversion?: IngredientConversion): number | null => {
+  switch (kind) {
+    case 'mass':
+      return grams;
+    case 'volume':
+      return conversion?.density_g_per_ml ? grams / conversion.density_g_per_ml : null;
+    case 'count':
+      return conversion?.each_weight_g ? grams / conversion.each_weight_g : null;
+  }
+};
+
+// Convert a quantity between any two known units. Crossing between mass, volume and count goes
+// through grams, using the ingredient's density or unit weight. Returns null when it cannot convert.
+export const convertQuantity = (
+  quantity: number,
+  from: string | null | undefined,
+  to: string | null | undefined,
+  conversion?: IngredientConversion
+): number | null => {
+  const fromUnit = findUnit(from);
+  const toUnit = findUnit(to);
+  if (!fromUnit || !toUnit) return null;
+
+  const amount = quantity * fromUnit.factor;
+  if (fromUnit.kind === toUnit.kind) return amount / toUnit.factor;
+
+  const grams = toGrams(amount, fromUnit.kind, conversion);
+  if (grams === null) return null;
+  const converted = fromGrams(grams, toUnit.kind, conversion);
+  return converted === null ? null : converted / toUnit.factor;
+};
+
+// Why a conversion is impossible, phrased for the person entering it, or null when it works
+export const getConversionError = (
+  from: string | null | undefined,
+  to: string | null | undefined,
+  conversion?: IngredientConversion
+): string | null => {
+  const fromUnit = findUnit(from);
+  const toUnit = findUnit(to);
+  if (!fromUnit) return `Unknown unit "${from || ''}"`;
+  if (!toUnit) return `Unknown unit "${to || ''}"`;
+  if (convertQuantity(1, from, to, conversion) !== null) return null;
+
+  const ingredient = conversion?.name || 'this ingredient';
+  const kinds = [fromUnit.kind, toUnit.kind];
+  const missing = [
+    kinds.includes('volume') && !conversion?.density_g_per_ml ? `a density (g per ml) for ${ingredient}` : null,
+    kinds.includes('count') && !conversion?.each_weight_g ? `how much one ${ingredient} weighs` : null,
+  ].filter(Boolean);
+
+  return `Set ${missing.join(' and ')} to convert ${fromUnit.label} to ${toUnit.label}`;
+};
+
+// Price of one usedUnit of an ingredient bought in packs. Null when the pack and used units
+// cannot be converted, so callers never cost a recipe off a guessed factor.
+export const costPerUsedUnit = (
+  packPrice: number,
+  packSize: number,
+  packUnit: string | null | undefined,
+  usedUnit: string | null | undefined,
+  conversion?: IngredientConversion
+): number | null => {
+  if (!packPrice || !packSize) return 0;
+
+  const packInUsedUnits = convertQuantity(packSize, packUnit || usedUnit, usedUnit || packUnit, conversion);
+  if (!packInUsedUnits) return null;
+
+  return packPrice / packInUsedUnits;
+};
+
+// Recipe and production rows name their ingredient rather than linking it
+export const findIngredientByName = <T extends { name: string }>(ingredients: T[], name: string | null | undefined) => {
+  const key = (name || '').trim().toLowerCase();
+  return ingredients.find(ingredient => ingredient.name.trim().toLowerCase() === key);
+};
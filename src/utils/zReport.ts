@@ -0,0 +1,293 @@
+import { format } from 'date-fns';
+import { escapeHtml, RECEIPT_HEADER } from '@/utils/receipt';
+import { getPaymentMethodLabel, PaymentRow, summarisePayments } from '@/utils/payments';
+import { TAX_CLASSES } from '@/utils/tax';
+
+export interface ZReportProductLine {
+  product_name: string;
+  quantity: number;
+}
+
+export interface ZReportDispatchLine {
+  destination: string;
+  quantity: number;
+}
+
+export interface ZReportTenderLine {
+  method: string;
+  amount: number;
+}
+
+export interface ZReportVatLine {
+  tax_class: string;
+  label: string;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface ZReportRegisterLine {
+  cashier_name: string;
+  status: string;
+  opened_at: string;
+  closed_at: string | null;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  variance: number | null;
+}
+
+export interface ZReportAssigneeLine {
+  assignee_name: string;
+  total: number;
+  done: number;
+}
+
+// Everything a manager signs off for the day. Stored as-is once signed, so keep it self-contained.
+export interface ZReportSnapshot {
+  report_date: string;
+  generated_at: string;
+  production: ZReportProductLine[];
+  units_sold: ZReportProductLine[];
+  units_expired: ZReportProductLine[];
+  units_dispatched: ZReportDispatchLine[];
+  sales: {
+    transactions: number;
+    gross: number;
+    discounts: number;
+    refunds: number;
+    net: number;
+  };
+  tenders: ZReportTenderLine[];
+  vat: ZReportVatLine[];
+  registers: ZReportRegisterLine[];
+  register_variance: number;
+  open_registers: number;
+  tasks: {
+    total: number;
+    done: number;
+    incomplete: number;
+    overdue: number;
+    outstanding: number;
+    completion_rate: number;
+    average_hygiene_score: number | null;
+  };
+  tasks_by_assignee: ZReportAssigneeLine[];
+}
+
+interface TaxedLine {
+  product_name: string;
+  quantity: number;
+  tax_class: string;
+  tax_amount: number;
+  net_amount: number;
+}
+
+// Raw rows for one trading day, as fetched by useZReportData
+export interface ZReportSource {
+  reportDate: string;
+  sales: {
+    total_amount: number;
+    discount_amount: number;
+    payment_status: string;
+    sales_transaction_items: TaxedLine[];
+  }[];
+  returns: {
+    refund_amount: number;
+    sales_return_items: TaxedLine[];
+  }[];
+  payments: PaymentRow[];
+  production: { product_name: string; quantity_produced: number }[];
+  expired: { product_name: string; quantity: string }[];
+  dispatches: { dispatch_destination: string; quantity_dispatched: number }[];
+  registers: ZReportRegisterLine[];
+  assignments: { assignee_name: string; status: string; hygiene_score: number | null }[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sumByName = <T>(rows: T[], getName: (row: T) => string, getQuantity: (row: T) => number) => {
+  const totals: Record<string, number> = {};
+  rows.forEach(row => {
+    const name = getName(row);
+    totals[name] = (totals[name] || 0) + getQuantity(row);
+  });
+  return Object.entries(totals)
+    .map(([name, quantity]) => ({ name, quantity: round2(quantity) }))
+    .filter(line => line.quantity !== 0)
+    .sort((a, b) => b.quantity - a.quantity);
+};
+
+// Refunds and voids are counted on the day they were processed, not the day of the original sale
+export const buildZReport = (source: ZReportSource): ZReportSnapshot => {
+  const saleLines = source.sales.flatMap(sale => sale.sales_transaction_items || []);
+  const returnLines = source.returns.flatMap(saleReturn => saleReturn.sales_return_items || []);
+
+  const gross = source.sales.reduce((sum, sale) => sum + sale.total_amount, 0);
+  const refunds = source.returns.reduce((sum, saleReturn) => sum + saleReturn.refund_amount, 0);
+
+  const vat = TAX_CLASSES.map(taxClass => {
+    const inClass = (line: TaxedLine) => (line.tax_class || 'standard') === taxClass.value;
+    const net = saleLines.filter(inClass).reduce((sum, line) => sum + line.net_amount, 0)
+      - returnLines.filter(inClass).reduce((sum, line) => sum + line.net_amount, 0);
+    const tax = saleLines.filter(inClass).reduce((sum, line) => sum + line.tax_amount, 0)
+      - returnLines.filter(inClass).reduce((sum, line) => sum + line.tax_amount, 0);
+    return {
+      tax_class: taxClass.value,
+      label: taxClass.label,
+      net: round2(net),
+      vat: round2(tax),
+      gross: round2(net + tax),
+    };
+  });
+
+  const unitsSold = sumByName(
+    [
+      ...saleLines.map(line => ({ name: line.product_name, quantity: line.quantity })),
+      ...returnLines.map(line => ({ name: line.product_name, quantity: -line.quantity })),
+    ],
+    line => line.name,
+    line => line.quantity
+  );
+
+  const closedRegisters = source.registers.filter(register => register.variance !== null);
+  const scored = source.assignments.filter(assignment => assignment.hygiene_score !== null);
+  const done = source.assignments.filter(assignment => assignment.status === 'done').length;
+
+  const byAssignee: Record<string, ZReportAssigneeLine> = {};
+  source.assignments.forEach(assignment => {
+    const line = byAssignee[assignment.assignee_name] || { assignee_name: assignment.assignee_name, total: 0, done: 0 };
+    line.total += 1;
+    if (assignment.status === 'done') line.done += 1;
+    byAssignee[assignment.assignee_name] = line;
+  });
+
+  return {
+    report_date: source.reportDate,
+    generated_at: new Date().toISOString(),
+    production: sumByName(source.production, batch => batch.product_name, batch => batch.quantity_produced)
+      .map(({ name, quantity }) => ({ product_name: name, quantity })),
+    units_sold: unitsSold.map(({ name, quantity }) => ({ product_name: name, quantity })),
+    units_expired: sumByName(source.expired, item => item.product_name, item => parseFloat(item.quantity) || 0)
+      .map(({ name, quantity }) => ({ product_name: name, quantity })),
+    units_dispatched: sumByName(source.dispatches, dispatch => dispatch.dispatch_destination, dispatch => dispatch.quantity_dispatched)
+      .map(({ name, quantity }) => ({ destination: name, quantity })),
+    sales: {
+      transactions: source.sales.filter(sale => sale.payment_status !== 'voided').length,
+      gross: round2(gross),
+      discounts: round2(source.sales.reduce((sum, sale) => sum + (sale.discount_amount || 0), 0)),
+      refunds: round2(refunds),
+      net: round2(gross - refunds),
+    },
+    tenders: Object.entries(summarisePayments(source.payments))
+      .map(([method, amount]) => ({ method, amount: round2(amount) })),
+    vat,
+    registers: source.registers,
+    register_variance: round2(closedRegisters.reduce((sum, register) => sum + (register.variance || 0), 0)),
+    open_registers: source.registers.filter(register => register.status === 'open').length,
+    tasks: {
+      total: source.assignments.length,
+      done,
+      incomplete: source.assignments.filter(assignment => assignment.status === 'incomplete').length,
+      overdue: source.assignments.filter(assignment => assignment.status === 'overdue').length,
+      outstanding: source.assignments.filter(assignment => ['pending', 'in-progress'].includes(assignment.status)).length,
+      completion_rate: source.assignments.length > 0 ? round2((done / source.assignments.length) * 100) : 0,
+      average_hygiene_score: scored.length > 0
+        ? round2(scored.reduce((sum, assignment) => sum + (assignment.hygiene_score || 0), 0) / scored.length)
+        : null,
+    },
+    tasks_by_assignee: Object.values(byAssignee).sort((a, b) => a.assignee_name.localeCompare(b.assignee_name)),
+  };
+};
+
+const money = (value: number | null) => (value === null ? '-' : `R${value.toFixed(2)}`);
+
+const quantityRows = (lines: { label: string; quantity: number }[]) =>
+  lines.length === 0
+    ? '<tr><td colspan="2" class="empty">None</td></tr>'
+    : lines.map(line => `<tr><td>${escapeHtml(line.label)}</td><td class="num">${line.quantity}</td></tr>`).join('');
+
+export const buildZReportHtml = (
+  report: ZReportSnapshot,
+  signOff?: { signed_off_by_name: string; signed_off_at: string }
+): string => `
+<html>
+  <head>
+    <title>Z-Report ${report.report_date}</title>
+    <style>
+      body { font-family: Arial, sans-serif; margin: 20px; font-size: 12px; }
+      h1 { font-size: 20px; margin: 0; }
+      h2 { font-size: 14px; margin: 18px 0 6px; border-bottom: 1px solid #000; }
+      table { width: 100%; border-collapse: collapse; }
+      td, th { padding: 3px 4px; text-align: left; border-bottom: 1px solid #ddd; }
+      .num { text-align: right; }
+      .empty { color: #777; }
+      .total td { font-weight: bold; }
+      .signoff { margin-top: 24px; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(RECEIPT_HEADER.name)} - Z-Report</h1>
+    <p>Trading day: ${format(new Date(`${report.report_date}T00:00:00`), 'EEEE, d MMMM yyyy')}<br />
+    Figures as at ${format(new Date(report.generated_at), 'yyyy-MM-dd HH:mm')}</p>
+
+    <h2>Sales</h2>
+    <table>
+      <tr><td>Transactions</td><td class="num">${report.sales.transactions}</td></tr>
+      <tr><td>Gross sales</td><td class="num">${money(report.sales.gross)}</td></tr>
+      <tr><td>Discounts given</td><td class="num">${money(report.sales.discounts)}</td></tr>
+      <tr><td>Refunds and voids</td><td class="num">-${money(report.sales.refunds)}</td></tr>
+      <tr class="total"><td>Net sales</td><td class="num">${money(report.sales.net)}</td></tr>
+    </table>
+
+    <h2>Takings by Tender</h2>
+    <table>
+      ${report.tenders.map(tender => `<tr><td>${escapeHtml(getPaymentMethodLabel(tender.method))}</td><td class="num">${money(tender.amount)}</td></tr>`).join('')}
+      <tr class="total"><td>Total</td><td class="num">${money(report.tenders.reduce((sum, tender) => sum + tender.amount, 0))}</td></tr>
+    </table>
+
+    <h2>VAT</h2>
+    <table>
+      <tr><th>Class</th><th class="num">Net</th><th class="num">VAT</th><th class="num">Gross</th></tr>
+      ${report.vat.map(line => `<tr><td>${escapeHtml(line.label)}</td><td class="num">${money(line.net)}</td><td class="num">${money(line.vat)}</td><td class="num">${money(line.gross)}</td></tr>`).join('')}
+    </table>
+
+    <h2>Cash Registers</h2>
+    <table>
+      <tr><th>Cashier</th><th>Status</th><th class="num">Expected</th><th class="num">Counted</th><th class="num">Variance</th></tr>
+      ${report.registers.length === 0 ? '<tr><td colspan="5" class="empty">No registers opened</td></tr>' : report.registers.map(register => `<tr><td>${escapeHtml(register.cashier_name)}</td><td>${escapeHtml(register.status)}</td><td class="num">${money(register.expected_cash)}</td><td class="num">${money(register.counted_cash)}</td><td class="num">${money(register.variance)}</td></tr>`).join('')}
+      <tr class="total"><td colspan="4">Total variance${report.open_registers > 0 ? ` (${report.open_registers} still open)` : ''}</td><td class="num">${money(report.register_variance)}</td></tr>
+    </table>
+
+    <h2>Production Output</h2>
+    <table>${quantityRows(report.production.map(line => ({ label: line.product_name, quantity: line.quantity })))}</table>
+
+    <h2>Units Sold</h2>
+    <table>${quantityRows(report.units_sold.map(line => ({ label: line.product_name, quantity: line.quantity })))}</table>
+
+    <h2>Units Expired</h2>
+    <table>${quantityRows(report.units_expired.map(line => ({ label: line.product_name, quantity: line.quantity })))}</table>
+
+    <h2>Expired Stock Dispatched</h2>
+    <table>${quantityRows(report.units_dispatched.map(line => ({ label: line.destination, quantity: line.quantity })))}</table>
+
+    <h2>Cleaning Tasks</h2>
+    <table>
+      <tr><td>Completed</td><td class="num">${report.tasks.done} of ${report.tasks.total} (${report.tasks.completion_rate}%)</td></tr>
+      <tr><td>Incomplete</td><td class="num">${report.tasks.incomplete}</td></tr>
+      <tr><td>Overdue</td><td class="num">${report.tasks.overdue}</td></tr>
+      <tr><td>Still outstanding</td><td class="num">${report.tasks.outstanding}</td></tr>
+      <tr><td>Average hygiene score</td><td class="num">${report.tasks.average_hygiene_score === null ? '-' : `${report.tasks.average_hygiene_score}%`}</td></tr>
+    </table>
+    <table>
+      <tr><th>Staff</th><th class="num">Done</th><th class="num">Assigned</th></tr>
+      ${report.tasks_by_assignee.map(line => `<tr><td>${escapeHtml(line.assignee_name)}</td><td class="num">${line.done}</td><td class="num">${line.total}</td></tr>`).join('')}
+    </table>
+
+    <p class="signoff">
+      ${signOff
+        ? `Signed off by ${escapeHtml(signOff.signed_off_by_name)} on ${format(new Date(signOff.signed_off_at), 'yyyy-MM-dd HH:mm')}`
+        : 'DRAFT - not yet signed off'}
+    </p>
+  </body>
+</html>
+`;
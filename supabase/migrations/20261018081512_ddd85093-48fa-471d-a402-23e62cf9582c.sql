@@ -0,0 +1,4 @@
+-- Record promotion discounts per sale line so reports can show what each promo gave away
+ALTER TABLE public.sales_transaction_items
+ADD COLUMN IF NOT EXISTS discount_amount NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL;
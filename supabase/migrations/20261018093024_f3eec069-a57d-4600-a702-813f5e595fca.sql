@@ -0,0 +1,47 @@
+-- Create cash register sessions table: one row per shift from open (float) to close (count)
+CREATE TABLE public.cash_register_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cashier_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float NUMERIC NOT NULL DEFAULT 0,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  cash_sales_total NUMERIC,
+  payouts_total NUMERIC,
+  payins_total NUMERIC,
+  expected_cash NUMERIC,
+  counted_cash NUMERIC,
+  variance NUMERIC,
+  closing_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one register session may be open at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_register_sessions_single_open
+  ON public.cash_register_sessions (status)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_cash_register_sessions_cashier
+  ON public.cash_register_sessions (cashier_name, opened_at DESC);
+
+-- Create cash register operations table for payouts and pay-ins within a session
+CREATE TABLE public.cash_register_operations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.cash_register_sessions(id) ON DELETE CASCADE,
+  operation_type TEXT NOT NULL CHECK (operation_type IN ('payout', 'payin')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  cashier_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.cash_register_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_register_operations ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Allow public access to cash_register_sessions" 
+ON public.cash_register_sessions FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow public access to cash_register_operations" 
+ON public.cash_register_operations FOR ALL USING (true) WITH CHECK (true);
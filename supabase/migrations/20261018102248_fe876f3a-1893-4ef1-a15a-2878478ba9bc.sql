@@ -0,0 +1,7 @@
+-- Normalise POS user roles to the four roles used for route access
+UPDATE public.pos_users SET role = 'manager' WHERE role = 'supervisor';
+
+ALTER TABLE public.pos_users DROP CONSTRAINT IF EXISTS pos_users_role_check;
+
+ALTER TABLE public.pos_users ADD CONSTRAINT pos_users_role_check
+CHECK (role IN ('cashier', 'kitchen-staff', 'manager', 'admin'));
@@ -0,0 +1,82 @@
+-- Store POS user passwords as salted bcrypt hashes instead of clear text
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.pos_users
+ADD COLUMN IF NOT EXISTS password_hash TEXT;
+
+-- Hash existing passwords, except the random strings stored for QR-only users
+UPDATE public.pos_users
+SET password_hash = extensions.crypt(password, extensions.gen_salt('bf'))
+WHERE password IS NOT NULL
+AND qr_code IS NULL;
+
+ALTER TABLE public.pos_users DROP COLUMN IF EXISTS password;
+
+-- The browser may read everything about a POS user except the credentials: the hash and badge code
+REVOKE SELECT ON public.pos_users FROM anon, authenticated;
+GRANT SELECT (id, username, role, active, created_at, created_by)
+ON public.pos_users TO anon, authenticated;
+
+-- Verify a username/password pair and return the matching active user
+CREATE OR REPLACE FUNCTION public.verify_pos_user_password(p_username TEXT, p_password TEXT)
+RETURNS TABLE (id UUID, username TEXT, role TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT u.id, u.username, u.role
+  FROM pos_users u
+  WHERE u.username = p_username
+  AND u.active IS DISTINCT FROM false
+  AND u.password_hash IS NOT NULL
+  AND u.password_hash = crypt(p_password, u.password_hash);
+END;
+$$;
+
+-- Look up the active user that owns a scanned badge code
+CREATE OR REPLACE FUNCTION public.verify_pos_user_badge(p_qr_code TEXT)
+RETURNS TABLE (id UUID, username TEXT, role TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT u.id, u.username, u.role
+  FROM pos_users u
+  WHERE u.qr_code = p_qr_code
+  AND u.active IS DISTINCT FROM false;
+END;
+$$;
+
+-- Set (or reset) a user's password; pass NULL to remove password login.
+-- The database cannot tell who is calling yet, so only trusted server-side roles may run this.
+CREATE OR REPLACE FUNCTION public.set_pos_user_password(p_user_id UUID, p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF p_password IS NOT NULL AND length(p_password) < 4 THEN
+    RAISE EXCEPTION 'Password must be at least 4 characters';
+  END IF;
+
+  UPDATE pos_users
+  SET password_hash = CASE
+    WHEN p_password IS NULL THEN NULL
+    ELSE crypt(p_password, gen_salt('bf'))
+  END
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'POS user % not found', p_user_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_pos_user_password(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_pos_user_badge(TEXT) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_pos_user_password(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,135 @@
+-- Create finished goods ledger: every movement of baked products in (+) or out (-) of the shop
+CREATE TABLE public.finished_goods_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('production', 'sale', 'expiry', 'adjustment')),
+  quantity NUMERIC NOT NULL,
+  reference_id UUID,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_finished_goods_ledger_product
+  ON public.finished_goods_ledger (product_id, created_at DESC);
+
+ALTER TABLE public.finished_goods_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to finished_goods_ledger" 
+ON public.finished_goods_ledger FOR ALL USING (true) WITH CHECK (true);
+
+-- Expired quantities are stored as text; treat anything non-numeric as zero
+CREATE OR REPLACE FUNCTION public.parse_quantity(value TEXT)
+RETURNS NUMERIC AS $$
+BEGIN
+  IF value ~ '^[0-9]+\.?[0-9]*$' THEN
+    RETURN CAST(value AS NUMERIC);
+  END IF;
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Production adds to stock; edits and deletes of a batch post the difference
+CREATE OR REPLACE FUNCTION public.post_production_to_finished_goods()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL THEN
+    INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes)
+    VALUES (OLD.product_id, 'production', -OLD.quantity_produced, OLD.id,
+      CASE WHEN TG_OP = 'DELETE' THEN 'Production batch deleted' ELSE 'Production batch edited (reversal)' END);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.product_id IS NOT NULL THEN
+    INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes)
+    VALUES (NEW.product_id, 'production', NEW.quantity_produced, NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN 'Production batch edited' ELSE NULL END);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_production_finished_goods
+  AFTER INSERT OR DELETE OR UPDATE OF product_id, quantity_produced ON production_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION post_production_to_finished_goods();
+
+-- Sales take units off the shelf; edits and deletes of a sale line post the difference
+CREATE OR REPLACE FUNCTION public.post_sale_to_finished_goods()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL THEN
+    INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes)
+    VALUES (OLD.product_id, 'sale', OLD.quantity, OLD.transaction_id,
+      CASE WHEN TG_OP = 'DELETE' THEN 'Sale line deleted' ELSE 'Sale line edited (reversal)' END);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.product_id IS NOT NULL THEN
+    INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes)
+    VALUES (NEW.product_id, 'sale', -NEW.quantity, NEW.transaction_id,
+      CASE WHEN TG_OP = 'UPDATE' THEN 'Sale line edited' ELSE NULL END);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_sale_finished_goods
+  AFTER INSERT OR DELETE OR UPDATE OF product_id, quantity ON sales_transaction_items
+  FOR EACH ROW
+  EXECUTE FUNCTION post_sale_to_finished_goods();
+
+-- Expired stock is written off; edits and deletes post the difference
+CREATE OR REPLACE FUNCTION public.post_expiry_to_finished_goods()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL THEN
+    INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes)
+    VALUES (OLD.product_id, 'expiry', parse_quantity(OLD.quantity), OLD.id,
+      CASE WHEN TG_OP = 'DELETE' THEN 'Expired record deleted' ELSE 'Expired record edited (reversal)' END);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.product_id IS NOT NULL THEN
+    INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes)
+    VALUES (NEW.product_id, 'expiry', -parse_quantity(NEW.quantity), NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN 'Expired record edited' ELSE NULL END);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_expiry_finished_goods
+  AFTER INSERT OR DELETE OR UPDATE OF product_id, quantity ON expired_items
+  FOR EACH ROW
+  EXECUTE FUNCTION post_expiry_to_finished_goods();
+
+-- Backfill the ledger from existing history so on-hand figures start out right
+INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes, created_at)
+SELECT product_id, 'production', quantity_produced, id, 'Backfilled', COALESCE(created_at, now())
+FROM production_batches
+WHERE product_id IS NOT NULL;
+
+INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes, created_at)
+SELECT product_id, 'sale', -quantity, transaction_id, 'Backfilled', created_at
+FROM sales_transaction_items
+WHERE product_id IS NOT NULL;
+
+INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes, created_at)
+SELECT product_id, 'expiry', -parse_quantity(quantity), id, 'Backfilled', COALESCE(created_at, now())
+FROM expired_items
+WHERE product_id IS NOT NULL;
+
+-- On-hand quantity per product, with the movements that make it up
+CREATE OR REPLACE VIEW public.product_stock_on_hand AS
+SELECT
+  p.id AS product_id,
+  p.name AS product_name,
+  p.code AS product_code,
+  COALESCE(SUM(l.quantity) FILTER (WHERE l.movement_type = 'production'), 0) AS produced,
+  COALESCE(-SUM(l.quantity) FILTER (WHERE l.movement_type = 'sale'), 0) AS sold,
+  COALESCE(-SUM(l.quantity) FILTER (WHERE l.movement_type = 'expiry'), 0) AS expired,
+  COALESCE(SUM(l.quantity) FILTER (WHERE l.movement_type = 'adjustment'), 0) AS adjusted,
+  COALESCE(SUM(l.quantity), 0) AS on_hand
+FROM products p
+LEFT JOIN finished_goods_ledger l ON l.product_id = p.id
+GROUP BY p.id, p.name, p.code;
@@ -0,0 +1,22 @@
+-- Add VAT configuration to products: tax class and whether the shelf price includes VAT
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'standard',
+ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS products_tax_class_check;
+
+ALTER TABLE public.products ADD CONSTRAINT products_tax_class_check
+CHECK (tax_class IN ('standard', 'zero_rated', 'exempt'));
+
+-- Record the VAT treatment of every sale line so returns can be built from the items
+ALTER TABLE public.sales_transaction_items
+ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'standard',
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC NOT NULL DEFAULT 0.15,
+ADD COLUMN IF NOT EXISTS tax_amount NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS net_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Historic lines were sold with 15% VAT added on top of line_total
+UPDATE public.sales_transaction_items
+SET tax_amount = ROUND(line_total * 0.15, 2),
+    net_amount = line_total
+WHERE net_amount = 0;
@@ -0,0 +1,76 @@
+-- Returns against completed sales: a void reverses the whole sale, a refund returns selected lines
+CREATE TABLE public.sales_returns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sales_transaction_id UUID NOT NULL REFERENCES public.sales_transactions(id) ON DELETE CASCADE,
+  return_number TEXT NOT NULL UNIQUE,
+  return_type TEXT NOT NULL CHECK (return_type IN ('refund', 'void')),
+  reason TEXT NOT NULL,
+  refund_method TEXT NOT NULL,
+  refund_amount NUMERIC NOT NULL CHECK (refund_amount >= 0),
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  processed_by UUID REFERENCES public.pos_users(id) ON DELETE SET NULL,
+  approved_by UUID REFERENCES public.pos_users(id) ON DELETE SET NULL,
+  approved_by_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The individual sale lines (and quantities) taken back in each return
+CREATE TABLE public.sales_return_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  return_id UUID NOT NULL REFERENCES public.sales_returns(id) ON DELETE CASCADE,
+  sales_transaction_item_id UUID NOT NULL REFERENCES public.sales_transaction_items(id) ON DELETE CASCADE,
+  product_id UUID,
+  product_name TEXT NOT NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  line_total NUMERIC NOT NULL,
+  tax_class TEXT NOT NULL DEFAULT 'standard',
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  net_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_returns_transaction
+  ON public.sales_returns (sales_transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_sales_return_items_line
+  ON public.sales_return_items (sales_transaction_item_id);
+
+-- Sales move from completed to partially refunded, refunded or voided
+ALTER TABLE public.sales_transactions
+  ADD CONSTRAINT sales_transactions_payment_status_check
+  CHECK (payment_status IN ('completed', 'partially_refunded', 'refunded', 'voided'));
+
+-- Enable Row Level Security
+ALTER TABLE public.sales_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_return_items ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Allow public access to sales_returns" 
+ON public.sales_returns FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow public access to sales_return_items" 
+ON public.sales_return_items FOR ALL USING (true) WITH CHECK (true);
+
+-- A voided sale never left the shop, so put the goods back on hand.
+-- Refunded goods are not resold and stay out of stock.
+CREATE OR REPLACE FUNCTION public.post_void_to_finished_goods()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.product_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM sales_returns WHERE id = NEW.return_id AND return_type = 'void'
+  ) THEN
+    INSERT INTO finished_goods_ledger (product_id, movement_type, quantity, reference_id, notes)
+    VALUES (NEW.product_id, 'sale', NEW.quantity, NEW.return_id, 'Sale voided');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_void_finished_goods
+  AFTER INSERT ON sales_return_items
+  FOR EACH ROW
+  EXECUTE FUNCTION post_void_to_finished_goods();
+
+-- Cash handed back for refunds during a register session
+ALTER TABLE public.cash_register_sessions
+  ADD COLUMN cash_refunds_total NUMERIC;
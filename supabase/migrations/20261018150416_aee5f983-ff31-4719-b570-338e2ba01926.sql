@@ -0,0 +1,46 @@
+-- Merits and demerits as their own records instead of tags appended to assignment instructions
+CREATE TABLE public.staff_conduct_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  staff_id BIGINT NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+  staff_name TEXT NOT NULL,
+  assignment_id UUID REFERENCES public.assignments(id) ON DELETE SET NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('merit', 'demerit')),
+  category TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'minor' CHECK (severity IN ('minor', 'moderate', 'major')),
+  reason TEXT NOT NULL,
+  issued_by UUID REFERENCES public.pos_users(id) ON DELETE SET NULL,
+  issued_by_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_conduct_records_staff
+  ON public.staff_conduct_records (staff_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_staff_conduct_records_assignment
+  ON public.staff_conduct_records (assignment_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.staff_conduct_records ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Allow public access to staff_conduct_records" 
+ON public.staff_conduct_records FOR ALL USING (true) WITH CHECK (true);
+
+-- Backfill from the tags already written into assignment instructions
+INSERT INTO public.staff_conduct_records (staff_id, staff_name, assignment_id, record_type, category, severity, reason, issued_by_name, created_at)
+SELECT assignee_id, assignee_name, id, 'merit', 'self_initiative', 'minor',
+  'Recognized for exceptional initiative', 'Imported', COALESCE(created_at, now())
+FROM public.assignments
+WHERE instructions LIKE '%[SELF INITIATIVE MERIT AWARD]%';
+
+INSERT INTO public.staff_conduct_records (staff_id, staff_name, assignment_id, record_type, category, severity, reason, issued_by_name, created_at)
+SELECT assignee_id, assignee_name, id, 'demerit', 'poor_standard', 'minor',
+  'Task completed but not to required standard', 'Imported', COALESCE(created_at, now())
+FROM public.assignments
+WHERE instructions LIKE '%[DEMERIT ASSIGNED - POOR STANDARD]%';
+
+INSERT INTO public.staff_conduct_records (staff_id, staff_name, assignment_id, record_type, category, severity, reason, issued_by_name, created_at)
+SELECT assignee_id, assignee_name, id, 'demerit', 'not_completed', 'moderate',
+  'Task not completed according to instructions', 'Imported', COALESCE(created_at, now())
+FROM public.assignments
+WHERE instructions LIKE '%[DEMERIT ASSIGNED]%';
@@ -0,0 +1,98 @@
+-- Recurring cleaning rota: each schedule generates one pending assignment for its area on the days it runs
+CREATE TABLE public.cleaning_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  area_id UUID NOT NULL REFERENCES public.areas(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly')),
+  days_of_week INTEGER[] NOT NULL DEFAULT '{}',
+  assignee_id BIGINT REFERENCES public.staff(id) ON DELETE SET NULL,
+  rotation_department_id BIGINT REFERENCES public.departments(id) ON DELETE SET NULL,
+  rotation_index INTEGER NOT NULL DEFAULT 0,
+  instructions TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  last_generated_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT cleaning_schedules_days_check CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+  CONSTRAINT cleaning_schedules_weekly_days_check CHECK (frequency = 'daily' OR cardinality(days_of_week) > 0),
+  CONSTRAINT cleaning_schedules_assignee_check CHECK (assignee_id IS NOT NULL OR rotation_department_id IS NOT NULL)
+);
+
+CREATE INDEX idx_cleaning_schedules_area ON public.cleaning_schedules(area_id);
+
+ALTER TABLE public.cleaning_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to cleaning_schedules" ON public.cleaning_schedules FOR ALL USING (true) WITH CHECK (true);
+
+-- Link generated assignments back to their schedule; one per schedule per day
+ALTER TABLE public.assignments
+  ADD COLUMN schedule_id UUID REFERENCES public.cleaning_schedules(id) ON DELETE SET NULL,
+  ADD COLUMN scheduled_for DATE,
+  ADD CONSTRAINT assignments_schedule_day_key UNIQUE (schedule_id, scheduled_for);
+
+-- Materialise the day's scheduled assignments. Safe to call repeatedly: days already generated are skipped.
+-- Department rotations hand the task to the next active staff member in that department each time it runs.
+CREATE OR REPLACE FUNCTION public.generate_scheduled_assignments(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  schedule RECORD;
+  v_staff_id BIGINT;
+  v_staff_name TEXT;
+  v_staff_count INTEGER;
+  v_inserted INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOR schedule IN
+    SELECT cs.*, a.name AS area_name
+    FROM cleaning_schedules cs
+    JOIN areas a ON a.id = cs.area_id
+    WHERE cs.active
+      AND (cs.frequency = 'daily' OR EXTRACT(DOW FROM p_date)::INTEGER = ANY(cs.days_of_week))
+      AND NOT EXISTS (
+        SELECT 1 FROM assignments WHERE schedule_id = cs.id AND scheduled_for = p_date
+      )
+    FOR UPDATE OF cs
+  LOOP
+    v_staff_id := NULL;
+    v_staff_name := NULL;
+
+    IF schedule.rotation_department_id IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_staff_count
+      FROM staff
+      WHERE department_id = schedule.rotation_department_id AND active;
+
+      IF v_staff_count > 0 THEN
+        SELECT id, name INTO v_staff_id, v_staff_name
+        FROM staff
+        WHERE department_id = schedule.rotation_department_id AND active
+        ORDER BY name, id
+        OFFSET schedule.rotation_index % v_staff_count
+        LIMIT 1;
+      END IF;
+    END IF;
+
+    -- Fall back to the default assignee when there is no rotation or nobody left in the department
+    IF v_staff_id IS NULL AND schedule.assignee_id IS NOT NULL THEN
+      SELECT id, name INTO v_staff_id, v_staff_name
+      FROM staff
+      WHERE id = schedule.assignee_id;
+    END IF;
+
+    CONTINUE WHEN v_staff_id IS NULL;
+
+    INSERT INTO assignments (area, assignee_id, assignee_name, status, instructions, schedule_id, scheduled_for)
+    VALUES (schedule.area_name, v_staff_id, v_staff_name, 'pending', schedule.instructions, schedule.id, p_date)
+    ON CONFLICT (schedule_id, scheduled_for) DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_total := v_total + v_inserted;
+
+    IF v_inserted > 0 THEN
+      UPDATE cleaning_schedules
+      SET last_generated_on = p_date,
+          rotation_index = CASE WHEN rotation_department_id IS NOT NULL THEN rotation_index + 1 ELSE rotation_index END
+      WHERE id = schedule.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,108 @@
+-- Deadlines for assignments. Open tasks past their due time are flagged overdue.
+ALTER TABLE public.assignments
+  ADD COLUMN due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN overdue_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_assignments_due_at ON public.assignments(due_at) WHERE status IN ('pending', 'in-progress');
+
+-- Existing open assignments are due by the end of the shop's day they were given out. Dates and times
+-- of day are in the shop's time zone (SAST); the database itself runs in UTC.
+UPDATE public.assignments
+SET due_at = (date_trunc('day', created_at AT TIME ZONE 'Africa/Johannesburg') + INTERVAL '1 day')
+  AT TIME ZONE 'Africa/Johannesburg'
+WHERE created_at IS NOT NULL
+  AND status NOT IN ('done', 'completed');
+
+-- Scheduled tasks are due at a set time of day
+ALTER TABLE public.cleaning_schedules
+  ADD COLUMN due_time TIME NOT NULL DEFAULT '17:00';
+
+-- Move open assignments past their deadline to overdue. Called whenever the app loads the task lists.
+-- Each assignment is only flagged once, so a supervisor can put it back in progress.
+CREATE OR REPLACE FUNCTION public.mark_overdue_assignments()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE assignments
+  SET status = 'overdue',
+      overdue_at = now()
+  WHERE due_at < now()
+    AND overdue_at IS NULL
+    AND status IN ('pending', 'in-progress');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Generated assignments now carry the schedule's due time, on the shop's clock
+CREATE OR REPLACE FUNCTION public.generate_scheduled_assignments(
+  p_date DATE DEFAULT (now() AT TIME ZONE 'Africa/Johannesburg')::date
+)
+RETURNS INTEGER AS $$
+DECLARE
+  schedule RECORD;
+  v_staff_id BIGINT;
+  v_staff_name TEXT;
+  v_staff_count INTEGER;
+  v_inserted INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOR schedule IN
+    SELECT cs.*, a.name AS area_name
+    FROM cleaning_schedules cs
+    JOIN areas a ON a.id = cs.area_id
+    WHERE cs.active
+      AND (cs.frequency = 'daily' OR EXTRACT(DOW FROM p_date)::INTEGER = ANY(cs.days_of_week))
+      AND NOT EXISTS (
+        SELECT 1 FROM assignments WHERE schedule_id = cs.id AND scheduled_for = p_date
+      )
+    FOR UPDATE OF cs
+  LOOP
+    v_staff_id := NULL;
+    v_staff_name := NULL;
+
+    IF schedule.rotation_department_id IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_staff_count
+      FROM staff
+      WHERE department_id = schedule.rotation_department_id AND active;
+
+      IF v_staff_count > 0 THEN
+        SELECT id, name INTO v_staff_id, v_staff_name
+        FROM staff
+        WHERE department_id = schedule.rotation_department_id AND active
+        ORDER BY name, id
+        OFFSET schedule.rotation_index % v_staff_count
+        LIMIT 1;
+      END IF;
+    END IF;
+
+    -- Fall back to the default assignee when there is no rotation or nobody left in the department
+    IF v_staff_id IS NULL AND schedule.assignee_id IS NOT NULL THEN
+      SELECT id, name INTO v_staff_id, v_staff_name
+      FROM staff
+      WHERE id = schedule.assignee_id;
+    END IF;
+
+    CONTINUE WHEN v_staff_id IS NULL;
+
+    INSERT INTO assignments (area, assignee_id, assignee_name, status, instructions, schedule_id, scheduled_for, due_at)
+    VALUES (schedule.area_name, v_staff_id, v_staff_name, 'pending', schedule.instructions, schedule.id, p_date,
+      (p_date + schedule.due_time) AT TIME ZONE 'Africa/Johannesburg')
+    ON CONFLICT (schedule_id, scheduled_for) DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_total := v_total + v_inserted;
+
+    IF v_inserted > 0 THEN
+      UPDATE cleaning_schedules
+      SET last_generated_on = p_date,
+          rotation_index = CASE WHEN rotation_department_id IS NOT NULL THEN rotation_index + 1 ELSE rotation_index END
+      WHERE id = schedule.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
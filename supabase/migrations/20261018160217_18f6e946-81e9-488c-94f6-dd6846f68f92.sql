@@ -0,0 +1,11 @@
+-- Completion evidence: an "after" photo alongside the photo taken when the task was assigned
+ALTER TABLE public.assignments
+  ADD COLUMN after_photo_url TEXT,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN rejection_comment TEXT,
+  ADD COLUMN rejected_by_name TEXT,
+  ADD COLUMN rejected_at TIMESTAMP WITH TIME ZONE;
+
+-- New completions must carry an after photo; tasks completed before this change are left as they are
+ALTER TABLE public.assignments
+  ADD CONSTRAINT assignments_done_requires_photo CHECK (status <> 'done' OR after_photo_url IS NOT NULL) NOT VALID;
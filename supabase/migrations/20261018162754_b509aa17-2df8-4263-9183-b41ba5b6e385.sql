@@ -0,0 +1,41 @@
+-- Inspection checklist template for each area. Tick items score 0 or 1; scored items run from 0 to max_score.
+CREATE TABLE public.area_checklist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  area_id UUID NOT NULL REFERENCES public.areas(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  item_type TEXT NOT NULL DEFAULT 'check' CHECK (item_type IN ('check', 'score')),
+  max_score INTEGER NOT NULL DEFAULT 1 CHECK (max_score > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT area_checklist_items_check_max CHECK (item_type = 'score' OR max_score = 1)
+);
+
+CREATE INDEX idx_area_checklist_items_area ON public.area_checklist_items(area_id, sort_order);
+
+ALTER TABLE public.area_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to area_checklist_items" ON public.area_checklist_items FOR ALL USING (true) WITH CHECK (true);
+
+-- What was recorded against each item when an assignment was completed. The label and max score are
+-- copied so past inspections still read correctly after the template changes.
+CREATE TABLE public.assignment_check_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  checklist_item_id UUID REFERENCES public.area_checklist_items(id) ON DELETE SET NULL,
+  label TEXT NOT NULL,
+  score INTEGER NOT NULL CHECK (score >= 0),
+  max_score INTEGER NOT NULL CHECK (max_score > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT assignment_check_results_score_range CHECK (score <= max_score)
+);
+
+CREATE INDEX idx_assignment_check_results_assignment ON public.assignment_check_results(assignment_id);
+
+ALTER TABLE public.assignment_check_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to assignment_check_results" ON public.assignment_check_results FOR ALL USING (true) WITH CHECK (true);
+
+-- Percentage of available points achieved on the assignment's inspection
+ALTER TABLE public.assignments
+  ADD COLUMN hygiene_score NUMERIC(5,2) CHECK (hygiene_score BETWEEN 0 AND 100);
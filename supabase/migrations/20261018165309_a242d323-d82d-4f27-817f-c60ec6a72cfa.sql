@@ -0,0 +1,6 @@
+-- Badge codes so staff can pull up their own tasks at the kiosk. Existing staff get a code straight away.
+ALTER TABLE public.staff
+  ADD COLUMN badge_code TEXT NOT NULL DEFAULT ('STF-' || upper(substr(md5(gen_random_uuid()::text), 1, 8)));
+
+ALTER TABLE public.staff
+  ADD CONSTRAINT staff_badge_code_key UNIQUE (badge_code);
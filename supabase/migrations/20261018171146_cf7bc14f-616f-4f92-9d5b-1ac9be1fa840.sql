@@ -0,0 +1,97 @@
+-- Audit trail of every insert, update and delete across the public tables
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  row_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB,
+  changed_by UUID,
+  changed_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC);
+CREATE INDEX audit_log_table_row_idx ON public.audit_log (table_name, row_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to audit_log" ON public.audit_log FOR SELECT USING (true);
+
+-- The app signs in against pos_users rather than Supabase auth, so the client sends the
+-- signed-in user's id in the x-pos-user-id header. Writes without it (scheduled jobs,
+-- the SQL editor) are logged with no user.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_user_id TEXT;
+  v_user_name TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD) - 'password_hash' - 'qr_code';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW) - 'password_hash' - 'qr_code';
+  END IF;
+
+  -- Nothing actually changed
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+
+  v_user_id := nullif(current_setting('request.headers', true), '')::json->>'x-pos-user-id';
+  IF v_user_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    v_user_id := NULL;
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    SELECT username INTO v_user_name FROM public.pos_users WHERE id = v_user_id::uuid;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, row_id, action, old_data, new_data, changed_by, changed_by_name)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new, v_old)->>'id',
+    TG_OP,
+    v_old,
+    v_new,
+    v_user_id::uuid,
+    v_user_name
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Attach the trigger to every existing table. Tables created later need their own
+-- audit_<table> trigger in the migration that creates them.
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOR v_table IN
+    SELECT table_name FROM information_schema.tables
+    WHERE table_schema = 'public'
+      AND table_type = 'BASE TABLE'
+      AND table_name <> 'audit_log'
+  LOOP
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON public.%1$I FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Table names for the audit page filter
+CREATE OR REPLACE FUNCTION public.audited_tables()
+RETURNS SETOF TEXT AS $$
+  SELECT DISTINCT c.relname::TEXT
+  FROM pg_trigger t
+  JOIN pg_class c ON c.oid = t.tgrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = 'public' AND t.tgname LIKE 'audit\_%'
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,348 @@
+-- Role-based row level security. The app signs in against pos_users rather than Supabase auth,
+-- so signing in now opens a server-side session and the client sends its token in the
+-- x-pos-session header. Policies look up the role behind that token.
+
+-- Sessions are only reachable through the functions below and are deliberately not audited
+CREATE TABLE public.pos_sessions (
+  token TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex') PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.pos_users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '12 hours',
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.pos_sessions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.pos_sessions FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.current_pos_session_token()
+RETURNS TEXT AS $$
+  SELECT nullif(current_setting('request.headers', true), '')::json->>'x-pos-session';
+$$ LANGUAGE sql STABLE;
+
+-- The signed-in user behind the request, or NULL when the session is missing, expired or ended
+CREATE OR REPLACE FUNCTION public.current_pos_user_id()
+RETURNS UUID AS $$
+  SELECT s.user_id
+  FROM pos_sessions s
+  JOIN pos_users u ON u.id = s.user_id
+  WHERE s.token = current_pos_session_token()
+  AND s.ended_at IS NULL
+  AND s.expires_at > now()
+  AND u.active IS DISTINCT FROM false;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.current_pos_role()
+RETURNS TEXT AS $$
+  SELECT role FROM pos_users WHERE id = current_pos_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_pos_role(p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_pos_role() = ANY (p_roles), false);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Sign in with a password or badge. The returned token goes in the x-pos-session header.
+CREATE OR REPLACE FUNCTION public.start_pos_session(p_username TEXT, p_password TEXT)
+RETURNS TABLE (id UUID, username TEXT, role TEXT, session_token TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  SELECT * INTO v_user FROM verify_pos_user_password(p_username, p_password) LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO pos_sessions (user_id) VALUES (v_user.id)
+  RETURNING v_user.id, v_user.username, v_user.role, pos_sessions.token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_pos_badge_session(p_qr_code TEXT)
+RETURNS TABLE (id UUID, username TEXT, role TEXT, session_token TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  SELECT * INTO v_user FROM verify_pos_user_badge(p_qr_code) LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO pos_sessions (user_id) VALUES (v_user.id)
+  RETURNING v_user.id, v_user.username, v_user.role, pos_sessions.token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_pos_session(p_token TEXT)
+RETURNS VOID AS $$
+  UPDATE pos_sessions SET ended_at = now() WHERE token = p_token AND ended_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Who the current token belongs to, so the app can tell an expired session from a missing permission
+CREATE OR REPLACE FUNCTION public.current_pos_session()
+RETURNS TABLE (id UUID, username TEXT, role TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.username, u.role FROM pos_users u WHERE u.id = current_pos_user_id();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_pos_session(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_pos_badge_session(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.end_pos_session(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.current_pos_session() TO anon, authenticated;
+
+-- Badge codes are login credentials, so only admins may read them
+REVOKE SELECT (qr_code) ON public.pos_users FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.list_pos_users()
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  qr_code TEXT,
+  role TEXT,
+  active BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_pos_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can manage users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.qr_code, u.role, u.active, u.created_at, u.created_by
+  FROM pos_users u
+  ORDER BY u.username;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_pos_users() TO anon, authenticated;
+
+-- Only admins may set passwords, now that the session says who is asking
+CREATE OR REPLACE FUNCTION public.set_pos_user_password(p_user_id UUID, p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT has_pos_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can set passwords' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_password IS NOT NULL AND length(p_password) < 4 THEN
+    RAISE EXCEPTION 'Password must be at least 4 characters';
+  END IF;
+
+  UPDATE pos_users
+  SET password_hash = CASE
+    WHEN p_password IS NULL THEN NULL
+    ELSE crypt(p_password, gen_salt('bf'))
+  END
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'POS user % not found', p_user_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_pos_user_password(UUID, TEXT) TO anon, authenticated;
+
+-- Audit entries now take the acting user from the session rather than a client-supplied id
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_user_id UUID;
+  v_user_name TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD) - 'password_hash' - 'qr_code';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW) - 'password_hash' - 'qr_code';
+  END IF;
+
+  -- Nothing actually changed
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+
+  v_user_id := public.current_pos_user_id();
+  IF v_user_id IS NOT NULL THEN
+    SELECT username INTO v_user_name FROM public.pos_users WHERE id = v_user_id;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, row_id, action, old_data, new_data, changed_by, changed_by_name)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new, v_old)->>'id',
+    TG_OP,
+    v_old,
+    v_new,
+    v_user_id,
+    v_user_name
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stock and ledger bookkeeping triggers write to tables the acting role may not,
+-- e.g. a cashier's sale posting to the finished goods ledger
+ALTER FUNCTION public.update_kitchen_stock_on_production() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.deduct_kitchen_stock_on_production() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.post_production_to_finished_goods() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.post_sale_to_finished_goods() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.post_expiry_to_finished_goods() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.post_void_to_finished_goods() SECURITY DEFINER SET search_path = public;
+
+-- Merits and demerits are issued by whoever is signed in, whatever the client says
+ALTER TABLE public.staff_conduct_records ALTER COLUMN issued_by_name SET DEFAULT 'Unknown';
+
+CREATE OR REPLACE FUNCTION public.stamp_conduct_record_issuer()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.issued_by := public.current_pos_user_id();
+  NEW.issued_by_name := COALESCE(
+    (SELECT username FROM public.pos_users WHERE id = NEW.issued_by),
+    NEW.issued_by_name,
+    'Unknown'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_conduct_record_issuer
+  BEFORE INSERT ON public.staff_conduct_records
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_conduct_record_issuer();
+
+-- Replace the allow-everything policies. Any signed-in user may read; who may write depends
+-- on the table. Tables not listed here are management only.
+DO $$
+DECLARE
+  c_all CONSTANT TEXT := '{cashier,kitchen-staff,manager,admin}';
+  c_kitchen CONSTANT TEXT := '{kitchen-staff,manager,admin}';
+  c_till CONSTANT TEXT := '{cashier,manager,admin}';
+  c_management CONSTANT TEXT := '{manager,admin}';
+  v_policy RECORD;
+  v_table RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies WHERE schemaname = 'public'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+
+  FOR v_table IN
+    SELECT
+      t.table_name,
+      COALESCE(r.insert_roles, c_management) AS insert_roles,
+      COALESCE(r.update_roles, c_management) AS update_roles,
+      COALESCE(r.delete_roles, c_management) AS delete_roles
+    FROM information_schema.tables t
+    LEFT JOIN (VALUES
+      -- Cleaning rota, run from the kitchen pages
+      ('areas', c_kitchen, c_kitchen, c_kitchen),
+      ('area_checklist_items', c_kitchen, c_kitchen, c_management),
+      ('cleaning_schedules', c_kitchen, c_kitchen, c_kitchen),
+      ('assignments', c_kitchen, c_kitchen, c_management),
+      ('assignment_check_results', c_kitchen, c_management, c_management),
+      ('staff_conduct_records', c_management, c_management, c_management),
+      -- Production and stock: kitchen staff log and correct today's entries, managers fix older ones
+      ('production_batches', c_kitchen, c_management, c_management),
+      ('production_ingredients', c_kitchen, c_management, c_management),
+      ('production_logs', c_kitchen, c_management, c_management),
+      ('production_stock_usage', c_kitchen, c_management, c_management),
+      ('finished_goods_ledger', c_kitchen, c_management, c_management),
+      ('kitchen_stock', c_kitchen, c_kitchen, c_management),
+      ('kitchen_stock_adjustments', c_kitchen, c_management, c_management),
+      ('ingredient_transfers', c_kitchen, c_management, c_management),
+      ('expired_items', c_kitchen, c_management, c_management),
+      ('expired_stock_dispatches', c_kitchen, c_management, c_management),
+      -- Till: cashiers ring up sales but cannot change or remove them. Returns are written by
+      -- process_sale_return once a manager has approved them, never straight from the till.
+      ('sales_transactions', c_till, c_management, c_management),
+      ('sales_transaction_items', c_till, c_management, c_management),
+      ('payment_transactions', c_till, c_management, c_management),
+      ('sales_returns', c_management, c_management, c_management),
+      ('sales_return_items', c_management, c_management, c_management),
+      ('cash_register_sessions', c_till, c_management, c_management),
+      ('cash_register_operations', c_till, c_management, c_management),
+      ('pos_users', '{admin}', '{admin}', '{admin}')
+    ) AS r(table_name, insert_roles, update_roles, delete_roles) ON r.table_name = t.table_name
+    WHERE t.table_schema = 'public'
+    AND t.table_type = 'BASE TABLE'
+    AND t.table_name NOT IN ('audit_log', 'pos_sessions')
+  LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', v_table.table_name);
+    EXECUTE format(
+      'CREATE POLICY "Signed-in users can read %1$s" ON public.%1$I FOR SELECT USING ((SELECT public.has_pos_role(%2$L)))',
+      v_table.table_name, c_all
+    );
+    EXECUTE format(
+      'CREATE POLICY "Role can insert %1$s" ON public.%1$I FOR INSERT WITH CHECK ((SELECT public.has_pos_role(%2$L)))',
+      v_table.table_name, v_table.insert_roles
+    );
+    EXECUTE format(
+      'CREATE POLICY "Role can update %1$s" ON public.%1$I FOR UPDATE USING ((SELECT public.has_pos_role(%2$L))) WITH CHECK ((SELECT public.has_pos_role(%2$L)))',
+      v_table.table_name, v_table.update_roles
+    );
+    EXECUTE format(
+      'CREATE POLICY "Role can delete %1$s" ON public.%1$I FOR DELETE USING ((SELECT public.has_pos_role(%2$L)))',
+      v_table.table_name, v_table.delete_roles
+    );
+  END LOOP;
+
+  -- Kitchen staff may still correct entries made today
+  FOR v_table IN
+    SELECT unnest(ARRAY[
+      'production_batches', 'production_ingredients', 'production_logs',
+      'kitchen_stock_adjustments', 'expired_items', 'expired_stock_dispatches'
+    ]) AS table_name
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY "Kitchen can update today''s %1$s" ON public.%1$I FOR UPDATE USING ((SELECT public.has_pos_role(%2$L)) AND created_at >= current_date) WITH CHECK ((SELECT public.has_pos_role(%2$L)))',
+      v_table.table_name, c_kitchen
+    );
+    EXECUTE format(
+      'CREATE POLICY "Kitchen can delete today''s %1$s" ON public.%1$I FOR DELETE USING ((SELECT public.has_pos_role(%2$L)) AND created_at >= current_date)',
+      v_table.table_name, c_kitchen
+    );
+  END LOOP;
+END;
+$$;
+
+-- Cashiers run and close their till, but a closed session's count is left to management
+CREATE POLICY "Till can update open cash_register_sessions" ON public.cash_register_sessions
+  FOR UPDATE USING ((SELECT public.has_pos_role('{cashier,manager,admin}')) AND status = 'open')
+  WITH CHECK ((SELECT public.has_pos_role('{cashier,manager,admin}')));
+
+-- Kitchen staff may clear a task that has not been started yet
+CREATE POLICY "Kitchen can delete pending assignments" ON public.assignments
+  FOR DELETE USING ((SELECT public.has_pos_role('{kitchen-staff,manager,admin}')) AND status = 'pending');
+
+CREATE POLICY "Managers can read audit_log" ON public.audit_log
+  FOR SELECT USING ((SELECT public.has_pos_role('{manager,admin}')));
+
+-- Views otherwise run as their owner and would skip the policies above
+ALTER VIEW public.product_stock_on_hand SET (security_invoker = true);
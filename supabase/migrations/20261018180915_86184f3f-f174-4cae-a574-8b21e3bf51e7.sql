@@ -0,0 +1,46 @@
+-- Signed-off end-of-day Z-reports. Each trading day is signed once and the snapshot never changes.
+CREATE TABLE public.z_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_date DATE NOT NULL UNIQUE,
+  snapshot JSONB NOT NULL,
+  signed_off_by UUID REFERENCES public.pos_users(id) ON DELETE SET NULL,
+  signed_off_by_name TEXT NOT NULL DEFAULT '',
+  signed_off_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.z_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read z_reports" ON public.z_reports
+  FOR SELECT USING ((SELECT public.has_pos_role('{cashier,kitchen-staff,manager,admin}')));
+CREATE POLICY "Role can insert z_reports" ON public.z_reports
+  FOR INSERT WITH CHECK ((SELECT public.has_pos_role('{manager,admin}')));
+
+-- The signer is always the session's user, whatever the client sent
+CREATE OR REPLACE FUNCTION public.stamp_z_report_sign_off()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.signed_off_by := public.current_pos_user_id();
+  NEW.signed_off_by_name := COALESCE((SELECT username FROM public.pos_users WHERE id = NEW.signed_off_by), '');
+  NEW.signed_off_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_z_report_sign_off
+  BEFORE INSERT ON public.z_reports
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_z_report_sign_off();
+
+CREATE OR REPLACE FUNCTION public.prevent_z_report_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Signed-off Z-reports cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_z_report_changes
+  BEFORE UPDATE OR DELETE ON public.z_reports
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_z_report_changes();
+
+CREATE TRIGGER audit_z_reports
+  AFTER INSERT OR UPDATE OR DELETE ON public.z_reports
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
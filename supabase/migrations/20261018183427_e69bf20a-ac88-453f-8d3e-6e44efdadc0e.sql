@@ -0,0 +1,191 @@
+-- Kitchen stock deduction keyed on ingredient id, converted between units and drawn FIFO across lots.
+-- Replaces three overlapping triggers that matched on free-text names, could deduct the same usage
+-- more than once, and silently skipped anything no single lot could cover.
+DROP TRIGGER IF EXISTS trigger_update_kitchen_stock ON public.production_ingredients;
+DROP TRIGGER IF EXISTS trigger_deduct_kitchen_stock ON public.production_ingredients;
+DROP TRIGGER IF EXISTS trigger_deduct_kitchen_stock_on_production ON public.production_ingredients;
+DROP FUNCTION IF EXISTS public.update_kitchen_stock_on_production();
+DROP FUNCTION IF EXISTS public.deduct_kitchen_stock_on_production();
+
+ALTER TABLE public.production_ingredients
+  ADD COLUMN ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE SET NULL,
+  -- How much of quantity_used (in its own unit) no kitchen stock could cover
+  ADD COLUMN stock_shortfall NUMERIC NOT NULL DEFAULT 0;
+
+UPDATE public.production_ingredients pi
+SET ingredient_id = i.id
+FROM public.ingredients i
+WHERE lower(trim(i.name)) = lower(trim(pi.ingredient_name));
+
+-- Each usage row now records which production ingredient drew it, so edits and deletes can put it back.
+-- Deferred because usage is written while the production ingredient row is still being inserted.
+ALTER TABLE public.production_stock_usage
+  ADD COLUMN production_ingredient_id UUID REFERENCES public.production_ingredients(id)
+    ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED;
+
+-- Convert a quantity between units of the same kind (mass, volume or count).
+-- Returns NULL when the units are unknown or of different kinds.
+CREATE OR REPLACE FUNCTION public.convert_unit_quantity(p_quantity NUMERIC, p_from TEXT, p_to TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_from RECORD;
+  v_to RECORD;
+BEGIN
+  SELECT kind, factor INTO v_from FROM (VALUES
+    ('mg', 'mass', 0.001), ('g', 'mass', 1), ('kg', 'mass', 1000),
+    ('ml', 'volume', 1), ('l', 'volume', 1000),
+    ('unit', 'count', 1), ('units', 'count', 1), ('each', 'count', 1), ('pcs', 'count', 1)
+  ) AS u(name, kind, factor)
+  WHERE u.name = lower(trim(p_from));
+
+  SELECT kind, factor INTO v_to FROM (VALUES
+    ('mg', 'mass', 0.001), ('g', 'mass', 1), ('kg', 'mass', 1000),
+    ('ml', 'volume', 1), ('l', 'volume', 1000),
+    ('unit', 'count', 1), ('units', 'count', 1), ('each', 'count', 1), ('pcs', 'count', 1)
+  ) AS u(name, kind, factor)
+  WHERE u.name = lower(trim(p_to));
+
+  IF v_from.kind IS NULL OR v_to.kind IS NULL OR v_from.kind <> v_to.kind THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN p_quantity * v_from.factor / v_to.factor;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Put back everything a production ingredient drew from kitchen stock
+CREATE OR REPLACE FUNCTION public.restore_production_stock_usage(p_production_ingredient_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_usage RECORD;
+  v_previous NUMERIC;
+BEGIN
+  FOR v_usage IN
+    SELECT * FROM production_stock_usage WHERE production_ingredient_id = p_production_ingredient_id
+  LOOP
+    SELECT quantity_on_hand INTO v_previous FROM kitchen_stock WHERE id = v_usage.kitchen_stock_id FOR UPDATE;
+
+    UPDATE kitchen_stock
+    SET quantity_on_hand = quantity_on_hand + v_usage.quantity_used,
+        last_updated = now()
+    WHERE id = v_usage.kitchen_stock_id;
+
+    INSERT INTO kitchen_stock_adjustments (
+      kitchen_stock_id, ingredient_name, adjustment_type, quantity_adjusted,
+      previous_quantity, new_quantity, reason, adjusted_by
+    ) VALUES (
+      v_usage.kitchen_stock_id, v_usage.ingredient_name, 'increase', v_usage.quantity_used,
+      v_previous, v_previous + v_usage.quantity_used,
+      'Production usage reversed for batch: ' || v_usage.batch_id, 'System'
+    );
+  END LOOP;
+
+  DELETE FROM production_stock_usage WHERE production_ingredient_id = p_production_ingredient_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the stock triggers below may put stock back
+REVOKE EXECUTE ON FUNCTION public.restore_production_stock_usage(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Draw a production ingredient from the oldest kitchen stock lots first. Whatever the lots
+-- cannot cover is kept on the row as stock_shortfall rather than being dropped.
+CREATE OR REPLACE FUNCTION public.deduct_kitchen_stock_fifo()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_lot RECORD;
+  v_needed NUMERIC;
+  v_needed_in_lot_unit NUMERIC;
+  v_take NUMERIC;
+  v_total_cost NUMERIC := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.quantity_used IS NOT DISTINCT FROM OLD.quantity_used
+      AND NEW.unit IS NOT DISTINCT FROM OLD.unit
+      AND NEW.ingredient_name IS NOT DISTINCT FROM OLD.ingredient_name
+      AND NEW.ingredient_id IS NOT DISTINCT FROM OLD.ingredient_id THEN
+      RETURN NEW;
+    END IF;
+    PERFORM restore_production_stock_usage(OLD.id);
+    IF NEW.ingredient_name IS DISTINCT FROM OLD.ingredient_name AND NEW.ingredient_id IS NOT DISTINCT FROM OLD.ingredient_id THEN
+      NEW.ingredient_id := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.ingredient_id IS NULL THEN
+    SELECT id INTO NEW.ingredient_id
+    FROM ingredients
+    WHERE lower(trim(name)) = lower(trim(NEW.ingredient_name))
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  v_needed := NEW.quantity_used;
+
+  IF NEW.ingredient_id IS NOT NULL AND NEW.batch_id IS NOT NULL THEN
+    FOR v_lot IN
+      SELECT * FROM kitchen_stock
+      WHERE ingredient_id = NEW.ingredient_id
+      AND quantity_on_hand > 0
+      ORDER BY created_at ASC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_needed <= 0;
+
+      v_needed_in_lot_unit := convert_unit_quantity(v_needed, NEW.unit, v_lot.unit);
+      CONTINUE WHEN v_needed_in_lot_unit IS NULL;
+
+      v_take := LEAST(v_lot.quantity_on_hand, v_needed_in_lot_unit);
+
+      UPDATE kitchen_stock
+      SET quantity_on_hand = quantity_on_hand - v_take,
+          last_updated = now()
+      WHERE id = v_lot.id;
+
+      INSERT INTO production_stock_usage (
+        batch_id, kitchen_stock_id, production_ingredient_id, ingredient_name, quantity_used, unit, cost_per_unit
+      ) VALUES (
+        NEW.batch_id, v_lot.id, NEW.id, NEW.ingredient_name, v_take, v_lot.unit, v_lot.cost_per_unit
+      );
+
+      INSERT INTO kitchen_stock_adjustments (
+        kitchen_stock_id, ingredient_name, adjustment_type, quantity_adjusted,
+        previous_quantity, new_quantity, reason, adjusted_by
+      ) VALUES (
+        v_lot.id, NEW.ingredient_name, 'decrease', v_take,
+        v_lot.quantity_on_hand, v_lot.quantity_on_hand - v_take,
+        'Automatic deduction from production batch: ' || NEW.batch_id, 'System'
+      );
+
+      v_total_cost := v_total_cost + v_take * v_lot.cost_per_unit;
+      v_needed := v_needed - convert_unit_quantity(v_take, v_lot.unit, NEW.unit);
+    END LOOP;
+  END IF;
+
+  NEW.stock_shortfall := GREATEST(round(v_needed, 4), 0);
+
+  -- Cost what came out of stock at what the lots actually cost, per unit of this row
+  IF NEW.quantity_used > NEW.stock_shortfall THEN
+    NEW.cost_per_unit := round(v_total_cost / (NEW.quantity_used - NEW.stock_shortfall), 4);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_deduct_kitchen_stock_fifo
+  BEFORE INSERT OR UPDATE ON public.production_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.deduct_kitchen_stock_fifo();
+
+CREATE OR REPLACE FUNCTION public.restore_kitchen_stock_on_ingredient_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM restore_production_stock_usage(OLD.id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_restore_kitchen_stock
+  BEFORE DELETE ON public.production_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restore_kitchen_stock_on_ingredient_delete();
@@ -0,0 +1,174 @@
+-- Per-ingredient conversion settings, so recipes can be written in cups, spoons or eggs
+-- and still be costed and drawn from stock bought by weight or volume.
+ALTER TABLE public.ingredients
+  ADD COLUMN density_g_per_ml NUMERIC CHECK (density_g_per_ml > 0),
+  ADD COLUMN each_weight_g NUMERIC CHECK (each_weight_g > 0);
+
+-- Same unit registry as src/utils/units.ts. Crossing between mass, volume and count goes
+-- through grams using the density or unit weight given; NULL when the conversion is impossible.
+DROP FUNCTION IF EXISTS public.convert_unit_quantity(NUMERIC, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.convert_unit_quantity(
+  p_quantity NUMERIC,
+  p_from TEXT,
+  p_to TEXT,
+  p_density_g_per_ml NUMERIC DEFAULT NULL,
+  p_each_weight_g NUMERIC DEFAULT NULL
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_from RECORD;
+  v_to RECORD;
+  v_amount NUMERIC;
+  v_grams NUMERIC;
+BEGIN
+  SELECT kind, factor INTO v_from FROM (VALUES
+    ('mg', 'mass', 0.001), ('milligram', 'mass', 0.001), ('milligrams', 'mass', 0.001),
+    ('g', 'mass', 1), ('gram', 'mass', 1), ('grams', 'mass', 1), ('gr', 'mass', 1),
+    ('kg', 'mass', 1000), ('kilogram', 'mass', 1000), ('kilograms', 'mass', 1000), ('kgs', 'mass', 1000),
+    ('ml', 'volume', 1), ('millilitre', 'volume', 1), ('millilitres', 'volume', 1),
+    ('milliliter', 'volume', 1), ('milliliters', 'volume', 1),
+    ('l', 'volume', 1000), ('litre', 'volume', 1000), ('litres', 'volume', 1000),
+    ('liter', 'volume', 1000), ('liters', 'volume', 1000), ('lt', 'volume', 1000),
+    ('tsp', 'volume', 5), ('teaspoon', 'volume', 5), ('teaspoons', 'volume', 5),
+    ('tbsp', 'volume', 15), ('tablespoon', 'volume', 15), ('tablespoons', 'volume', 15), ('tbs', 'volume', 15),
+    ('cup', 'volume', 250), ('cups', 'volume', 250),
+    ('units', 'count', 1), ('unit', 'count', 1), ('each', 'count', 1), ('ea', 'count', 1),
+    ('pcs', 'count', 1), ('pc', 'count', 1), ('piece', 'count', 1), ('pieces', 'count', 1),
+    ('dozen', 'count', 12), ('doz', 'count', 12)
+  ) AS u(name, kind, factor)
+  WHERE u.name = lower(trim(p_from));
+
+  SELECT kind, factor INTO v_to FROM (VALUES
+    ('mg', 'mass', 0.001), ('milligram', 'mass', 0.001), ('milligrams', 'mass', 0.001),
+    ('g', 'mass', 1), ('gram', 'mass', 1), ('grams', 'mass', 1), ('gr', 'mass', 1),
+    ('kg', 'mass', 1000), ('kilogram', 'mass', 1000), ('kilograms', 'mass', 1000), ('kgs', 'mass', 1000),
+    ('ml', 'volume', 1), ('millilitre', 'volume', 1), ('millilitres', 'volume', 1),
+    ('milliliter', 'volume', 1), ('milliliters', 'volume', 1),
+    ('l', 'volume', 1000), ('litre', 'volume', 1000), ('litres', 'volume', 1000),
+    ('liter', 'volume', 1000), ('liters', 'volume', 1000), ('lt', 'volume', 1000),
+    ('tsp', 'volume', 5), ('teaspoon', 'volume', 5), ('teaspoons', 'volume', 5),
+    ('tbsp', 'volume', 15), ('tablespoon', 'volume', 15), ('tablespoons', 'volume', 15), ('tbs', 'volume', 15),
+    ('cup', 'volume', 250), ('cups', 'volume', 250),
+    ('units', 'count', 1), ('unit', 'count', 1), ('each', 'count', 1), ('ea', 'count', 1),
+    ('pcs', 'count', 1), ('pc', 'count', 1), ('piece', 'count', 1), ('pieces', 'count', 1),
+    ('dozen', 'count', 12), ('doz', 'count', 12)
+  ) AS u(name, kind, factor)
+  WHERE u.name = lower(trim(p_to));
+
+  IF v_from.kind IS NULL OR v_to.kind IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_amount := p_quantity * v_from.factor;
+
+  IF v_from.kind = v_to.kind THEN
+    RETURN v_amount / v_to.factor;
+  END IF;
+
+  v_grams := CASE v_from.kind
+    WHEN 'mass' THEN v_amount
+    WHEN 'volume' THEN v_amount * p_density_g_per_ml
+    ELSE v_amount * p_each_weight_g
+  END;
+
+  RETURN CASE v_to.kind
+    WHEN 'mass' THEN v_grams
+    WHEN 'volume' THEN v_grams / p_density_g_per_ml
+    ELSE v_grams / p_each_weight_g
+  END / v_to.factor;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- As in the previous version, now converting with the ingredient's density and unit weight
+CREATE OR REPLACE FUNCTION public.deduct_kitchen_stock_fifo()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_lot RECORD;
+  v_ingredient RECORD;
+  v_needed NUMERIC;
+  v_needed_in_lot_unit NUMERIC;
+  v_take NUMERIC;
+  v_total_cost NUMERIC := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.quantity_used IS NOT DISTINCT FROM OLD.quantity_used
+      AND NEW.unit IS NOT DISTINCT FROM OLD.unit
+      AND NEW.ingredient_name IS NOT DISTINCT FROM OLD.ingredient_name
+      AND NEW.ingredient_id IS NOT DISTINCT FROM OLD.ingredient_id THEN
+      RETURN NEW;
+    END IF;
+    PERFORM restore_production_stock_usage(OLD.id);
+    IF NEW.ingredient_name IS DISTINCT FROM OLD.ingredient_name AND NEW.ingredient_id IS NOT DISTINCT FROM OLD.ingredient_id THEN
+      NEW.ingredient_id := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.ingredient_id IS NULL THEN
+    SELECT id INTO NEW.ingredient_id
+    FROM ingredients
+    WHERE lower(trim(name)) = lower(trim(NEW.ingredient_name))
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  SELECT density_g_per_ml, each_weight_g INTO v_ingredient
+  FROM ingredients
+  WHERE id = NEW.ingredient_id;
+
+  v_needed := NEW.quantity_used;
+
+  IF NEW.ingredient_id IS NOT NULL AND NEW.batch_id IS NOT NULL THEN
+    FOR v_lot IN
+      SELECT * FROM kitchen_stock
+      WHERE ingredient_id = NEW.ingredient_id
+      AND quantity_on_hand > 0
+      ORDER BY created_at ASC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_needed <= 0;
+
+      v_needed_in_lot_unit := convert_unit_quantity(
+        v_needed, NEW.unit, v_lot.unit, v_ingredient.density_g_per_ml, v_ingredient.each_weight_g
+      );
+      CONTINUE WHEN v_needed_in_lot_unit IS NULL;
+
+      v_take := LEAST(v_lot.quantity_on_hand, v_needed_in_lot_unit);
+
+      UPDATE kitchen_stock
+      SET quantity_on_hand = quantity_on_hand - v_take,
+          last_updated = now()
+      WHERE id = v_lot.id;
+
+      INSERT INTO production_stock_usage (
+        batch_id, kitchen_stock_id, production_ingredient_id, ingredient_name, quantity_used, unit, cost_per_unit
+      ) VALUES (
+        NEW.batch_id, v_lot.id, NEW.id, NEW.ingredient_name, v_take, v_lot.unit, v_lot.cost_per_unit
+      );
+
+      INSERT INTO kitchen_stock_adjustments (
+        kitchen_stock_id, ingredient_name, adjustment_type, quantity_adjusted,
+        previous_quantity, new_quantity, reason, adjusted_by
+      ) VALUES (
+        v_lot.id, NEW.ingredient_name, 'decrease', v_take,
+        v_lot.quantity_on_hand, v_lot.quantity_on_hand - v_take,
+        'Automatic deduction from production batch: ' || NEW.batch_id, 'System'
+      );
+
+      v_total_cost := v_total_cost + v_take * v_lot.cost_per_unit;
+      v_needed := v_needed - convert_unit_quantity(
+        v_take, v_lot.unit, NEW.unit, v_ingredient.density_g_per_ml, v_ingredient.each_weight_g
+      );
+    END LOOP;
+  END IF;
+
+  NEW.stock_shortfall := GREATEST(round(v_needed, 4), 0);
+
+  -- Cost what came out of stock at what the lots actually cost, per unit of this row
+  IF NEW.quantity_used > NEW.stock_shortfall THEN
+    NEW.cost_per_unit := round(v_total_cost / (NEW.quantity_used - NEW.stock_shortfall), 4);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
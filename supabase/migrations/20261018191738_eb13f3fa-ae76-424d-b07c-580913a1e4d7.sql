@@ -0,0 +1,159 @@
+-- Immutable recipe versions. Recipes and their ingredients are still edited in place, but every
+-- change is snapshotted here and each production batch keeps the version it was made from.
+CREATE TABLE public.recipe_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  batch_size NUMERIC NOT NULL,
+  unit TEXT NOT NULL,
+  ingredients JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_cost NUMERIC NOT NULL DEFAULT 0,
+  cost_per_unit NUMERIC NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.pos_users(id) ON DELETE SET NULL,
+  created_by_name TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (recipe_id, version_number)
+);
+
+-- Versions are only written by snapshot_recipe_version, so there is no insert policy
+ALTER TABLE public.recipe_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read recipe_versions" ON public.recipe_versions
+  FOR SELECT USING ((SELECT public.has_pos_role('{cashier,kitchen-staff,manager,admin}')));
+
+-- Deletes are left to the cascade from recipes; a version's content never changes
+CREATE OR REPLACE FUNCTION public.prevent_recipe_version_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Recipe versions cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_recipe_version_changes
+  BEFORE UPDATE ON public.recipe_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_recipe_version_changes();
+
+CREATE TRIGGER audit_recipe_versions
+  AFTER INSERT OR UPDATE OR DELETE ON public.recipe_versions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Snapshot a recipe as it stands now and return the version's id. When nothing has changed since
+-- the latest version, that version is returned instead of a duplicate being taken.
+CREATE OR REPLACE FUNCTION public.snapshot_recipe_version(p_recipe_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_recipe RECORD;
+  v_latest RECORD;
+  v_ingredients JSONB;
+  v_total_cost NUMERIC;
+  v_version_id UUID;
+BEGIN
+  -- Locking the recipe serialises concurrent snapshots of it
+  SELECT * INTO v_recipe FROM recipes WHERE id = p_recipe_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'ingredient_name', ri.ingredient_name,
+      'quantity', ri.quantity,
+      'unit', ri.unit,
+      'cost_per_unit', ri.cost_per_unit,
+      'pack_size', ri.pack_size,
+      'pack_unit', ri.pack_unit,
+      'pack_price', ri.pack_price,
+      'line_cost', COALESCE(ri.calculated_cost, ri.cost_per_unit * ri.quantity)
+    ) ORDER BY lower(ri.ingredient_name), ri.id), '[]'::jsonb),
+    COALESCE(SUM(COALESCE(ri.calculated_cost, ri.cost_per_unit * ri.quantity)), 0)
+  INTO v_ingredients, v_total_cost
+  FROM recipe_ingredients ri
+  WHERE ri.recipe_id = p_recipe_id;
+
+  SELECT * INTO v_latest
+  FROM recipe_versions
+  WHERE recipe_id = p_recipe_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF v_latest.id IS NOT NULL
+    AND v_latest.name = v_recipe.name
+    AND v_latest.description IS NOT DISTINCT FROM v_recipe.description
+    AND v_latest.batch_size = v_recipe.batch_size
+    AND v_latest.unit = v_recipe.unit
+    AND v_latest.ingredients = v_ingredients THEN
+    RETURN v_latest.id;
+  END IF;
+
+  INSERT INTO recipe_versions (
+    recipe_id, version_number, name, description, batch_size, unit,
+    ingredients, total_cost, cost_per_unit, created_by, created_by_name
+  ) VALUES (
+    p_recipe_id, COALESCE(v_latest.version_number, 0) + 1, v_recipe.name, v_recipe.description,
+    v_recipe.batch_size, v_recipe.unit, v_ingredients, round(v_total_cost, 4),
+    CASE WHEN v_recipe.batch_size > 0 THEN round(v_total_cost / v_recipe.batch_size, 4) ELSE 0 END,
+    public.current_pos_user_id(),
+    COALESCE((SELECT username FROM pos_users WHERE id = public.current_pos_user_id()), '')
+  )
+  RETURNING id INTO v_version_id;
+
+  RETURN v_version_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Snapshots are otherwise only taken by triggers. The app takes one after saving a recipe,
+-- which only those who may edit recipes can do.
+CREATE OR REPLACE FUNCTION public.record_recipe_version(p_recipe_id UUID)
+RETURNS UUID AS $$
+BEGIN
+  IF NOT has_pos_role(ARRAY['manager', 'admin']) THEN
+    RAISE EXCEPTION 'Only managers can edit recipes' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN snapshot_recipe_version(p_recipe_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_recipe_version(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_recipe_version(UUID) TO anon, authenticated;
+
+ALTER TABLE public.production_batches
+  ADD COLUMN recipe_version_id UUID REFERENCES public.recipe_versions(id) ON DELETE SET NULL;
+
+-- Existing recipes start at version 1. Older batches can only be linked to that.
+DO $$
+DECLARE
+  v_recipe RECORD;
+BEGIN
+  FOR v_recipe IN SELECT id FROM public.recipes LOOP
+    PERFORM public.snapshot_recipe_version(v_recipe.id);
+  END LOOP;
+END;
+$$;
+
+UPDATE public.production_batches pb
+SET recipe_version_id = rv.id
+FROM public.recipe_versions rv
+WHERE rv.recipe_id = pb.recipe_id;
+
+-- A batch is tied to the recipe as it stood when the batch was recorded (or its recipe last changed),
+-- whatever the client sent
+CREATE OR REPLACE FUNCTION public.link_production_batch_recipe_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.recipe_id IS NULL THEN
+    NEW.recipe_version_id := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.recipe_id IS DISTINCT FROM OLD.recipe_id THEN
+    NEW.recipe_version_id := snapshot_recipe_version(NEW.recipe_id);
+  ELSE
+    NEW.recipe_version_id := OLD.recipe_version_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER link_production_batch_recipe_version
+  BEFORE INSERT OR UPDATE OF recipe_id, recipe_version_id ON public.production_batches
+  FOR EACH ROW EXECUTE FUNCTION public.link_production_batch_recipe_version();
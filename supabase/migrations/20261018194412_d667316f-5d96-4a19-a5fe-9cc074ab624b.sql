@@ -0,0 +1,304 @@
+-- Sub-recipes: a recipe line can be another recipe (a base dough, a custard, an icing), measured in
+-- that recipe's yield unit. Its cost rolls up from the sub-recipe, and batches of an intermediate
+-- recipe go into kitchen stock for parent batches to draw from.
+ALTER TABLE public.recipe_ingredients
+  ADD COLUMN sub_recipe_id UUID REFERENCES public.recipes(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_recipe_ingredients_sub_recipe_id ON public.recipe_ingredients(sub_recipe_id);
+
+-- Cost of one yield unit of a recipe, from its lines as currently priced
+CREATE OR REPLACE FUNCTION public.recipe_cost_per_unit(p_recipe_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT CASE WHEN r.batch_size > 0
+    THEN COALESCE((
+      SELECT SUM(COALESCE(ri.calculated_cost, ri.cost_per_unit * ri.quantity))
+      FROM public.recipe_ingredients ri
+      WHERE ri.recipe_id = r.id
+    ), 0) / r.batch_size
+    ELSE 0 END
+  FROM public.recipes r
+  WHERE r.id = p_recipe_id;
+$$ LANGUAGE sql STABLE;
+
+-- Reject a sub-recipe that already uses the parent anywhere below it, then price the line
+-- from the sub-recipe's current cost
+CREATE OR REPLACE FUNCTION public.price_sub_recipe_line()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_sub_recipe RECORD;
+  v_factor NUMERIC;
+BEGIN
+  IF NEW.sub_recipe_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, unit INTO v_sub_recipe FROM recipes WHERE id = NEW.sub_recipe_id;
+
+  IF NEW.sub_recipe_id = NEW.recipe_id OR EXISTS (
+    WITH RECURSIVE used AS (
+      SELECT sub_recipe_id FROM recipe_ingredients
+      WHERE recipe_id = NEW.sub_recipe_id AND sub_recipe_id IS NOT NULL
+      UNION
+      SELECT ri.sub_recipe_id FROM recipe_ingredients ri
+      JOIN used u ON ri.recipe_id = u.sub_recipe_id
+      WHERE ri.sub_recipe_id IS NOT NULL
+    )
+    SELECT 1 FROM used WHERE sub_recipe_id = NEW.recipe_id
+  ) THEN
+    RAISE EXCEPTION '% already uses this recipe, so it cannot be one of its ingredients', v_sub_recipe.name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_factor := convert_unit_quantity(1, NEW.unit, v_sub_recipe.unit);
+  IF v_factor IS NULL THEN
+    RAISE EXCEPTION 'Measure % in % or a unit of the same kind', v_sub_recipe.name, v_sub_recipe.unit
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.cost_per_unit := round(recipe_cost_per_unit(NEW.sub_recipe_id) * v_factor, 4);
+  NEW.calculated_cost := round(NEW.cost_per_unit * NEW.quantity, 4);
+  NEW.pack_size := NULL;
+  NEW.pack_unit := NULL;
+  NEW.pack_price := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER price_sub_recipe_line
+  BEFORE INSERT OR UPDATE ON public.recipe_ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.price_sub_recipe_line();
+
+-- Re-price every line that uses a recipe. Touching the rows runs price_sub_recipe_line on them,
+-- and their own change then rolls up to the recipes above.
+CREATE OR REPLACE FUNCTION public.reprice_recipe_uses(p_recipe_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE recipe_ingredients SET sub_recipe_id = sub_recipe_id WHERE sub_recipe_id = p_recipe_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the roll-up triggers below may re-price lines
+REVOKE EXECUTE ON FUNCTION public.reprice_recipe_uses(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.roll_up_recipe_line_cost()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.recipe_id IS NOT DISTINCT FROM OLD.recipe_id
+    AND NEW.quantity IS NOT DISTINCT FROM OLD.quantity
+    AND NEW.cost_per_unit IS NOT DISTINCT FROM OLD.cost_per_unit
+    AND NEW.calculated_cost IS NOT DISTINCT FROM OLD.calculated_cost THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM reprice_recipe_uses(OLD.recipe_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.recipe_id IS DISTINCT FROM OLD.recipe_id THEN
+    PERFORM reprice_recipe_uses(NEW.recipe_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER roll_up_recipe_line_cost
+  AFTER INSERT OR UPDATE OR DELETE ON public.recipe_ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.roll_up_recipe_line_cost();
+
+CREATE OR REPLACE FUNCTION public.roll_up_recipe_batch_size()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.batch_size IS DISTINCT FROM OLD.batch_size OR NEW.unit IS DISTINCT FROM OLD.unit THEN
+    PERFORM reprice_recipe_uses(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER roll_up_recipe_batch_size
+  AFTER UPDATE ON public.recipes
+  FOR EACH ROW EXECUTE FUNCTION public.roll_up_recipe_batch_size();
+
+-- Kitchen stock lots of an intermediate recipe, one per production batch that made it
+ALTER TABLE public.kitchen_stock
+  ALTER COLUMN ingredient_id DROP NOT NULL,
+  ADD COLUMN recipe_id UUID REFERENCES public.recipes(id) ON DELETE RESTRICT,
+  ADD COLUMN production_batch_id UUID REFERENCES public.production_batches(id) ON DELETE SET NULL,
+  ADD CONSTRAINT kitchen_stock_ingredient_or_recipe CHECK (ingredient_id IS NOT NULL OR recipe_id IS NOT NULL);
+
+-- A batch with a recipe but no product is an intermediate: its output is stocked in the kitchen
+-- at the batch's cost per unit. Edits move the lot by the difference; deleting the batch clears it.
+CREATE OR REPLACE FUNCTION public.stock_intermediate_batch()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_lot RECORD;
+  v_recipe RECORD;
+  v_new_quantity NUMERIC;
+BEGIN
+  -- Always look the lot up, so v_lot is assigned (to nulls on insert) before its fields are read
+  SELECT * INTO v_lot
+  FROM kitchen_stock
+  WHERE production_batch_id = CASE WHEN TG_OP = 'INSERT' THEN NEW.id ELSE OLD.id END
+  FOR UPDATE;
+
+  IF TG_OP <> 'DELETE' AND NEW.product_id IS NULL AND NEW.recipe_id IS NOT NULL THEN
+    SELECT name, unit INTO v_recipe FROM recipes WHERE id = NEW.recipe_id;
+
+    IF v_lot.id IS NULL THEN
+      INSERT INTO kitchen_stock (
+        recipe_id, production_batch_id, ingredient_name, pack_size, unit, quantity_on_hand, cost_per_unit
+      ) VALUES (
+        NEW.recipe_id, NEW.id, v_recipe.name, 1, v_recipe.unit, NEW.quantity_produced, COALESCE(NEW.cost_per_unit, 0)
+      )
+      RETURNING * INTO v_lot;
+
+      INSERT INTO kitchen_stock_adjustments (
+        kitchen_stock_id, ingredient_name, adjustment_type, quantity_adjusted,
+        previous_quantity, new_quantity, reason, adjusted_by
+      ) VALUES (
+        v_lot.id, v_recipe.name, 'increase', NEW.quantity_produced, 0, NEW.quantity_produced,
+        'Produced in batch: ' || NEW.id, 'System'
+      );
+      RETURN NEW;
+    END IF;
+
+    v_new_quantity := GREATEST(v_lot.quantity_on_hand + NEW.quantity_produced - COALESCE(OLD.quantity_produced, 0), 0);
+    UPDATE kitchen_stock
+    SET recipe_id = NEW.recipe_id,
+        ingredient_name = v_recipe.name,
+        unit = v_recipe.unit,
+        quantity_on_hand = v_new_quantity,
+        cost_per_unit = COALESCE(NEW.cost_per_unit, 0),
+        last_updated = now()
+    WHERE id = v_lot.id;
+  ELSIF v_lot.id IS NOT NULL THEN
+    v_new_quantity := 0;
+    UPDATE kitchen_stock SET quantity_on_hand = 0, last_updated = now() WHERE id = v_lot.id;
+  ELSE
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF v_new_quantity <> v_lot.quantity_on_hand THEN
+    INSERT INTO kitchen_stock_adjustments (
+      kitchen_stock_id, ingredient_name, adjustment_type, quantity_adjusted,
+      previous_quantity, new_quantity, reason, adjusted_by
+    ) VALUES (
+      v_lot.id, v_lot.ingredient_name,
+      CASE WHEN v_new_quantity > v_lot.quantity_on_hand THEN 'increase' ELSE 'decrease' END,
+      abs(v_new_quantity - v_lot.quantity_on_hand), v_lot.quantity_on_hand, v_new_quantity,
+      CASE WHEN TG_OP = 'DELETE' THEN 'Production batch deleted: ' ELSE 'Production batch edited: ' END || OLD.id,
+      'System'
+    );
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stock_intermediate_batch
+  AFTER INSERT OR UPDATE ON public.production_batches
+  FOR EACH ROW EXECUTE FUNCTION public.stock_intermediate_batch();
+
+-- Before the delete, while the lot still points at the batch
+CREATE TRIGGER unstock_intermediate_batch
+  BEFORE DELETE ON public.production_batches
+  FOR EACH ROW EXECUTE FUNCTION public.stock_intermediate_batch();
+
+-- Production lines made from a sub-recipe draw on its stocked batches instead of raw ingredients
+ALTER TABLE public.production_ingredients
+  ADD COLUMN sub_recipe_id UUID REFERENCES public.recipes(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.deduct_kitchen_stock_fifo()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_lot RECORD;
+  v_ingredient RECORD;
+  v_needed NUMERIC;
+  v_needed_in_lot_unit NUMERIC;
+  v_take NUMERIC;
+  v_total_cost NUMERIC := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.quantity_used IS NOT DISTINCT FROM OLD.quantity_used
+      AND NEW.unit IS NOT DISTINCT FROM OLD.unit
+      AND NEW.ingredient_name IS NOT DISTINCT FROM OLD.ingredient_name
+      AND NEW.ingredient_id IS NOT DISTINCT FROM OLD.ingredient_id
+      AND NEW.sub_recipe_id IS NOT DISTINCT FROM OLD.sub_recipe_id THEN
+      RETURN NEW;
+    END IF;
+    PERFORM restore_production_stock_usage(OLD.id);
+    IF NEW.ingredient_name IS DISTINCT FROM OLD.ingredient_name AND NEW.ingredient_id IS NOT DISTINCT FROM OLD.ingredient_id THEN
+      NEW.ingredient_id := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.ingredient_id IS NULL AND NEW.sub_recipe_id IS NULL THEN
+    SELECT id INTO NEW.ingredient_id
+    FROM ingredients
+    WHERE lower(trim(name)) = lower(trim(NEW.ingredient_name))
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  SELECT density_g_per_ml, each_weight_g INTO v_ingredient
+  FROM ingredients
+  WHERE id = NEW.ingredient_id AND NEW.sub_recipe_id IS NULL;
+
+  v_needed := NEW.quantity_used;
+
+  IF (NEW.ingredient_id IS NOT NULL OR NEW.sub_recipe_id IS NOT NULL) AND NEW.batch_id IS NOT NULL THEN
+    FOR v_lot IN
+      SELECT * FROM kitchen_stock
+      WHERE CASE WHEN NEW.sub_recipe_id IS NOT NULL
+        THEN recipe_id = NEW.sub_recipe_id
+        ELSE ingredient_id = NEW.ingredient_id END
+      AND quantity_on_hand > 0
+      ORDER BY created_at ASC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_needed <= 0;
+
+      v_needed_in_lot_unit := convert_unit_quantity(
+        v_needed, NEW.unit, v_lot.unit, v_ingredient.density_g_per_ml, v_ingredient.each_weight_g
+      );
+      CONTINUE WHEN v_needed_in_lot_unit IS NULL;
+
+      v_take := LEAST(v_lot.quantity_on_hand, v_needed_in_lot_unit);
+
+      UPDATE kitchen_stock
+      SET quantity_on_hand = quantity_on_hand - v_take,
+          last_updated = now()
+      WHERE id = v_lot.id;
+
+      INSERT INTO production_stock_usage (
+        batch_id, kitchen_stock_id, production_ingredient_id, ingredient_name, quantity_used, unit, cost_per_unit
+      ) VALUES (
+        NEW.batch_id, v_lot.id, NEW.id, NEW.ingredient_name, v_take, v_lot.unit, v_lot.cost_per_unit
+      );
+
+      INSERT INTO kitchen_stock_adjustments (
+        kitchen_stock_id, ingredient_name, adjustment_type, quantity_adjusted,
+        previous_quantity, new_quantity, reason, adjusted_by
+      ) VALUES (
+        v_lot.id, NEW.ingredient_name, 'decrease', v_take,
+        v_lot.quantity_on_hand, v_lot.quantity_on_hand - v_take,
+        'Automatic deduction from production batch: ' || NEW.batch_id, 'System'
+      );
+
+      v_total_cost := v_total_cost + v_take * v_lot.cost_per_unit;
+      v_needed := v_needed - convert_unit_quantity(
+        v_take, v_lot.unit, NEW.unit, v_ingredient.density_g_per_ml, v_ingredient.each_weight_g
+      );
+    END LOOP;
+  END IF;
+
+  NEW.stock_shortfall := GREATEST(round(v_needed, 4), 0);
+
+  -- Cost what came out of stock at what the lots actually cost, per unit of this row
+  IF NEW.quantity_used > NEW.stock_shortfall THEN
+    NEW.cost_per_unit := round(v_total_cost / (NEW.quantity_used - NEW.stock_shortfall), 4);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,185 @@
+-- Recipe lines bought from the ingredient list follow its price. Each price change is logged with
+-- the cost per unit of every recipe it moved, directly or through a sub-recipe.
+ALTER TABLE public.recipe_ingredients
+  ADD COLUMN ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_recipe_ingredients_ingredient_id ON public.recipe_ingredients(ingredient_id);
+
+-- Price a line from its ingredient's current pack. Lines with no linked ingredient, or whose units
+-- cannot be converted from the pack, keep the price they were entered with.
+CREATE OR REPLACE FUNCTION public.price_ingredient_line()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ingredient RECORD;
+  v_pack_in_line_units NUMERIC;
+BEGIN
+  IF NEW.sub_recipe_id IS NOT NULL THEN
+    NEW.ingredient_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Renaming a line without picking a new ingredient relinks it by the new name
+  IF TG_OP = 'UPDATE' AND NEW.ingredient_name IS DISTINCT FROM OLD.ingredient_name
+    AND NEW.ingredient_id IS NOT DISTINCT FROM OLD.ingredient_id THEN
+    NEW.ingredient_id := NULL;
+  END IF;
+
+  IF NEW.ingredient_id IS NULL AND (TG_OP = 'INSERT' OR NEW.ingredient_name IS DISTINCT FROM OLD.ingredient_name) THEN
+    SELECT id INTO NEW.ingredient_id
+    FROM ingredients
+    WHERE lower(trim(name)) = lower(trim(NEW.ingredient_name))
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  SELECT * INTO v_ingredient FROM ingredients WHERE id = NEW.ingredient_id;
+  IF NOT FOUND OR v_ingredient.total_price <= 0 OR v_ingredient.weight <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_pack_in_line_units := convert_unit_quantity(
+    v_ingredient.weight, v_ingredient.unit, NEW.unit, v_ingredient.density_g_per_ml, v_ingredient.each_weight_g
+  );
+  IF v_pack_in_line_units IS NULL OR v_pack_in_line_units <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.pack_price := v_ingredient.total_price;
+  NEW.pack_size := v_ingredient.weight;
+  NEW.pack_unit := v_ingredient.unit;
+  NEW.cost_per_unit := round(v_ingredient.total_price / v_pack_in_line_units, 4);
+  NEW.calculated_cost := round(NEW.cost_per_unit * NEW.quantity, 4);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER price_ingredient_line
+  BEFORE INSERT OR UPDATE ON public.recipe_ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.price_ingredient_line();
+
+CREATE TABLE public.ingredient_price_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE SET NULL,
+  ingredient_name TEXT NOT NULL,
+  old_total_price NUMERIC NOT NULL,
+  new_total_price NUMERIC NOT NULL,
+  old_pack_size NUMERIC NOT NULL,
+  new_pack_size NUMERIC NOT NULL,
+  old_unit TEXT NOT NULL,
+  new_unit TEXT NOT NULL,
+  changed_by UUID REFERENCES public.pos_users(id) ON DELETE SET NULL,
+  changed_by_name TEXT NOT NULL DEFAULT '',
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.recipe_cost_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_change_id UUID NOT NULL REFERENCES public.ingredient_price_changes(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  recipe_name TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  old_cost_per_unit NUMERIC NOT NULL,
+  new_cost_per_unit NUMERIC,
+  UNIQUE (price_change_id, recipe_id)
+);
+
+CREATE INDEX idx_ingredient_price_changes_changed_at ON public.ingredient_price_changes(changed_at);
+CREATE INDEX idx_recipe_cost_changes_recipe_id ON public.recipe_cost_changes(recipe_id);
+
+-- Both are only written by log_ingredient_price_change, so there are no insert policies
+ALTER TABLE public.ingredient_price_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_cost_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read ingredient_price_changes" ON public.ingredient_price_changes
+  FOR SELECT USING ((SELECT public.has_pos_role('{cashier,kitchen-staff,manager,admin}')));
+
+CREATE POLICY "Signed-in users can read recipe_cost_changes" ON public.recipe_cost_changes
+  FOR SELECT USING ((SELECT public.has_pos_role('{cashier,kitchen-staff,manager,admin}')));
+
+CREATE TRIGGER audit_ingredient_price_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.ingredient_price_changes
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_recipe_cost_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.recipe_cost_changes
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Reprice the ingredient's recipe lines and record how far each affected recipe's cost per unit
+-- moved. Recipes that moved get a new version, so their cost history shows the change.
+CREATE OR REPLACE FUNCTION public.log_ingredient_price_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_change_id UUID;
+BEGIN
+  IF NEW.total_price IS NOT DISTINCT FROM OLD.total_price
+    AND NEW.weight IS NOT DISTINCT FROM OLD.weight
+    AND NEW.unit IS NOT DISTINCT FROM OLD.unit
+    AND NEW.density_g_per_ml IS NOT DISTINCT FROM OLD.density_g_per_ml
+    AND NEW.each_weight_g IS NOT DISTINCT FROM OLD.each_weight_g THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ingredient_price_changes (
+    ingredient_id, ingredient_name, old_total_price, new_total_price,
+    old_pack_size, new_pack_size, old_unit, new_unit, changed_by, changed_by_name
+  ) VALUES (
+    NEW.id, NEW.name, OLD.total_price, NEW.total_price, OLD.weight, NEW.weight, OLD.unit, NEW.unit,
+    public.current_pos_user_id(),
+    COALESCE((SELECT username FROM pos_users WHERE id = public.current_pos_user_id()), '')
+  )
+  RETURNING id INTO v_change_id;
+
+  INSERT INTO recipe_cost_changes (price_change_id, recipe_id, recipe_name, unit, old_cost_per_unit)
+  WITH RECURSIVE affected AS (
+    SELECT recipe_id FROM recipe_ingredients WHERE ingredient_id = NEW.id
+    UNION
+    SELECT ri.recipe_id FROM recipe_ingredients ri
+    JOIN affected a ON ri.sub_recipe_id = a.recipe_id
+  )
+  SELECT v_change_id, r.id, r.name, r.unit, round(COALESCE(recipe_cost_per_unit(r.id), 0), 4)
+  FROM affected a
+  JOIN recipes r ON r.id = a.recipe_id;
+
+  -- Touching the lines runs price_ingredient_line on them, and roll_up_recipe_line_cost carries
+  -- the new cost up through any recipes that use these as sub-recipes
+  UPDATE recipe_ingredients SET ingredient_id = ingredient_id WHERE ingredient_id = NEW.id;
+
+  UPDATE recipe_cost_changes
+  SET new_cost_per_unit = round(COALESCE(recipe_cost_per_unit(recipe_id), 0), 4)
+  WHERE price_change_id = v_change_id;
+
+  DELETE FROM recipe_cost_changes
+  WHERE price_change_id = v_change_id AND new_cost_per_unit = old_cost_per_unit;
+
+  PERFORM snapshot_recipe_version(recipe_id)
+  FROM recipe_cost_changes
+  WHERE price_change_id = v_change_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_ingredient_price_change
+  AFTER UPDATE ON public.ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.log_ingredient_price_change();
+
+-- Link existing lines to the ingredient list by name. The update reprices them at today's prices,
+-- so recipes that changed get a version recording it.
+UPDATE public.recipe_ingredients ri
+SET ingredient_id = (
+  SELECT i.id FROM public.ingredients i
+  WHERE lower(trim(i.name)) = lower(trim(ri.ingredient_name))
+  ORDER BY i.created_at
+  LIMIT 1
+)
+WHERE ri.sub_recipe_id IS NULL;
+
+DO $$
+DECLARE
+  v_recipe RECORD;
+BEGIN
+  FOR v_recipe IN SELECT id FROM public.recipes LOOP
+    PERFORM public.snapshot_recipe_version(v_recipe.id);
+  END LOOP;
+END;
+$$;
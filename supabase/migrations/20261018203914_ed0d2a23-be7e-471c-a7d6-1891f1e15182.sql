@@ -0,0 +1,188 @@
+-- Refunds and voids in one transaction. The approving manager is checked here rather than in the
+-- browser, and the return, its lines, the negative payments and the sale's status are written together.
+CREATE OR REPLACE FUNCTION public.process_sale_return(
+  p_sales_transaction_id UUID,
+  p_return_type TEXT,
+  p_reason TEXT,
+  p_refund_method TEXT,
+  -- [{ "sales_transaction_item_id": ..., "quantity": ... }]; a void takes back everything instead
+  p_items JSONB,
+  -- Left empty when the signed-in user is a manager approving their own return
+  p_approver_username TEXT DEFAULT NULL,
+  p_approver_password TEXT DEFAULT NULL
+)
+RETURNS TABLE (return_id UUID, return_number TEXT, refund_amount NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_caller RECORD;
+  v_approver RECORD;
+  v_sale RECORD;
+  v_line RECORD;
+  v_quantity NUMERIC;
+  v_share NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+  v_refund NUMERIC := 0;
+  v_tax NUMERIC := 0;
+  v_fully_returned BOOLEAN := true;
+  v_refund_method TEXT;
+  v_method_paid NUMERIC;
+  v_return_id UUID;
+  v_return_number TEXT;
+BEGIN
+  SELECT u.id, u.username, u.role INTO v_caller FROM pos_users u WHERE u.id = current_pos_user_id();
+  IF v_caller.id IS NULL OR v_caller.role NOT IN ('cashier', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only till staff can process returns' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_approver_username IS NULL THEN
+    v_approver := v_caller;
+  ELSE
+    SELECT * INTO v_approver FROM verify_pos_user_password(p_approver_username, p_approver_password) LIMIT 1;
+  END IF;
+  IF v_approver.id IS NULL OR v_approver.role NOT IN ('manager', 'admin') THEN
+    RAISE EXCEPTION 'A manager must approve this return' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_return_type NOT IN ('refund', 'void') THEN
+    RAISE EXCEPTION 'Unknown return type %', p_return_type;
+  END IF;
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales_transactions WHERE id = p_sales_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sales_transaction_id;
+  END IF;
+  IF v_sale.payment_status IN ('voided', 'refunded') THEN
+    RAISE EXCEPTION 'This sale has already been %', v_sale.payment_status;
+  END IF;
+
+  IF p_return_type = 'void' THEN
+    IF v_sale.payment_status <> 'completed'
+      OR EXISTS (SELECT 1 FROM sales_returns WHERE sales_transaction_id = v_sale.id) THEN
+      RAISE EXCEPTION 'Only a sale with nothing returned yet can be voided';
+    END IF;
+    v_refund_method := v_sale.payment_method;
+  ELSE
+    -- Money goes back the way the customer paid, and no more than was paid that way. Change and
+    -- earlier refunds (negative payments) come off what the method took.
+    SELECT COALESCE(SUM(amount_paid - COALESCE(change_given, 0)), 0) INTO v_method_paid
+    FROM payment_transactions
+    WHERE sales_transaction_id = v_sale.id AND payment_method = p_refund_method;
+    IF v_method_paid <= 0 THEN
+      RAISE EXCEPTION 'This sale has nothing left to refund by %', p_refund_method;
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) item
+      WHERE NOT EXISTS (
+        SELECT 1 FROM sales_transaction_items sti
+        WHERE sti.id = (item->>'sales_transaction_item_id')::UUID AND sti.transaction_id = v_sale.id
+      )
+    ) THEN
+      RAISE EXCEPTION 'Returned items must come from this sale';
+    END IF;
+    v_refund_method := p_refund_method;
+  END IF;
+
+  FOR v_line IN
+    SELECT sti.*, COALESCE((
+      SELECT SUM(sri.quantity) FROM sales_return_items sri WHERE sri.sales_transaction_item_id = sti.id
+    ), 0) AS returned
+    FROM sales_transaction_items sti
+    WHERE sti.transaction_id = v_sale.id
+    ORDER BY sti.created_at, sti.id
+  LOOP
+    IF p_return_type = 'void' THEN
+      v_quantity := v_line.quantity - v_line.returned;
+    ELSE
+      SELECT COALESCE(SUM((item->>'quantity')::NUMERIC), 0) INTO v_quantity
+      FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) item
+      WHERE (item->>'sales_transaction_item_id')::UUID = v_line.id;
+    END IF;
+
+    IF v_quantity < 0 OR v_quantity > v_line.quantity - v_line.returned THEN
+      RAISE EXCEPTION 'Only % of % can be returned', v_line.quantity - v_line.returned, v_line.product_name;
+    END IF;
+
+    v_fully_returned := v_fully_returned AND v_line.quantity - v_line.returned - v_quantity <= 0;
+    CONTINUE WHEN v_quantity = 0;
+
+    v_share := v_quantity / v_line.quantity;
+    v_items := v_items || jsonb_build_object(
+      'sales_transaction_item_id', v_line.id,
+      'product_id', v_line.product_id,
+      'product_name', v_line.product_name,
+      'quantity', v_quantity,
+      'line_total', round(v_line.line_total * v_share, 2),
+      'tax_class', v_line.tax_class,
+      'tax_amount', round(v_line.tax_amount * v_share, 2),
+      'net_amount', round(v_line.net_amount * v_share, 2)
+    );
+    v_refund := v_refund + round(v_line.line_total * v_share, 2);
+    v_tax := v_tax + round(v_line.tax_amount * v_share, 2);
+  END LOOP;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  IF p_return_type = 'refund' AND v_refund > v_method_paid THEN
+    RAISE EXCEPTION 'Only R% can be refunded by %', round(v_method_paid, 2), p_refund_method;
+  END IF;
+
+  -- A void hands back exactly what was paid, so use the sale total rather than rounded shares
+  IF p_return_type = 'void' THEN
+    v_refund := v_sale.total_amount;
+    v_tax := v_sale.tax_amount;
+  END IF;
+
+  v_return_number := 'RTN-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT;
+
+  INSERT INTO sales_returns (
+    sales_transaction_id, return_number, return_type, reason, refund_method, refund_amount, tax_amount,
+    processed_by, approved_by, approved_by_name
+  ) VALUES (
+    v_sale.id, v_return_number, p_return_type, trim(p_reason), v_refund_method, v_refund, v_tax,
+    v_caller.id, v_approver.id, v_approver.username
+  )
+  RETURNING id INTO v_return_id;
+
+  INSERT INTO sales_return_items (
+    return_id, sales_transaction_item_id, product_id, product_name, quantity, line_total, tax_class, tax_amount, net_amount
+  )
+  SELECT v_return_id, i.sales_transaction_item_id, i.product_id, i.product_name, i.quantity, i.line_total,
+    i.tax_class, i.tax_amount, i.net_amount
+  FROM jsonb_to_recordset(v_items) AS i(
+    sales_transaction_item_id UUID, product_id UUID, product_name TEXT, quantity NUMERIC,
+    line_total NUMERIC, tax_class TEXT, tax_amount NUMERIC, net_amount NUMERIC
+  );
+
+  -- Refunds are recorded as negative payments. A void reverses every tender taken.
+  IF p_return_type = 'void' THEN
+    INSERT INTO payment_transactions (sales_transaction_id, payment_method, amount_paid, change_given, reference_number)
+    SELECT v_sale.id, pt.payment_method, -(pt.amount_paid - COALESCE(pt.change_given, 0)), 0, v_return_number
+    FROM payment_transactions pt
+    WHERE pt.sales_transaction_id = v_sale.id
+    AND pt.amount_paid - COALESCE(pt.change_given, 0) > 0;
+  ELSE
+    INSERT INTO payment_transactions (sales_transaction_id, payment_method, amount_paid, change_given, reference_number)
+    VALUES (v_sale.id, v_refund_method, -v_refund, 0, v_return_number);
+  END IF;
+
+  UPDATE sales_transactions
+  SET payment_status = CASE
+    WHEN p_return_type = 'void' THEN 'voided'
+    WHEN v_fully_returned THEN 'refunded'
+    ELSE 'partially_refunded'
+  END
+  WHERE id = v_sale.id;
+
+  RETURN QUERY SELECT v_return_id, v_return_number, v_refund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale_return(UUID, TEXT, TEXT, TEXT, JSONB, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,78 @@
+-- Mark an assignment done together with its inspection results in one transaction. Results left by
+-- an earlier attempt, e.g. one that failed halfway or was rejected, are replaced rather than added to.
+CREATE OR REPLACE FUNCTION public.complete_assignment(
+  p_assignment_id UUID,
+  p_after_photo_url TEXT,
+  p_hygiene_score NUMERIC,
+  -- [{ "checklist_item_id": ..., "label": ..., "score": ..., "max_score": ... }]
+  p_results JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_pos_role(ARRAY['kitchen-staff', 'manager', 'admin']) THEN
+    RAISE EXCEPTION 'Only kitchen staff can complete assignments' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM assignments WHERE id = p_assignment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', p_assignment_id;
+  END IF;
+
+  DELETE FROM assignment_check_results WHERE assignment_id = p_assignment_id;
+
+  INSERT INTO assignment_check_results (assignment_id, checklist_item_id, label, score, max_score)
+  SELECT p_assignment_id, r.checklist_item_id, r.label, r.score, r.max_score
+  FROM jsonb_to_recordset(COALESCE(p_results, '[]'::jsonb))
+    AS r(checklist_item_id UUID, label TEXT, score INTEGER, max_score INTEGER);
+
+  UPDATE assignments
+  SET status = 'done',
+      after_photo_url = p_after_photo_url,
+      completed_at = now(),
+      hygiene_score = p_hygiene_score
+  WHERE id = p_assignment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_assignment(UUID, TEXT, NUMERIC, JSONB) TO anon, authenticated;
+
+-- Send a completed assignment back to be redone. The results go with the completion, so the
+-- inspection is redone along with the work.
+CREATE OR REPLACE FUNCTION public.reject_assignment_completion(p_assignment_id UUID, p_comment TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_pos_role(ARRAY['manager', 'admin']) THEN
+    RAISE EXCEPTION 'Only managers can reject a completion' USING ERRCODE = '42501';
+  END IF;
+  IF COALESCE(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'Explain what needs redoing';
+  END IF;
+
+  PERFORM 1 FROM assignments WHERE id = p_assignment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', p_assignment_id;
+  END IF;
+
+  DELETE FROM assignment_check_results WHERE assignment_id = p_assignment_id;
+
+  UPDATE assignments
+  SET status = 'in-progress',
+      after_photo_url = NULL,
+      completed_at = NULL,
+      hygiene_score = NULL,
+      rejection_comment = trim(p_comment),
+      rejected_by_name = COALESCE((SELECT username FROM pos_users WHERE id = current_pos_user_id()), 'Unknown'),
+      rejected_at = now()
+  WHERE id = p_assignment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reject_assignment_completion(UUID, TEXT) TO anon, authenticated;